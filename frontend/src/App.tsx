@@ -67,6 +67,7 @@ function App() {
           <OrderStatus 
             status={orderStatus} 
             onNewOrder={handleNewOrder} 
+            onUpdate={handleOrderSubmit}
           />
         ) : (
           <OrderForm 
@@ -2,7 +2,7 @@
  * AI Decision Panel Component
  * 
  * Displays the AI's decision-making process transparently:
- * - Final decision (approve/reject/confirm)
+ * - Final decision (approve/reject/confirm/delay)
  * - Confidence score
  * - Risk level
  * - Step-by-step reasoning
@@ -37,6 +37,7 @@ function AIDecisionPanel({ decision, compact = false }: AIDecisionPanelProps) {
       case 'approve': return { bg: 'rgba(34, 197, 94, 0.15)', border: 'rgba(34, 197, 94, 0.3)', text: '#4ade80' };
       case 'reject': return { bg: 'rgba(239, 68, 68, 0.15)', border: 'rgba(239, 68, 68, 0.3)', text: '#f87171' };
       case 'confirm': return { bg: 'rgba(251, 191, 36, 0.15)', border: 'rgba(251, 191, 36, 0.3)', text: '#fbbf24' };
+      case 'delay': return { bg: 'rgba(56, 189, 248, 0.15)', border: 'rgba(56, 189, 248, 0.3)', text: '#38bdf8' };
       default: return { bg: 'rgba(139, 92, 246, 0.15)', border: 'rgba(139, 92, 246, 0.3)', text: '#a78bfa' };
     }
   };
@@ -46,6 +47,7 @@ function AIDecisionPanel({ decision, compact = false }: AIDecisionPanelProps) {
       case 'approve': return '✅';
       case 'reject': return '❌';
       case 'confirm': return '⚠️';
+      case 'delay': return '⏳';
       default: return '🤔';
     }
   };
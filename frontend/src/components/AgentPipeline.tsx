@@ -22,6 +22,9 @@ export interface PipelineData {
   payment?: AgentStep & {
     txHash?: string;
     explorerUrl?: string;
+    tipTxHash?: string;
+    tipExplorerUrl?: string;
+    tipError?: string;
   };
 }
 
@@ -0,0 +1,98 @@
+/**
+ * Confirmation Dialog Component
+ *
+ * Shown when the AI asks the user to confirm an order before paying.
+ * Lists the warnings from the AI reasoning chain and lets the user
+ * confirm (resumes the same order) or cancel.
+ */
+
+interface ConfirmationDialogProps {
+  amount: number;
+  currency: string;
+  warnings: string[];
+  expiresAt: number;
+  isConfirming: boolean;
+  error?: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function ConfirmationDialog({
+  amount,
+  currency,
+  warnings,
+  expiresAt,
+  isConfirming,
+  error,
+  onConfirm,
+  onCancel,
+}: ConfirmationDialogProps) {
+  const isExpired = Date.now() > expiresAt;
+
+  return (
+    <div style={{
+      background: 'rgba(251, 191, 36, 0.1)',
+      border: '1px solid rgba(251, 191, 36, 0.3)',
+      borderRadius: '16px',
+      padding: '20px',
+      marginBottom: '20px',
+    }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        marginBottom: '12px',
+      }}>
+        <span style={{ fontSize: '1.5rem' }}>⚠️</span>
+        <strong style={{ color: '#fbbf24', fontSize: '1rem' }}>Please confirm this payment</strong>
+      </div>
+
+      <div style={{ fontSize: '0.85rem', color: 'rgba(255,255,255,0.7)', marginBottom: '12px' }}>
+        The AI flagged the following before paying <strong>{amount} {currency}</strong>:
+      </div>
+
+      <ul style={{
+        margin: '0 0 16px 0',
+        paddingLeft: '20px',
+        fontSize: '0.85rem',
+        color: 'rgba(255,255,255,0.8)',
+      }}>
+        {warnings.map((warning, index) => (
+          <li key={index} style={{ marginBottom: '4px' }}>{warning}</li>
+        ))}
+      </ul>
+
+      <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.4)', marginBottom: '16px' }}>
+        {isExpired
+          ? 'This confirmation has expired - please place the order again.'
+          : `Confirm before ${new Date(expiresAt).toLocaleTimeString()}`}
+      </div>
+
+      {error && (
+        <div className="error-message" style={{ marginBottom: '16px' }}>
+          <span style={{ marginRight: '8px' }}>❌</span>
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px' }}>
+        <button
+          className="btn-secondary"
+          onClick={onCancel}
+          disabled={isConfirming}
+        >
+          Cancel
+        </button>
+        <button
+          className="btn-primary"
+          onClick={onConfirm}
+          disabled={isConfirming || isExpired}
+        >
+          {isConfirming ? 'Confirming...' : '✅ Confirm & Pay'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ConfirmationDialog;
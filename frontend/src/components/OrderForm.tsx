@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAccount } from 'wagmi';
 import { apiConfig, kiteTestnet } from '../config';
-import { OrderStatusData } from './OrderStatus';
+import { OrderStatusData, OrderTip, PriceBreakdown } from './OrderStatus';
+import { followOrderEvents, statusFromResponse } from '../orderEvents';
 
 /**
  * User intent types - what action the user wants to take
@@ -31,6 +32,8 @@ interface AgentInfo {
     approvalThreshold: number;
     maxSinglePayment: number;
     maxDailySpending: number;
+    maxTipAmount?: number;
+    maxTipPercent?: number;
   };
   aiConfig?: {
     autoApproveThreshold: number;
@@ -41,13 +44,76 @@ interface AgentInfo {
 }
 
 interface MenuItem {
+  id: string;
   item: string;
   price: number;
   currency: string;
+  category: string;
+  available: boolean;
+  description?: string;
+  modifiers?: string[];
+  stock?: number;               // Units left, for items the shop tracks
+  soldOut?: boolean;
   aiHint?: string;
   expectedDecision?: string;
 }
 
+interface ModifierOption {
+  id: string;
+  name: string;
+  price: number;
+}
+
+interface ModifierGroup {
+  id: string;
+  name: string;
+  max: number;
+  options: ModifierOption[];
+}
+
+interface CartEntry {
+  key: string;                  // Item and modifiers - same drink, same line
+  itemId: string;
+  item: string;
+  modifiers: ModifierOption[];
+  unitPrice: number;
+  quantity: number;
+}
+
+interface ShopStatus {
+  open: boolean;
+  message: string;
+  timezone: string;
+  opensAt?: number;
+}
+
+/**
+ * An automatic promotion running now (from /menu)
+ */
+interface ActivePromotion {
+  id: string;
+  name: string;
+}
+
+/**
+ * The user's last completed order at today's prices (from /users/:address/repeat-order)
+ */
+interface RepeatOrderPlan {
+  sourceOrderId: string;
+  completedAt: number;
+  previousPrice: number;
+  lines: Array<{ itemId: string; item: string; quantity: number; unitPrice: number; lineTotal: number; modifiers?: ModifierOption[] }>;
+  listPrice: number;
+  changes: Array<{
+    type: 'price' | 'removed';
+    item: string;
+    quantity: number;
+    previousUnitPrice: number;
+    unitPrice?: number;
+    reason?: string;
+  }>;
+}
+
 interface IntentOption {
   id: string;
   label: string;
@@ -55,6 +121,62 @@ interface IntentOption {
   icon: string;
 }
 
+const MAX_QUANTITY = 50;
+
+// Tip presets, as a percentage of the discounted price
+const TIP_PERCENTS = [10, 15, 20];
+
+/**
+ * Short description of cart lines, matching the server's
+ * ("Latte (Large, Oat milk) ×3, Espresso ×2")
+ */
+function describeLines(lines: CartEntry[]): string {
+  if (lines.length === 1 && lines[0].quantity === 1) {
+    return describeEntry(lines[0]);
+  }
+  return lines.map(line => `${describeEntry(line)} ×${line.quantity}`).join(', ');
+}
+
+function describeEntry(line: CartEntry): string {
+  if (line.modifiers.length === 0) {
+    return line.item;
+  }
+  const counts = new Map<string, number>();
+  line.modifiers.forEach(modifier => counts.set(modifier.name, (counts.get(modifier.name) || 0) + 1));
+  const names = [...counts].map(([name, count]) => count > 1 ? `${name} ×${count}` : name);
+  return `${line.item} (${names.join(', ')})`;
+}
+
+/**
+ * A line of a repeated order as a cart entry
+ */
+function repeatEntry(line: RepeatOrderPlan['lines'][number]): CartEntry {
+  const modifiers = line.modifiers || [];
+  return {
+    key: [line.itemId, ...modifiers.map(modifier => modifier.id)].join('+'),
+    itemId: line.itemId,
+    item: line.item,
+    modifiers,
+    unitPrice: line.unitPrice,
+    quantity: line.quantity,
+  };
+}
+
+/**
+ * Round a USDT amount to 6 decimals, as the server does
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+/**
+ * A modifier's price change, e.g. " (+0.005 USDT)"
+ */
+function formatDelta(price: number): string {
+  if (price === 0) return '';
+  return ` (${price > 0 ? '+' : ''}${price} USDT)`;
+}
+
 const defaultIntents: IntentOption[] = [
   { id: UserIntent.BUY_COFFEE, label: 'Buy Coffee', description: 'Standard purchase', icon: '☕' },
   { id: UserIntent.URGENT_ORDER, label: 'Urgent', description: 'Priority order', icon: '⚡' },
@@ -64,16 +186,60 @@ const defaultIntents: IntentOption[] = [
 function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps) {
   const { address, isConnected, chain } = useAccount();
   const [menu, setMenu] = useState<MenuItem[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [shopStatus, setShopStatus] = useState<ShopStatus | null>(null);
   const [intents, setIntents] = useState<IntentOption[]>(defaultIntents);
   const [selectedItem, setSelectedItem] = useState('');
   const [selectedIntent, setSelectedIntent] = useState<string>(UserIntent.BUY_COFFEE);
   const [quantity, setQuantity] = useState(1);
+  const [selectedModifiers, setSelectedModifiers] = useState<string[]>([]);
+  const [cart, setCart] = useState<CartEntry[]>([]);
   const [agentInfo, setAgentInfo] = useState<AgentInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [aiPreview, setAiPreview] = useState<string | null>(null);
+  const [scheduleTime, setScheduleTime] = useState('');
+  const [couponCode, setCouponCode] = useState('');
+  const [promotions, setPromotions] = useState<ActivePromotion[]>([]);
+  const [pricing, setPricing] = useState<PriceBreakdown | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [tipChoice, setTipChoice] = useState('');     // '', a preset percent, or 'custom'
+  const [customTip, setCustomTip] = useState('');
+  const [tip, setTip] = useState<OrderTip | null>(null);
+  const [tipError, setTipError] = useState<string | null>(null);
+  const [repeatPlan, setRepeatPlan] = useState<RepeatOrderPlan | null>(null);
+  const [repeatError, setRepeatError] = useState<string | null>(null);
+  // Reused until the server answers, so a resubmit after a network error is not charged twice
+  const idempotencyKey = useRef(crypto.randomUUID());
 
   const selectedCoffee = menu.find(c => c.item === selectedItem);
-  const totalPrice = selectedCoffee ? selectedCoffee.price * quantity : 0;
+  const itemGroups = modifierGroups.filter(group => selectedCoffee?.modifiers?.includes(group.id));
+  // Chosen modifiers in menu order, as the server lists them
+  const chosenModifiers = itemGroups.flatMap(group => group.options.flatMap(option =>
+    selectedModifiers.filter(id => id === option.id).map(() => option)));
+  const selectedLine: CartEntry | null = selectedCoffee ? {
+    key: [selectedCoffee.id, ...chosenModifiers.map(modifier => modifier.id)].join('+'),
+    itemId: selectedCoffee.id,
+    item: selectedCoffee.item,
+    modifiers: chosenModifiers,
+    unitPrice: roundAmount(chosenModifiers.reduce((sum, modifier) => sum + modifier.price, selectedCoffee.price)),
+    quantity,
+  } : null;
+  // A repeat is the last order as the server rebuilt it; without a cart, the order is just the selected item
+  const isRepeat = selectedIntent === UserIntent.REPEAT_ORDER;
+  const orderLines: CartEntry[] = isRepeat
+    ? (repeatPlan ? repeatPlan.lines.map(repeatEntry) : [])
+    : cart.length > 0 ? cart : selectedLine ? [selectedLine] : [];
+  // Estimate for display - the server prices the cart from its menu
+  const totalPrice = orderLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const cartRequest = orderLines.map(line => ({
+    itemId: line.itemId,
+    quantity: line.quantity,
+    modifiers: line.modifiers.length > 0 ? line.modifiers.map(modifier => modifier.id) : undefined,
+  }));
+  // What the customer asked to tip - the server works out the amount and where it goes
+  const tipRequest = tipChoice === 'custom'
+    ? (parseFloat(customTip) > 0 ? { amount: parseFloat(customTip) } : undefined)
+    : tipChoice ? { percent: Number(tipChoice) } : undefined;
   const isWrongNetwork = chain?.id !== kiteTestnet.id;
 
   useEffect(() => {
@@ -82,12 +248,89 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
     fetchIntents();
   }, []);
 
-  // Update AI preview when selection changes
   useEffect(() => {
-    if (selectedCoffee) {
-      setAiPreview(selectedCoffee.aiHint || null);
-    }
-  }, [selectedCoffee, quantity]);
+    // A changed order is a new submission, not a retry
+    idempotencyKey.current = crypto.randomUUID();
+  }, [selectedItem, selectedModifiers, selectedIntent, quantity, cart, scheduleTime, couponCode, tipChoice, customTip]);
+
+  useEffect(() => {
+    // The server rebuilds the last completed order at today's prices
+    setRepeatPlan(null);
+    setRepeatError(null);
+    if (!isRepeat || !address) return;
+
+    const controller = new AbortController();
+    fetch(`${apiConfig.baseUrl}/users/${address}/repeat-order`, { signal: controller.signal })
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) {
+          setRepeatPlan(data.data);
+        } else {
+          setRepeatError(data.error || 'Could not load your last order');
+        }
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setRepeatError('Could not load your last order');
+      });
+
+    return () => controller.abort();
+  }, [isRepeat, address]);
+
+  useEffect(() => {
+    // Modifiers belong to the drink they were picked for
+    setSelectedModifiers([]);
+  }, [selectedItem]);
+
+  // Update AI preview when selection changes: the menu hint at once, then
+  // the engine's actual decision from a dry run (which places nothing)
+  useEffect(() => {
+    if (!selectedCoffee) return;
+    setAiPreview(selectedCoffee.aiHint || null);
+    setPricing(null);
+    setTip(null);
+    if (!address) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`${apiConfig.baseUrl}/order`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          signal: controller.signal,
+          body: JSON.stringify({
+            intent: selectedIntent,
+            cart: cartRequest,
+            couponCode: couponCode.trim() || undefined,
+            tip: tipRequest,
+            repeatOf: isRepeat ? repeatPlan?.sourceOrderId : undefined,
+            userAddress: address,
+            dryRun: true,
+          }),
+        });
+        const data = await response.json();
+        if (data.success && data.dryRun && data.aiDecision) {
+          setAiPreview(data.aiDecision.summary);
+          setPricing(data.pricing || null);
+          setTip(data.tip || null);
+          setCouponError(null);
+          setTipError(null);
+        } else if (tipRequest && data.error?.startsWith('Invalid tip')) {
+          setTipError(data.error);
+        } else if (couponCode.trim() && data.error) {
+          // Most likely the coupon - the order itself was valid without it
+          setPricing(null);
+          setCouponError(data.error);
+        }
+      } catch {
+        // Keep the menu hint
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [selectedCoffee, selectedModifiers, selectedIntent, quantity, cart, couponCode, tipChoice, customTip, repeatPlan, address]);
 
   const fetchAgentInfo = async () => {
     try {
@@ -113,17 +356,19 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
       const response = await fetch(`${apiConfig.baseUrl}/menu`);
       const data = await response.json();
       if (data.success && data.data.length > 0) {
-        setMenu(data.data);
-        setSelectedItem(data.data[0].item);
+        const items: MenuItem[] = data.data;
+        setMenu(items);
+        setSelectedItem((items.find(entry => entry.available) || items[0]).item);
+        setModifierGroups(data.modifierGroups || []);
+        setPromotions(data.promotions || []);
+      }
+      if (data.shopStatus) {
+        setShopStatus(data.shopStatus);
       }
     } catch (err) {
+      // Prices come from the server only - no menu, no orders
       console.error('Failed to fetch menu:', err);
-      const fallbackMenu: MenuItem[] = [
-        { item: 'Latte', price: 0.03, currency: 'USDT', aiHint: '✅ Auto-approved' },
-        { item: 'Espresso', price: 0.02, currency: 'USDT', aiHint: '✅ Auto-approved' },
-      ];
-      setMenu(fallbackMenu);
-      setSelectedItem(fallbackMenu[0].item);
+      setError('Could not load the menu. Please try again later.');
     }
   };
 
@@ -139,6 +384,41 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
     }
   };
 
+  const addToCart = () => {
+    if (!selectedLine) return;
+    setCart(current => {
+      const existing = current.find(line => line.key === selectedLine.key);
+      if (existing) {
+        return current.map(line => line === existing
+          ? { ...line, quantity: Math.min(MAX_QUANTITY, line.quantity + quantity) }
+          : line);
+      }
+      return [...current, selectedLine];
+    });
+    setQuantity(1);
+    setSelectedModifiers([]);
+  };
+
+  const removeFromCart = (key: string) => {
+    setCart(current => current.filter(line => line.key !== key));
+  };
+
+  // Pick the one option of a single-choice group ('' for the default)
+  const chooseModifier = (group: ModifierGroup, optionId: string) => {
+    setSelectedModifiers(current => [
+      ...current.filter(id => !group.options.some(option => option.id === id)),
+      ...(optionId ? [optionId] : []),
+    ]);
+  };
+
+  // Add one more of an option, up to the group's limit
+  const addModifier = (group: ModifierGroup, optionId: string) => {
+    setSelectedModifiers(current => {
+      const picked = current.filter(id => group.options.some(option => option.id === id));
+      return picked.length < group.max ? [...current, optionId] : current;
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -152,22 +432,55 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
       return;
     }
 
-    if (!selectedCoffee) {
+    if (isRepeat && !repeatPlan) {
+      setError(repeatError || 'No previous order to repeat');
+      return;
+    }
+
+    if (orderLines.length === 0) {
       setError('Please select a coffee');
       return;
     }
 
+    if (selectedIntent === UserIntent.CUSTOM_TIP && !tipRequest) {
+      setError('Please choose a tip');
+      return;
+    }
+
     setError(null);
     setIsSubmitting(true);
 
+    // Next occurrence of the chosen time of day (today or tomorrow)
+    let scheduledFor: number | undefined;
+    if (scheduleTime) {
+      const [hours, minutes] = scheduleTime.split(':').map(Number);
+      const next = new Date();
+      next.setHours(hours, minutes, 0, 0);
+      if (next.getTime() <= Date.now()) {
+        next.setDate(next.getDate() + 1);
+      }
+      scheduledFor = next.getTime();
+    }
+
+    const order = {
+      item: describeLines(orderLines),
+      price: pricing ? pricing.finalPrice : totalPrice,
+      currency: 'USDT',
+      pricing: pricing || undefined,
+      tip: tip || undefined,
+      lines: orderLines.map(line => ({
+        item: line.item,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineTotal: roundAmount(line.unitPrice * line.quantity),
+        modifiers: line.modifiers,
+      })),
+    };
+
     // Initial pending state
     onSubmit({
       status: 'received',
-      order: {
-        item: selectedItem,
-        price: totalPrice,
-        currency: 'USDT',
-      },
+      order,
       intent: selectedIntent,
     });
 
@@ -176,42 +489,54 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey.current,
         },
         body: JSON.stringify({
           intent: selectedIntent,
-          item: selectedItem,
-          price: totalPrice,
-          quantity,
+          cart: cartRequest,
+          couponCode: couponCode.trim() || undefined,
+          tip: tipRequest,
+          repeatOf: isRepeat ? repeatPlan?.sourceOrderId : undefined,
           userAddress: address,
+          scheduledFor,
+          async: true,
         }),
       });
 
       const data = await response.json();
+      idempotencyKey.current = crypto.randomUUID();
 
-      // Build order status with AI decision
-      onSubmit({
-        status: data.success ? 'completed' : (data.aiDecision?.decision === 'reject' ? 'rejected' : 'failed'),
-        orderId: data.orderId,
-        order: {
-          item: selectedItem,
-          price: totalPrice,
-          currency: 'USDT',
-        },
+      if (!data.success || !data.orderId) {
+        // The last order changed again - show the new differences
+        if (data.repeat) {
+          setRepeatPlan(data.repeat);
+        }
+        onSubmit({
+          status: statusFromResponse(data),
+          orderId: data.orderId,
+          order: data.pricing
+            ? { ...order, price: data.pricing.finalPrice, pricing: data.pricing, tip: data.tip || order.tip }
+            : order,
+          intent: selectedIntent,
+          aiDecision: data.aiDecision,
+          error: data.error,
+        });
+        return;
+      }
+
+      setCart([]);
+      setCouponCode('');
+      setTipChoice('');
+      setCustomTip('');
+      followOrderEvents(data.orderId, data.eventsUrl, {
+        status: 'received',
+        order,
         intent: selectedIntent,
-        aiDecision: data.aiDecision,
-        pipeline: data.pipeline,
-        transactionHash: data.transaction?.hash,
-        explorerUrl: data.transaction?.explorerUrl,
-        error: data.error,
-      });
+      }, onSubmit);
     } catch (err) {
       onSubmit({
         status: 'failed',
-        order: {
-          item: selectedItem,
-          price: totalPrice,
-          currency: 'USDT',
-        },
+        order,
         intent: selectedIntent,
         error: err instanceof Error ? err.message : 'Network error - is the backend running?',
       });
@@ -330,17 +655,35 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
         </div>
       )}
 
+      {shopStatus && !shopStatus.open && (
+        <div style={{
+          fontSize: '0.85rem',
+          color: '#fbbf24',
+          marginBottom: '16px',
+          padding: '10px 12px',
+          background: 'rgba(251, 191, 36, 0.1)',
+          borderRadius: '8px',
+          border: '1px solid rgba(251, 191, 36, 0.25)',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+        }}>
+          <span>🕒</span>
+          <span>{shopStatus.message} ({shopStatus.timezone})</span>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit}>
         {/* Intent Selection */}
         <div className="form-group">
           <label>Your Intent</label>
           <div style={{ 
             display: 'grid', 
-            gridTemplateColumns: 'repeat(3, 1fr)', 
+            gridTemplateColumns: 'repeat(4, 1fr)', 
             gap: '8px',
             marginBottom: '16px',
           }}>
-            {intents.slice(0, 3).map(intent => (
+            {intents.slice(0, 4).map(intent => (
               <button
                 key={intent.id}
                 type="button"
@@ -367,72 +710,309 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
           </div>
         </div>
 
-        {/* Coffee Selection */}
-        <div className="form-group">
-          <label>Select Coffee {getExpectedDecisionBadge()}</label>
-          <select 
-            value={selectedItem} 
-            onChange={(e) => setSelectedItem(e.target.value)}
-            disabled={isSubmitting || menu.length === 0}
-          >
-            {menu.map(coffee => (
-              <option key={coffee.item} value={coffee.item}>
-                {coffee.item} - {coffee.price} USDT
-              </option>
-            ))}
-          </select>
+        {isRepeat ? (
+          <div className="form-group">
+            <label>Repeat Last Order</label>
+            {repeatPlan ? (
+              <>
+                <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)', marginBottom: '8px' }}>
+                  {repeatPlan.sourceOrderId} · {new Date(repeatPlan.completedAt).toLocaleString()} · was {repeatPlan.previousPrice} USDT
+                </div>
+                {repeatPlan.lines.map((line, index) => (
+                  <div
+                    key={index}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      fontSize: '0.85rem',
+                      padding: '8px 12px',
+                      marginBottom: '6px',
+                      background: 'rgba(255,255,255,0.04)',
+                      borderRadius: '8px',
+                    }}
+                  >
+                    <span>{describeEntry(repeatEntry(line))} ×{line.quantity}</span>
+                    <span style={{ color: 'rgba(255,255,255,0.6)' }}>{line.lineTotal.toFixed(4)} USDT</span>
+                  </div>
+                ))}
+                {repeatPlan.changes.map((change, index) => (
+                  <div key={index} style={{ fontSize: '0.75rem', color: '#fbbf24', marginTop: '4px' }}>
+                    {change.type === 'price'
+                      ? `⚠️ ${change.item}: ${change.previousUnitPrice} → ${change.unitPrice} USDT each`
+                      : `⚠️ ${change.item} ×${change.quantity} left out: ${change.reason}`}
+                  </div>
+                ))}
+                {repeatPlan.changes.length === 0 && (
+                  <div style={{ fontSize: '0.75rem', color: '#4ade80', marginTop: '4px' }}>
+                    ✓ Same items at the same prices as last time
+                  </div>
+                )}
+              </>
+            ) : (
+              <div style={{ fontSize: '0.8rem', color: repeatError ? '#f87171' : 'rgba(255,255,255,0.5)' }}>
+                {repeatError || (address ? 'Loading your last order...' : 'Connect your wallet to repeat your last order')}
+              </div>
+            )}
+            {aiPreview && repeatPlan && (
+              <div style={{ fontSize: '0.8rem', color: 'rgba(255,255,255,0.6)', marginTop: '8px' }}>
+                🧠 AI Prediction: {aiPreview}
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+          {/* Coffee Selection */}
+          <div className="form-group">
+            <label>Select Coffee {getExpectedDecisionBadge()}</label>
+            <select 
+              value={selectedItem} 
+              onChange={(e) => setSelectedItem(e.target.value)}
+              disabled={isSubmitting || menu.length === 0}
+            >
+              {menu.map(coffee => (
+                <option key={coffee.id} value={coffee.item} disabled={!coffee.available}>
+                  {coffee.item} - {coffee.price} USDT
+                  {coffee.soldOut ? ' (sold out)' : !coffee.available ? ' (unavailable)' : coffee.stock !== undefined && coffee.stock <= 5 ? ` (${coffee.stock} left)` : ''}
+                </option>
+              ))}
+            </select>
+            {selectedCoffee?.description && (
+              <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.5)', marginTop: '6px' }}>
+                {selectedCoffee.description}
+              </div>
+            )}
           
-          {/* AI Hint */}
-          {aiPreview && (
-            <div style={{ 
-              fontSize: '0.8rem', 
-              color: 'rgba(255,255,255,0.6)', 
-              marginTop: '8px',
-              padding: '10px 12px',
-              background: 'rgba(139, 92, 246, 0.1)',
-              borderRadius: '8px',
-              border: '1px solid rgba(139, 92, 246, 0.2)',
-              display: 'flex',
-              alignItems: 'center',
-              gap: '8px',
-            }}>
-              <span>🧠</span>
-              <span>AI Prediction: {aiPreview}</span>
+            {/* AI Hint */}
+            {aiPreview && (
+              <div style={{ 
+                fontSize: '0.8rem', 
+                color: 'rgba(255,255,255,0.6)', 
+                marginTop: '8px',
+                padding: '10px 12px',
+                background: 'rgba(139, 92, 246, 0.1)',
+                borderRadius: '8px',
+                border: '1px solid rgba(139, 92, 246, 0.2)',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+              }}>
+                <span>🧠</span>
+                <span>AI Prediction: {aiPreview}</span>
+              </div>
+            )}
+          </div>
+
+          {/* Modifiers */}
+          {itemGroups.length > 0 && (
+            <div className="form-group">
+              <label>Customize</label>
+              {itemGroups.map(group => {
+                const picked = selectedModifiers.filter(id => group.options.some(option => option.id === id));
+                return (
+                  <div
+                    key={group.id}
+                    style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap', marginBottom: '8px' }}
+                  >
+                    <span style={{ fontSize: '0.8rem', color: 'rgba(255,255,255,0.6)', minWidth: '90px' }}>
+                      {group.name}
+                    </span>
+                    {group.max === 1 ? (
+                      <select
+                        value={picked[0] || ''}
+                        onChange={(e) => chooseModifier(group, e.target.value)}
+                        disabled={isSubmitting}
+                        style={{ flex: 1 }}
+                      >
+                        <option value="">Default</option>
+                        {group.options.map(option => (
+                          <option key={option.id} value={option.id}>
+                            {option.name}{formatDelta(option.price)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <>
+                        {group.options.map(option => {
+                          const count = picked.filter(id => id === option.id).length;
+                          return (
+                            <button
+                              key={option.id}
+                              type="button"
+                              className="btn-secondary"
+                              style={{ padding: '4px 10px', fontSize: '0.75rem' }}
+                              onClick={() => addModifier(group, option.id)}
+                              disabled={isSubmitting || picked.length >= group.max}
+                            >
+                              {option.name}{formatDelta(option.price)}{count > 0 ? ` ×${count}` : ''}
+                            </button>
+                          );
+                        })}
+                        {picked.length > 0 && (
+                          <button
+                            type="button"
+                            className="btn-secondary"
+                            style={{ padding: '4px 10px', fontSize: '0.75rem' }}
+                            onClick={() => chooseModifier(group, '')}
+                            disabled={isSubmitting}
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           )}
+
+          {/* Quantity */}
+          <div className="form-group">
+            <label>Quantity</label>
+            <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
+              <button
+                type="button"
+                className="btn-secondary"
+                style={{ padding: '12px 18px' }}
+                onClick={() => setQuantity(Math.max(1, quantity - 1))}
+                disabled={isSubmitting || quantity <= 1}
+              >
+                −
+              </button>
+              <input
+                type="number"
+                min="1"
+                max={MAX_QUANTITY}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.max(1, Math.min(MAX_QUANTITY, parseInt(e.target.value) || 1)))}
+                disabled={isSubmitting}
+                style={{ textAlign: 'center', marginBottom: 0 }}
+              />
+              <button
+                type="button"
+                className="btn-secondary"
+                style={{ padding: '12px 18px' }}
+                onClick={() => setQuantity(Math.min(MAX_QUANTITY, quantity + 1))}
+                disabled={isSubmitting || quantity >= MAX_QUANTITY}
+              >
+                +
+              </button>
+              <button
+                type="button"
+                className="btn-secondary"
+                style={{ padding: '12px 14px', whiteSpace: 'nowrap' }}
+                onClick={addToCart}
+                disabled={isSubmitting || !selectedCoffee?.available}
+              >
+                🛒 Add
+              </button>
+            </div>
+          </div>
+
+          {/* Cart */}
+          {cart.length > 0 && (
+            <div className="form-group">
+              <label>Cart ({cart.reduce((sum, line) => sum + line.quantity, 0)} items)</label>
+              {cart.map(line => (
+                <div
+                  key={line.key}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    fontSize: '0.85rem',
+                    padding: '8px 12px',
+                    marginBottom: '6px',
+                    background: 'rgba(255,255,255,0.04)',
+                    borderRadius: '8px',
+                  }}
+                >
+                  <span>{describeEntry(line)} ×{line.quantity}</span>
+                  <span style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                    <span style={{ color: 'rgba(255,255,255,0.6)' }}>
+                      {(line.unitPrice * line.quantity).toFixed(4)} USDT
+                    </span>
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      style={{ padding: '2px 8px' }}
+                      onClick={() => removeFromCart(line.key)}
+                      disabled={isSubmitting}
+                    >
+                      ×
+                    </button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          </>
+        )}
+
+        {/* Schedule */}
+        <div className="form-group">
+          <label>Schedule (optional)</label>
+          <input
+            type="time"
+            value={scheduleTime}
+            onChange={(e) => setScheduleTime(e.target.value)}
+            disabled={isSubmitting}
+          />
+          <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.4)', marginTop: '6px' }}>
+            {scheduleTime ? `Order will be placed at the next ${scheduleTime}` : 'Leave empty to order now'}
+          </div>
         </div>
 
-        {/* Quantity */}
+        {/* Coupon */}
         <div className="form-group">
-          <label>Quantity</label>
-          <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
-            <button
-              type="button"
-              className="btn-secondary"
-              style={{ padding: '12px 18px' }}
-              onClick={() => setQuantity(Math.max(1, quantity - 1))}
-              disabled={isSubmitting || quantity <= 1}
-            >
-              −
-            </button>
-            <input
-              type="number"
-              min="1"
-              max="10"
-              value={quantity}
-              onChange={(e) => setQuantity(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+          <label>Coupon code (optional)</label>
+          <input
+            type="text"
+            value={couponCode}
+            onChange={(e) => setCouponCode(e.target.value)}
+            placeholder="e.g. WELCOME"
+            disabled={isSubmitting}
+          />
+          <div style={{ fontSize: '0.75rem', color: couponError ? '#f87171' : 'rgba(255,255,255,0.4)', marginTop: '6px' }}>
+            {couponError || (promotions.length > 0
+              ? `🏷️ Running now: ${promotions.map(promotion => promotion.name).join(', ')}`
+              : 'Discounts are applied by the server')}
+          </div>
+        </div>
+
+        {/* Tip */}
+        <div className="form-group">
+          <label>Tip{selectedIntent === UserIntent.CUSTOM_TIP ? '' : ' (optional)'}</label>
+          <div style={{ display: 'flex', gap: '10px' }}>
+            <select
+              value={tipChoice}
+              onChange={(e) => setTipChoice(e.target.value)}
               disabled={isSubmitting}
-              style={{ textAlign: 'center', marginBottom: 0 }}
-            />
-            <button
-              type="button"
-              className="btn-secondary"
-              style={{ padding: '12px 18px' }}
-              onClick={() => setQuantity(Math.min(10, quantity + 1))}
-              disabled={isSubmitting || quantity >= 10}
+              style={{ flex: 1 }}
             >
-              +
-            </button>
+              <option value="">No tip</option>
+              {TIP_PERCENTS.map(percent => (
+                <option key={percent} value={percent}>{percent}%</option>
+              ))}
+              <option value="custom">Custom amount</option>
+            </select>
+            {tipChoice === 'custom' && (
+              <input
+                type="number"
+                min="0"
+                step="0.001"
+                value={customTip}
+                onChange={(e) => setCustomTip(e.target.value)}
+                placeholder="USDT"
+                disabled={isSubmitting}
+                style={{ flex: 1 }}
+              />
+            )}
+          </div>
+          <div style={{ fontSize: '0.75rem', color: tipError ? '#f87171' : 'rgba(255,255,255,0.4)', marginTop: '6px' }}>
+            {tipError || (agentInfo?.policy?.maxTipAmount !== undefined
+              ? `💰 Paid on top of the order, up to ${agentInfo.policy.maxTipAmount} USDT / ${agentInfo.policy.maxTipPercent}%`
+              : '💰 Paid on top of the order')}
           </div>
         </div>
 
@@ -441,7 +1021,25 @@ function OrderForm({ onSubmit, isSubmitting, setIsSubmitting }: OrderFormProps)
           <div style={{ fontSize: '0.8rem', color: 'rgba(255,255,255,0.5)', marginBottom: '4px' }}>
             Total Amount
           </div>
-          <span>{totalPrice.toFixed(4)} USDT</span>
+          {pricing && pricing.discountTotal > 0 ? (
+            <>
+              <span style={{ textDecoration: 'line-through', opacity: 0.5, fontSize: '0.8em', marginRight: '8px' }}>
+                {pricing.listPrice.toFixed(4)}
+              </span>
+              <span>{pricing.finalPrice.toFixed(4)} USDT</span>
+              <div style={{ fontSize: '0.75rem', color: '#4ade80', marginTop: '4px' }}>
+                {pricing.discounts.map(discount => `${discount.name} −${discount.amount}`).join(' · ')}
+              </div>
+            </>
+          ) : (
+            <span>{totalPrice.toFixed(4)} USDT</span>
+          )}
+          {tip && (
+            <div style={{ fontSize: '0.75rem', color: 'rgba(255,255,255,0.6)', marginTop: '4px' }}>
+              + {tip.amount} USDT tip{tip.percent !== undefined ? ` (${tip.percent}%)` : ''} ={' '}
+              {roundAmount((pricing ? pricing.finalPrice : totalPrice) + tip.amount).toFixed(4)} USDT
+            </div>
+          )}
         </div>
 
         {/* Submit Button */}
@@ -1,5 +1,9 @@
+import { useState } from 'react';
 import AgentPipeline, { PipelineData } from './AgentPipeline';
 import AIDecisionPanel from './AIDecisionPanel';
+import ConfirmationDialog from './ConfirmationDialog';
+import { apiConfig } from '../config';
+import { followOrderEvents } from '../orderEvents';
 
 /**
  * AI Decision result structure
@@ -19,6 +23,36 @@ interface AIDecisionResult {
   processingTime: number;
 }
 
+/**
+ * A line of a cart order, with the modifiers it was priced with
+ */
+export interface OrderLine {
+  item: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  modifiers?: Array<{ name: string; price: number }>;
+}
+
+/**
+ * How the server reached the order's price from the menu
+ */
+export interface PriceBreakdown {
+  listPrice: number;
+  discounts: Array<{ name: string; code?: string; amount: number; detail: string }>;
+  discountTotal: number;
+  finalPrice: number;
+}
+
+/**
+ * A tip paid on top of the order price
+ */
+export interface OrderTip {
+  amount: number;
+  percent?: number;
+  recipient: string;
+}
+
 /**
  * Order status data structure - enhanced with AI decision
  */
@@ -29,10 +63,22 @@ export interface OrderStatusData {
     item: string;
     price: number;
     currency: string;
+    lines?: OrderLine[];
+    pricing?: PriceBreakdown;
+    tip?: OrderTip;
   };
   intent?: string;
   aiDecision?: AIDecisionResult;
   pipeline?: PipelineData;
+  schedule?: {
+    scheduledFor: number;
+    reason: string;
+  };
+  confirmation?: {
+    token: string;
+    expiresAt: number;
+    warnings: string[];
+  };
   transactionHash?: string;
   explorerUrl?: string;
   reason?: string;
@@ -42,6 +88,7 @@ export interface OrderStatusData {
 interface OrderStatusProps {
   status: OrderStatusData;
   onNewOrder: () => void;
+  onUpdate: (status: OrderStatusData) => void;
 }
 
 const intentLabels: Record<string, string> = {
@@ -52,14 +99,59 @@ const intentLabels: Record<string, string> = {
   'custom_tip': '💰 Custom Tip',
 };
 
-function OrderStatus({ status, onNewOrder }: OrderStatusProps) {
+function OrderStatus({ status, onNewOrder, onUpdate }: OrderStatusProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [confirmError, setConfirmError] = useState<string | null>(null);
+
   const isSuccess = status.status === 'completed';
   const isFailed = status.status === 'rejected' || status.status === 'failed';
-  const isPending = !isSuccess && !isFailed;
+  const isAwaitingConfirmation = status.status === 'awaiting_confirmation';
+  const isScheduled = status.status === 'scheduled';
+  const isPending = !isSuccess && !isFailed && !isAwaitingConfirmation && !isScheduled;
+
+  const handleConfirm = async () => {
+    if (!status.orderId || !status.confirmation) return;
+
+    setIsConfirming(true);
+    setConfirmError(null);
+
+    try {
+      const response = await fetch(`${apiConfig.baseUrl}/orders/${status.orderId}/confirm`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token: status.confirmation.token,
+          async: true,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        setConfirmError(data.error || 'Confirmation failed');
+        return;
+      }
+
+      followOrderEvents(status.orderId, data.eventsUrl, {
+        ...status,
+        status: 'received',
+        confirmation: undefined,
+        error: undefined,
+      }, onUpdate);
+    } catch (err) {
+      setConfirmError(err instanceof Error ? err.message : 'Network error - is the backend running?');
+    } finally {
+      setIsConfirming(false);
+    }
+  };
 
   const getStatusText = () => {
     switch (status.status) {
       case 'received': return 'AI Evaluating...';
+      case 'scheduled': return 'Scheduled';
+      case 'awaiting_confirmation': return 'Awaiting Your Confirmation';
       case 'validating': return 'Validating...';
       case 'pending_approval': return 'Pending Approval';
       case 'approved': return 'Approved';
@@ -126,6 +218,46 @@ function OrderStatus({ status, onNewOrder }: OrderStatusProps) {
         <AIDecisionPanel decision={status.aiDecision} />
       )}
 
+      {/* Deferred order */}
+      {isScheduled && status.schedule && (
+        <div style={{
+          background: 'rgba(56, 189, 248, 0.1)',
+          border: '1px solid rgba(56, 189, 248, 0.3)',
+          borderRadius: '16px',
+          padding: '20px',
+          marginBottom: '20px',
+        }}>
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '10px',
+            marginBottom: '8px',
+          }}>
+            <span style={{ fontSize: '1.5rem' }}>⏳</span>
+            <strong style={{ color: '#38bdf8', fontSize: '1rem' }}>
+              Scheduled for {new Date(status.schedule.scheduledFor).toLocaleString()}
+            </strong>
+          </div>
+          <div style={{ fontSize: '0.85rem', color: 'rgba(255,255,255,0.7)' }}>
+            {status.schedule.reason}. The agent will process this order automatically when it is due.
+          </div>
+        </div>
+      )}
+
+      {/* Confirmation round-trip */}
+      {isAwaitingConfirmation && status.confirmation && (
+        <ConfirmationDialog
+          amount={status.order.price}
+          currency={status.order.currency}
+          warnings={status.confirmation.warnings}
+          expiresAt={status.confirmation.expiresAt}
+          isConfirming={isConfirming}
+          error={confirmError}
+          onConfirm={handleConfirm}
+          onCancel={onNewOrder}
+        />
+      )}
+
       {/* Status Badge (for pending states) */}
       {isPending && !status.aiDecision && (
         <div style={{ 
@@ -153,9 +285,10 @@ function OrderStatus({ status, onNewOrder }: OrderStatusProps) {
       )}
 
       {/* Multi-Agent Pipeline Visualization */}
-      {status.pipeline && Object.keys(status.pipeline).length > 0 && (
+      {((status.pipeline && Object.keys(status.pipeline).length > 0) ||
+        (isPending && status.aiDecision)) && (
         <AgentPipeline 
-          pipeline={status.pipeline} 
+          pipeline={status.pipeline || {}} 
           currentStatus={status.status}
         />
       )}
@@ -183,12 +316,66 @@ function OrderStatus({ status, onNewOrder }: OrderStatusProps) {
           <span className="info-value">☕ {status.order.item}</span>
         </div>
 
+        {status.order.lines?.map((line, index) => (
+          <div key={index} style={{ fontSize: '0.8rem', padding: '6px 0', borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <span>{line.item} ×{line.quantity}</span>
+              <span style={{ color: 'rgba(255,255,255,0.6)' }}>{line.lineTotal} {status.order.currency}</span>
+            </div>
+            {line.modifiers?.map((modifier, modifierIndex) => (
+              <div
+                key={modifierIndex}
+                style={{ display: 'flex', justifyContent: 'space-between', color: 'rgba(255,255,255,0.45)', paddingLeft: '12px' }}
+              >
+                <span>+ {modifier.name}</span>
+                <span>{modifier.price >= 0 ? '+' : ''}{modifier.price} each</span>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {status.order.pricing && status.order.pricing.discounts.length > 0 && (
+          <div style={{ fontSize: '0.8rem', padding: '6px 0', borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', color: 'rgba(255,255,255,0.6)' }}>
+              <span>List price</span>
+              <span>{status.order.pricing.listPrice} {status.order.currency}</span>
+            </div>
+            {status.order.pricing.discounts.map((discount, index) => (
+              <div key={index} style={{ display: 'flex', justifyContent: 'space-between', color: '#4ade80' }}>
+                <span title={discount.detail}>
+                  🏷️ {discount.name}{discount.code ? ` (${discount.code})` : ''}
+                </span>
+                <span>−{discount.amount} {status.order.currency}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="info-row">
           <span className="info-label">Amount</span>
           <span className="info-value" style={{ color: '#a78bfa', fontWeight: 700 }}>
             {status.order.price} {status.order.currency}
           </span>
         </div>
+
+        {status.order.tip && (
+          <>
+            <div className="info-row">
+              <span className="info-label">
+                💰 Tip{status.order.tip.percent !== undefined ? ` (${status.order.tip.percent}%)` : ''}
+              </span>
+              <span className="info-value" title={`To ${status.order.tip.recipient}`}>
+                {status.order.tip.amount} {status.order.currency}
+              </span>
+            </div>
+            <div className="info-row">
+              <span className="info-label">Total</span>
+              <span className="info-value" style={{ fontWeight: 700 }}>
+                {Math.round((status.order.price + status.order.tip.amount) * 1e6) / 1e6} {status.order.currency}
+              </span>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Success state with transaction */}
@@ -223,6 +410,27 @@ function OrderStatus({ status, onNewOrder }: OrderStatusProps) {
             >
               {status.transactionHash.slice(0, 20)}...{status.transactionHash.slice(-16)}
             </a>
+            {status.pipeline?.payment?.tipTxHash && (
+              <>
+                <div style={{ fontSize: '0.75rem', margin: '10px 0 6px', opacity: 0.7 }}>
+                  Tip Transaction
+                </div>
+                <a
+                  href={status.pipeline.payment.tipExplorerUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="tx-link"
+                  style={{ fontSize: '0.85rem' }}
+                >
+                  {status.pipeline.payment.tipTxHash.slice(0, 20)}...{status.pipeline.payment.tipTxHash.slice(-16)}
+                </a>
+              </>
+            )}
+            {status.pipeline?.payment?.tipError && (
+              <div style={{ fontSize: '0.75rem', marginTop: '10px', color: '#fbbf24' }}>
+                ⚠️ Tip not sent: {status.pipeline.payment.tipError}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,95 @@
+import { apiConfig } from './config';
+import { OrderStatusData } from './components/OrderStatus';
+
+/**
+ * Map a final order response from the backend onto the display status
+ */
+export function statusFromResponse(data: {
+  success: boolean;
+  aiDecision?: { decision: string };
+  confirmation?: unknown;
+  schedule?: unknown;
+}): string {
+  if (data.success) return 'completed';
+  if (data.schedule) return 'scheduled';
+  if (data.confirmation) return 'awaiting_confirmation';
+  return data.aiDecision?.decision === 'reject' ? 'rejected' : 'failed';
+}
+
+/**
+ * Follow an order's progress stream (GET /orders/:id/events)
+ * eventsUrl comes from the 202 response; its key is what lets the stream
+ * include a confirmation token for this client.
+ * Calls onUpdate with the merged order state after every event.
+ * Returns a function that stops listening.
+ */
+export function followOrderEvents(
+  orderId: string,
+  eventsUrl: string,
+  initial: OrderStatusData,
+  onUpdate: (status: OrderStatusData) => void
+): () => void {
+  let current: OrderStatusData = { ...initial, orderId, pipeline: initial.pipeline || {} };
+  const update = (changes: Partial<OrderStatusData>) => {
+    current = { ...current, ...changes };
+    onUpdate(current);
+  };
+
+  const events = new EventSource(`${apiConfig.baseUrl}${eventsUrl}`);
+
+  events.addEventListener('snapshot', (e) => {
+    const record = JSON.parse((e as MessageEvent).data);
+    update({
+      status: record.status,
+      aiDecision: record.aiDecision,
+      pipeline: record.pipeline,
+      // The server's own pricing of the order replaces the form's estimate
+      order: record.order ? {
+        item: record.order.item,
+        price: record.order.price,
+        currency: record.order.currency,
+        lines: record.order.lines,
+        pricing: record.order.pricing,
+        tip: record.order.tip,
+      } : current.order,
+    });
+  });
+
+  events.addEventListener('decision', (e) => {
+    update({ aiDecision: JSON.parse((e as MessageEvent).data).aiDecision });
+  });
+
+  events.addEventListener('status', (e) => {
+    const event = JSON.parse((e as MessageEvent).data);
+    update({ status: event.status, error: event.error });
+  });
+
+  events.addEventListener('step', (e) => {
+    const event = JSON.parse((e as MessageEvent).data);
+    update({ pipeline: { ...current.pipeline, [event.role]: event.step } });
+  });
+
+  events.addEventListener('complete', (e) => {
+    events.close();
+    const data = JSON.parse((e as MessageEvent).data).response;
+    update({
+      status: statusFromResponse(data),
+      aiDecision: data.aiDecision,
+      pipeline: data.pipeline,
+      confirmation: data.confirmation,
+      schedule: data.schedule,
+      transactionHash: data.transaction?.hash,
+      explorerUrl: data.transaction?.explorerUrl,
+      error: data.error,
+    });
+  });
+
+  events.onerror = () => {
+    // EventSource retries on its own; only give up once it has closed
+    if (events.readyState === EventSource.CLOSED) {
+      update({ status: 'failed', error: 'Lost connection to order progress stream' });
+    }
+  };
+
+  return () => events.close();
+}
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Parse ADMIN_TOKENS ("alice:token1,bob:token2") into token → admin name
+ */
+export function parseAdminTokens(value: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const pair of value.split(',')) {
+    const separator = pair.indexOf(':');
+    if (separator <= 0) continue;
+    const name = pair.slice(0, separator).trim();
+    const token = pair.slice(separator + 1).trim();
+    if (name && token) {
+      tokens.set(token, name);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Express middleware requiring an admin bearer token
+ * The admin's name is stored in res.locals.admin for the audit trail.
+ * With no tokens configured the admin API is disabled.
+ */
+export function requireAdmin(tokens: Map<string, string>) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (tokens.size === 0) {
+      res.status(503).json({
+        success: false,
+        error: 'Admin API is disabled. Set ADMIN_TOKENS to enable it.',
+      });
+      return;
+    }
+
+    const header = req.header('Authorization') || '';
+    const presented = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    const admin = presented ? findAdmin(tokens, presented) : null;
+
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Missing or invalid admin token',
+      });
+      return;
+    }
+
+    res.locals.admin = admin;
+    next();
+  };
+}
+
+/**
+ * Constant-time token lookup
+ */
+function findAdmin(tokens: Map<string, string>, presented: string): string | null {
+  const presentedHash = crypto.createHash('sha256').update(presented).digest();
+  let admin: string | null = null;
+  for (const [token, name] of tokens) {
+    const tokenHash = crypto.createHash('sha256').update(token).digest();
+    if (crypto.timingSafeEqual(presentedHash, tokenHash)) {
+      admin = name;
+    }
+  }
+  return admin;
+}
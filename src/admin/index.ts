@@ -0,0 +1,14 @@
+/**
+ * Admin API Exports
+ *
+ * Authentication and input validation for the runtime admin routes.
+ */
+
+export { parseAdminTokens, requireAdmin } from './auth';
+export {
+  validatePolicyUpdate,
+  validateAIConfigUpdate,
+  validateSettingsUpdate,
+  SettingsUpdate,
+  UpdateValidation,
+} from './validation';
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateSettingsUpdate, validateAIConfigUpdate } from './validation';
+import { AIDecisionEngine } from '../ai/AIDecisionEngine';
+
+describe('validateSettingsUpdate', () => {
+  it('accepts a shared limit given on one side or with equal values', () => {
+    assert.equal(validateSettingsUpdate({ policy: { maxSinglePayment: 2 } }).valid, true);
+    assert.equal(validateSettingsUpdate({
+      policy: { maxSinglePayment: 2, approvalThreshold: 0.4 },
+      aiConfig: { maxSinglePayment: 2, autoApproveThreshold: 0.9 },
+    }).valid, true);
+  });
+
+  it('rejects a shared limit given two different values', () => {
+    assert.deepEqual(validateSettingsUpdate({
+      policy: { maxSinglePayment: 2, maxTipAmount: 0.2 },
+      aiConfig: { maxSinglePayment: 3, maxTipAmount: 0.2 },
+    }), {
+      valid: false,
+      reason: 'Conflicting policy and AI config value(s) for: maxSinglePayment',
+    });
+  });
+});
+
+describe('validateAIConfigUpdate', () => {
+  const current = new AIDecisionEngine().getConfig();
+
+  it('rejects inherited property names', () => {
+    assert.deepEqual(validateAIConfigUpdate(JSON.parse('{"toString": 1}'), current), {
+      valid: false,
+      reason: 'Unknown AI config field(s): toString',
+    });
+  });
+
+  it('keeps the reject threshold below the approve threshold', () => {
+    assert.equal(validateAIConfigUpdate({ autoRejectThreshold: 0.9 }, current).valid, false);
+    assert.deepEqual(validateAIConfigUpdate({ autoApproveThreshold: 0.9 }, current).changes, { autoApproveThreshold: 0.9 });
+  });
+});
@@ -0,0 +1,195 @@
+import { ApprovalPolicy } from '../agents/ApprovalAgent';
+import { SpendingLimit } from '../agents/types';
+import { AIEngineConfig } from '../ai/AIDecisionEngine';
+
+/**
+ * Result of validating an admin update
+ */
+export interface UpdateValidation<T> {
+  valid: boolean;
+  reason?: string;
+  changes?: Partial<T>;
+}
+
+const LIMIT_MAP_FIELDS = ['userLimitOverrides', 'merchantLimits', 'categoryLimits'] as const;
+
+// Limits enforced by both the AI engine and the approval agent
+export const SHARED_LIMITS = ['maxSinglePayment', 'maxDailySpending', 'maxTipAmount', 'maxTipPercent'] as const;
+
+/**
+ * A validated policy and/or AI config change, applied together
+ */
+export interface SettingsUpdate {
+  policy?: Partial<ApprovalPolicy>;
+  aiConfig?: Partial<AIEngineConfig>;
+}
+
+/**
+ * Validate a PUT /admin/policy body against the current policy
+ * Scoped limit fields may be set to null to remove them.
+ */
+export function validatePolicyUpdate(
+  input: unknown,
+  current: ApprovalPolicy
+): UpdateValidation<ApprovalPolicy> {
+  if (!isObject(input)) {
+    return { valid: false, reason: 'Body must be a JSON object' };
+  }
+
+  const allowed = [
+    'approvalThreshold', 'maxSinglePayment', 'maxDailySpending', 'maxTipAmount', 'maxTipPercent',
+    'userLimit', ...LIMIT_MAP_FIELDS,
+  ];
+  const unknown = Object.keys(input).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    return { valid: false, reason: `Unknown policy field(s): ${unknown.join(', ')}` };
+  }
+  if (Object.keys(input).length === 0) {
+    return { valid: false, reason: 'No policy fields given' };
+  }
+
+  const changes: Partial<ApprovalPolicy> = {};
+
+  for (const field of ['approvalThreshold', 'maxSinglePayment', 'maxDailySpending', 'maxTipAmount', 'maxTipPercent'] as const) {
+    if (input[field] === undefined) continue;
+    if (!isPositiveNumber(input[field])) {
+      return { valid: false, reason: `${field} must be a positive number` };
+    }
+    changes[field] = input[field] as number;
+  }
+
+  if (input.userLimit !== undefined) {
+    if (input.userLimit !== null && !isSpendingLimit(input.userLimit)) {
+      return { valid: false, reason: 'userLimit must be { maxSinglePayment?, maxDailySpending? } or null' };
+    }
+    changes.userLimit = (input.userLimit as SpendingLimit | null) || undefined;
+  }
+
+  for (const field of LIMIT_MAP_FIELDS) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value !== null && !(isObject(value) && Object.values(value).every(isSpendingLimit))) {
+      return { valid: false, reason: `${field} must map keys to { maxSinglePayment?, maxDailySpending? } or be null` };
+    }
+    changes[field] = (value as Record<string, SpendingLimit> | null) || undefined;
+  }
+
+  const merged = { ...current, ...changes };
+  if (merged.maxSinglePayment > merged.maxDailySpending) {
+    return { valid: false, reason: 'maxSinglePayment cannot exceed maxDailySpending' };
+  }
+
+  return { valid: true, changes };
+}
+
+/**
+ * Validate a PUT /admin/ai-config body against the current config
+ */
+export function validateAIConfigUpdate(
+  input: unknown,
+  current: AIEngineConfig
+): UpdateValidation<AIEngineConfig> {
+  if (!isObject(input)) {
+    return { valid: false, reason: 'Body must be a JSON object' };
+  }
+
+  // Own fields only - `in` would also accept inherited names like toString or __proto__
+  const unknown = Object.keys(input).filter(key => !Object.prototype.hasOwnProperty.call(current, key));
+  if (unknown.length > 0) {
+    return { valid: false, reason: `Unknown AI config field(s): ${unknown.join(', ')}` };
+  }
+  if (Object.keys(input).length === 0) {
+    return { valid: false, reason: 'No AI config fields given' };
+  }
+
+  const changes: Partial<AIEngineConfig> = {};
+
+  for (const field of ['maxSinglePayment', 'maxDailySpending', 'maxTipAmount', 'maxTipPercent'] as const) {
+    if (input[field] === undefined) continue;
+    if (!isPositiveNumber(input[field])) {
+      return { valid: false, reason: `${field} must be a positive number` };
+    }
+    changes[field] = input[field] as number;
+  }
+
+  for (const field of ['maxOrdersPerHour', 'maxCartItems'] as const) {
+    if (input[field] === undefined) continue;
+    if (!Number.isInteger(input[field]) || (input[field] as number) < 1) {
+      return { valid: false, reason: `${field} must be a positive integer` };
+    }
+    changes[field] = input[field] as number;
+  }
+
+  if (input.reasoningTimeoutMs !== undefined) {
+    if (!Number.isInteger(input.reasoningTimeoutMs) || (input.reasoningTimeoutMs as number) < 1) {
+      return { valid: false, reason: 'reasoningTimeoutMs must be a positive integer' };
+    }
+    changes.reasoningTimeoutMs = input.reasoningTimeoutMs as number;
+  }
+
+  if (input.minAgentBalance !== undefined) {
+    if (typeof input.minAgentBalance !== 'number' || input.minAgentBalance < 0) {
+      return { valid: false, reason: 'minAgentBalance must be a number >= 0' };
+    }
+    changes.minAgentBalance = input.minAgentBalance;
+  }
+
+  for (const field of ['autoApproveThreshold', 'autoRejectThreshold'] as const) {
+    if (input[field] === undefined) continue;
+    const value = input[field];
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      return { valid: false, reason: `${field} must be between 0 and 1` };
+    }
+    changes[field] = value;
+  }
+
+  for (const field of ['delayOutsideBusinessHours', 'delayWhenRateLimited'] as const) {
+    if (input[field] === undefined) continue;
+    if (typeof input[field] !== 'boolean') {
+      return { valid: false, reason: `${field} must be true or false` };
+    }
+    changes[field] = input[field] as boolean;
+  }
+
+  const merged = { ...current, ...changes };
+  if (merged.autoRejectThreshold >= merged.autoApproveThreshold) {
+    return { valid: false, reason: 'autoRejectThreshold must be below autoApproveThreshold' };
+  }
+  if (merged.maxSinglePayment > merged.maxDailySpending) {
+    return { valid: false, reason: 'maxSinglePayment cannot exceed maxDailySpending' };
+  }
+
+  return { valid: true, changes };
+}
+
+/**
+ * Check that a policy and AI config change agree on shared limits
+ * A shared limit is copied to both sides, so giving it two different
+ * values would silently drop one of them.
+ */
+export function validateSettingsUpdate(update: SettingsUpdate): UpdateValidation<SettingsUpdate> {
+  const conflicts = SHARED_LIMITS.filter(field =>
+    update.policy?.[field] !== undefined &&
+    update.aiConfig?.[field] !== undefined &&
+    update.policy[field] !== update.aiConfig[field]
+  );
+  if (conflicts.length > 0) {
+    return { valid: false, reason: `Conflicting policy and AI config value(s) for: ${conflicts.join(', ')}` };
+  }
+  return { valid: true, changes: update };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isSpendingLimit(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  return Object.entries(value).every(([key, limit]) =>
+    (key === 'maxSinglePayment' || key === 'maxDailySpending') && isPositiveNumber(limit)
+  );
+}
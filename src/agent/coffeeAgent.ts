@@ -2,6 +2,10 @@ import { AgentInstance, createAgent, displayAgentInfo } from './createAgent';
 import { validatePayment, recordPayment, displayPolicy, PaymentPolicy, defaultPolicy } from './policy';
 import { payWithAgent, PaymentResult } from '../payment/payWithAgent';
 import { config } from '../config';
+import { SpendingLedger, createSpendingLedger } from '../store';
+import { RulesEngine } from '../rules';
+import { BusinessSchedule, createBusinessSchedule } from '../schedule';
+import { MenuCatalog, createMenuCatalog } from '../menu';
 
 /**
  * Coffee order structure
@@ -23,6 +27,15 @@ export interface OrderResult {
   error?: string;
 }
 
+/**
+ * Shop policy the agent applies on top of its spending limits
+ */
+export interface CoffeeAgentRules {
+  rules: RulesEngine;
+  schedule: BusinessSchedule;
+  menu: MenuCatalog;
+}
+
 /**
  * Coffee Shop AI Agent
  * Handles order processing and payment execution
@@ -30,10 +43,18 @@ export interface OrderResult {
 export class CoffeeAgent {
   private agent: AgentInstance | null = null;
   private policy: PaymentPolicy;
+  private ledger: SpendingLedger;
+  private shopRules?: CoffeeAgentRules;
   private isInitialized: boolean = false;
 
-  constructor(policy: PaymentPolicy = defaultPolicy) {
+  constructor(
+    policy: PaymentPolicy = defaultPolicy,
+    ledger: SpendingLedger = new SpendingLedger(),
+    shopRules?: CoffeeAgentRules
+  ) {
     this.policy = policy;
+    this.ledger = ledger;
+    this.shopRules = shopRules;
   }
 
   /**
@@ -96,7 +117,19 @@ export class CoffeeAgent {
     }
 
     // Validate payment against policy
-    const validation = validatePayment(order.price, order.currency, this.policy);
+    const validation = await validatePayment(
+      order.price,
+      order.currency,
+      this.ledger,
+      this.policy,
+      this.shopRules && {
+        rules: this.shopRules.rules,
+        schedule: this.shopRules.schedule,
+        item: order.item,
+        category: this.shopRules.menu.getCategory(order.item),
+        userAddress: this.agent.aaWalletAddress,
+      }
+    );
     
     if (!validation.isValid) {
       console.log('\n❌ Order rejected by policy');
@@ -118,8 +151,14 @@ export class CoffeeAgent {
     });
 
     if (paymentResult.success) {
-      // Record the payment in spending tracker
-      recordPayment(order.price);
+      // Record the payment in the spending ledger
+      await recordPayment(this.ledger, {
+        orderId: paymentResult.transactionHash || `payment_${Date.now()}`,
+        amount: order.price,
+        userAddress: this.agent.aaWalletAddress,
+        item: order.item,
+        timestamp: Date.now(),
+      }, this.policy);
       
       console.log('\n🎉 Order processed successfully!');
       console.log(`   ${order.item} - PAID`);
@@ -167,9 +206,21 @@ export class CoffeeAgent {
 
 /**
  * Create a pre-configured Coffee Agent
+ * The policy rules file is read once; this agent runs a single batch,
+ * so it is not watched for changes.
  */
-export async function createCoffeeAgent(policy?: PaymentPolicy): Promise<CoffeeAgent> {
-  const agent = new CoffeeAgent(policy);
+export async function createCoffeeAgent(
+  policy?: PaymentPolicy,
+  ledger?: SpendingLedger
+): Promise<CoffeeAgent> {
+  const schedule = createBusinessSchedule();
+  const rules = new RulesEngine(config.rules.filePath);
+  rules.load();
+  const agent = new CoffeeAgent(policy, ledger || createSpendingLedger(schedule), {
+    rules,
+    schedule,
+    menu: createMenuCatalog(),
+  });
   await agent.initialize();
   return agent;
 }
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validatePayment, defaultPolicy, PaymentRuleCheck } from './policy';
+import { SpendingLedger } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+
+function ruleCheck(changes: Partial<PaymentRuleCheck> = {}): PaymentRuleCheck {
+  return {
+    rules: new RulesEngine(null, {
+      version: 1,
+      rules: [
+        {
+          id: 'no-premium',
+          name: 'No premium',
+          appliesTo: ['approval'],
+          when: { category: { eq: 'premium' } },
+          outcome: { result: 'fail', weight: 1, message: '{item} needs a person to approve' },
+        },
+        {
+          id: 'big-spender',
+          when: { dailySpending: { gte: 0.5 } },
+          outcome: { result: 'warn', weight: 0.5, message: 'Busy day' },
+        },
+        {
+          id: 'ai-only',
+          appliesTo: ['ai'],
+          when: { amount: { gt: 0 } },
+          outcome: { result: 'fail', weight: 1, message: 'AI preview only' },
+        },
+      ],
+    }),
+    schedule: new BusinessSchedule({ timezone: 'UTC', weekly: {} }),
+    item: 'Latte',
+    category: 'coffee',
+    userAddress: '0xUserA',
+    ...changes,
+  };
+}
+
+describe('validatePayment', () => {
+  it('passes a payment within the limits', async () => {
+    assert.deepEqual(await validatePayment(0.03, 'USDT', new SpendingLedger()), { isValid: true });
+  });
+
+  it('enforces currency, single payment and daily limits', async () => {
+    assert.equal((await validatePayment(0.03, 'ETH', new SpendingLedger())).isValid, false);
+    assert.match((await validatePayment(2, 'USDT', new SpendingLedger())).reason!, /maximum single payment limit of 1 USDT/);
+
+    const ledger = new SpendingLedger();
+    await ledger.record({ orderId: 'order_1', amount: 9.99, userAddress: '0xUserA', timestamp: Date.now() - 1000 });
+    assert.match((await validatePayment(0.03, 'USDT', ledger, defaultPolicy)).reason!, /exceed daily spending limit/);
+  });
+
+  it('fails on an approval rule, as the approval agent does', async () => {
+    const result = await validatePayment(0.6, 'USDT', new SpendingLedger(), defaultPolicy,
+      ruleCheck({ item: 'Premium Gold Coffee', category: 'premium' }));
+    assert.deepEqual(result, {
+      isValid: false,
+      reason: 'Policy rule "No premium" failed: Premium Gold Coffee needs a person to approve',
+    });
+  });
+
+  it('lets warnings and AI-only rules through', async () => {
+    const ledger = new SpendingLedger();
+    await ledger.record({ orderId: 'order_1', amount: 0.5, userAddress: '0xUserB', timestamp: Date.now() - 1000 });
+    assert.deepEqual(await validatePayment(0.03, 'USDT', ledger, defaultPolicy, ruleCheck()), { isValid: true });
+  });
+});
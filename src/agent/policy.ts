@@ -1,8 +1,13 @@
 import { ethers } from 'ethers';
+import { SpendingLedger, SpendingEntry, SpendingWindow } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { buildRuleFacts } from '../rules/facts';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
 
 /**
  * Payment policy configuration for the Coffee Agent
- * Defines spending limits and rules
+ * Defines spending limits; shop rules live in the policy rules file
+ * (see PaymentRuleCheck).
  */
 export interface PaymentPolicy {
   // Maximum amount per single transaction (in token units, e.g., USDT)
@@ -34,61 +39,32 @@ export interface PolicyValidationResult {
 }
 
 /**
- * Spending tracker to monitor daily spending
+ * The policy rules a payment is checked against, and what is known about it
  */
-class SpendingTracker {
-  private dailySpending: number = 0;
-  private lastResetTime: number = Date.now();
-  private timeWindowMs: number;
-
-  constructor(timeWindowSeconds: number) {
-    this.timeWindowMs = timeWindowSeconds * 1000;
-  }
-
-  /**
-   * Reset spending if time window has passed
-   */
-  private checkAndReset(): void {
-    const now = Date.now();
-    if (now - this.lastResetTime >= this.timeWindowMs) {
-      this.dailySpending = 0;
-      this.lastResetTime = now;
-      console.log('📊 Spending tracker reset for new time window');
-    }
-  }
-
-  /**
-   * Get current daily spending
-   */
-  getCurrentSpending(): number {
-    this.checkAndReset();
-    return this.dailySpending;
-  }
-
-  /**
-   * Add to daily spending
-   */
-  addSpending(amount: number): void {
-    this.checkAndReset();
-    this.dailySpending += amount;
-  }
+export interface PaymentRuleCheck {
+  rules: RulesEngine;
+  schedule: BusinessSchedule;
+  item: string;
+  category: string;
+  userAddress: string;
 }
 
-// Global spending tracker instance
-const spendingTracker = new SpendingTracker(defaultPolicy.timeWindowSeconds);
-
 /**
  * Validate a payment against the policy
  * @param amount - The payment amount
  * @param currency - The payment currency
+ * @param ledger - The spending ledger holding completed payments
  * @param policy - The payment policy to validate against
+ * @param ruleCheck - Policy rules to apply after the limits, as the approval agent does
  * @returns Validation result with reason if invalid
  */
-export function validatePayment(
+export async function validatePayment(
   amount: number,
   currency: string,
-  policy: PaymentPolicy = defaultPolicy
-): PolicyValidationResult {
+  ledger: SpendingLedger,
+  policy: PaymentPolicy = defaultPolicy,
+  ruleCheck?: PaymentRuleCheck
+): Promise<PolicyValidationResult> {
   console.log('\n🔍 Validating payment against policy...');
   console.log(`   Amount: ${amount} ${currency}`);
   console.log(`   Max single payment: ${policy.maxSinglePayment} ${currency}`);
@@ -118,7 +94,7 @@ export function validatePayment(
   }
 
   // Check daily spending limit
-  const currentSpending = spendingTracker.getCurrentSpending();
+  const currentSpending = await ledger.getTotal({ window: getPolicyWindow(policy) });
   const projectedSpending = currentSpending + amount;
   
   console.log(`   Current daily spending: ${currentSpending} ${currency}`);
@@ -132,17 +108,51 @@ export function validatePayment(
     };
   }
 
+  if (ruleCheck) {
+    const facts = buildRuleFacts({
+      amount,
+      item: ruleCheck.item,
+      category: ruleCheck.category,
+      userAddress: ruleCheck.userAddress,
+      dailySpending: currentSpending,
+    }, Date.now(), ruleCheck.schedule);
+
+    for (const match of ruleCheck.rules.evaluate(facts, 'approval')) {
+      const name = match.rule.name || match.rule.id;
+      if (match.result === 'fail') {
+        return { isValid: false, reason: `Policy rule "${name}" failed: ${match.message}` };
+      }
+      if (match.result === 'warn') {
+        console.log(`⚠️  Policy rule "${name}": ${match.message}`);
+      }
+    }
+  }
+
   console.log('✅ Payment validation passed');
   return { isValid: true };
 }
 
 /**
- * Record a successful payment in the spending tracker
- * @param amount - The payment amount to record
+ * Record a successful payment in the spending ledger
+ * @param ledger - The spending ledger to record into
+ * @param payment - The completed payment
+ * @param policy - The payment policy whose window the total is reported for
+ */
+export async function recordPayment(
+  ledger: SpendingLedger,
+  payment: SpendingEntry,
+  policy: PaymentPolicy = defaultPolicy
+): Promise<void> {
+  await ledger.record(payment);
+  const total = await ledger.getTotal({ window: getPolicyWindow(policy) });
+  console.log(`📝 Recorded payment of ${payment.amount}. Total daily spending: ${total}`);
+}
+
+/**
+ * Rolling window matching the policy's time window
  */
-export function recordPayment(amount: number): void {
-  spendingTracker.addSpending(amount);
-  console.log(`📝 Recorded payment of ${amount}. Total daily spending: ${spendingTracker.getCurrentSpending()}`);
+function getPolicyWindow(policy: PaymentPolicy): SpendingWindow {
+  return { type: 'rolling', durationMs: policy.timeWindowSeconds * 1000 };
 }
 
 /**
@@ -1,6 +1,17 @@
 import { ReceptionAgent } from './ReceptionAgent';
-import { ApprovalAgent, ApprovalPolicy } from './ApprovalAgent';
+import { ApprovalAgent, ApprovalPolicy, UserSpendingUsage } from './ApprovalAgent';
 import { PaymentAgent } from './PaymentAgent';
+import { StatusListener } from './BaseAgent';
+import { OrderEventBus } from './OrderEventBus';
+import { OrderScheduler } from './OrderScheduler';
+import {
+  createConfirmationToken,
+  verifyConfirmationToken,
+  getConfirmationWarnings,
+  createEventsKey,
+  verifyEventsKey,
+} from './confirmationToken';
+import { DecisionReceipt } from './decisionReceipt';
 import {
   AgentRole,
   AgentMessage,
@@ -9,18 +20,42 @@ import {
   MultiAgentOrderResponse,
   MultiAgentConfig,
   ProcessingPipeline,
+  OrderEvent,
+  ConfirmOrderResult,
+  DecisionVerificationResult,
   generateOrderId,
   formatAgentStep,
 } from './types';
 import {
   AIDecisionEngine,
+  AIEngineConfig,
+  createDefaultCheckRegistry,
   AIContext,
   AIDecision,
   AIDecisionResult,
+  RiskLevel,
   UserIntent,
   IntentOrderRequest,
   AIEnhancedOrderResponse,
+  canonicalJson,
 } from '../ai';
+import {
+  OrderRecord,
+  OrderRepository,
+  InMemoryOrderRepository,
+  SpendingLedger,
+  AuditChange,
+} from '../store';
+import { RulesEngine } from '../rules';
+import { BusinessSchedule } from '../schedule';
+import { MenuCatalog } from '../menu';
+import { Inventory, StockShortage, getStockRequests } from '../inventory';
+import { roundAmount } from '../cart';
+import { verifyRepeat } from '../repeat';
+import { SHARED_LIMITS, SettingsUpdate, validateSettingsUpdate } from '../admin/validation';
+
+// How many times an order may be deferred before it is rejected
+const MAX_SCHEDULE_ATTEMPTS = 3;
 
 /**
  * Agent Orchestrator - Coordinates the multi-agent pipeline
@@ -39,29 +74,77 @@ export class AgentOrchestrator {
   private approvalAgent: ApprovalAgent;
   private paymentAgent: PaymentAgent;
   private aiEngine: AIDecisionEngine;
+  private orderRepository: OrderRepository;
+  private ledger: SpendingLedger;
+  private rules: RulesEngine;
+  private schedule: BusinessSchedule;
+  private menu: MenuCatalog;
+  private inventory: Inventory;
+  private events: OrderEventBus = new OrderEventBus();
+  private activeOrders: Map<string, OrderRecord> = new Map();
+  private scheduler: OrderScheduler;
+  private confirmationSecret: string;
+  private confirmationTtlMs: number;
   private isInitialized: boolean = false;
   private config: MultiAgentConfig;
 
-  constructor(config: MultiAgentConfig) {
+  constructor(
+    config: MultiAgentConfig,
+    orderRepository: OrderRepository = new InMemoryOrderRepository(),
+    ledger: SpendingLedger = new SpendingLedger(),
+    rules: RulesEngine = new RulesEngine(),
+    schedule: BusinessSchedule = new BusinessSchedule(),
+    menu: MenuCatalog = new MenuCatalog(),
+    inventory: Inventory = new Inventory()
+  ) {
     this.config = config;
+    this.orderRepository = orderRepository;
+    this.ledger = ledger;
+    this.rules = rules;
+    this.schedule = schedule;
+    this.menu = menu;
+    this.inventory = inventory;
+    this.confirmationSecret = config.confirmationSecret || config.approval.privateKey;
+    this.confirmationTtlMs = config.confirmationTtlSeconds * 1000;
+    this.scheduler = new OrderScheduler(orderId => this.replayScheduledOrder(orderId));
 
     // Create agent instances
-    this.receptionAgent = new ReceptionAgent(config.reception.privateKey);
+    this.receptionAgent = new ReceptionAgent(config.reception.privateKey, menu);
     
     const approvalPolicy: ApprovalPolicy = {
       approvalThreshold: config.approvalThreshold,
       maxSinglePayment: config.maxSinglePayment,
       maxDailySpending: config.maxDailySpending,
+      maxTipAmount: config.maxTipAmount,
+      maxTipPercent: config.maxTipPercent,
+      userLimit: config.userLimit,
+      userLimitOverrides: config.userLimitOverrides,
+      merchantLimits: config.merchantLimits,
+      categoryLimits: config.categoryLimits,
     };
-    this.approvalAgent = new ApprovalAgent(config.approval.privateKey, approvalPolicy);
+    this.approvalAgent = new ApprovalAgent(config.approval.privateKey, approvalPolicy, ledger, rules, schedule, menu);
     
     this.paymentAgent = new PaymentAgent(config.payment.privateKey);
 
-    // Initialize AI Decision Engine with matching config
+    // Initialize AI Decision Engine with matching config, the same ledger, rules, schedule, menu and inventory
     this.aiEngine = new AIDecisionEngine({
       maxSinglePayment: config.maxSinglePayment,
       maxDailySpending: config.maxDailySpending,
-    });
+      maxTipAmount: config.maxTipAmount,
+      maxTipPercent: config.maxTipPercent,
+      ...(config.reasoningTimeoutMs !== undefined && { reasoningTimeoutMs: config.reasoningTimeoutMs }),
+    }, ledger, rules, createDefaultCheckRegistry(config.aiChecks), schedule, menu, inventory);
+
+    // Persist and publish status changes agents make mid-step
+    const statusListener: StatusListener = async (message) => {
+      const record = this.activeOrders.get(message.orderId);
+      if (record) {
+        await this.persist(record, message);
+      }
+    };
+    this.receptionAgent.setStatusListener(statusListener);
+    this.approvalAgent.setStatusListener(statusListener);
+    this.paymentAgent.setStatusListener(statusListener);
   }
 
   /**
@@ -82,6 +165,9 @@ export class AgentOrchestrator {
 
     this.isInitialized = true;
 
+    await this.restoreScheduledOrders();
+    this.scheduler.start();
+
     console.log('\n═══════════════════════════════════════════════════════');
     console.log('  ✅ All agents initialized');
     console.log('  🧠 AI Decision Engine: ACTIVE');
@@ -116,20 +202,55 @@ export class AgentOrchestrator {
     console.log(`   Approval threshold: ${policy.approvalThreshold} USDT`);
     console.log(`   Max single payment: ${policy.maxSinglePayment} USDT`);
     console.log(`   Max daily spending: ${policy.maxDailySpending} USDT`);
+    console.log(`   Max tip: ${policy.maxTipAmount} USDT / ${policy.maxTipPercent}%`);
+    if (policy.userLimit?.maxDailySpending !== undefined) {
+      console.log(`   Max daily spending per user: ${policy.userLimit.maxDailySpending} USDT`);
+    }
+    const scopedLimits = Object.keys(policy.userLimitOverrides || {}).length +
+      Object.keys(policy.merchantLimits || {}).length +
+      Object.keys(policy.categoryLimits || {}).length;
+    if (scopedLimits > 0) {
+      console.log(`   Scoped limits: ${scopedLimits} (user overrides, merchants, categories)`);
+    }
     console.log('\n🧠 AI Decision Engine Settings:');
     const aiConfig = this.aiEngine.getConfig();
     console.log(`   Auto-approve confidence: >${(aiConfig.autoApproveThreshold * 100).toFixed(0)}%`);
     console.log(`   Auto-reject confidence: <${(aiConfig.autoRejectThreshold * 100).toFixed(0)}%`);
+    const rulesStatus = this.rules.getStatus();
+    console.log(`   Policy rules: ${rulesStatus.ruleCount} (v${rulesStatus.version})`);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
   }
 
   /**
    * Process an order with AI decision layer
    * This is the NEW main entry point that includes AI reasoning
+   *
+   * Progress is published on the event bus under orderId; callers that
+   * want to subscribe before processing starts can supply the id.
    */
   async processOrderWithAI(
     request: IntentOrderRequest,
-    merchantAddress: string
+    merchantAddress: string,
+    orderId: string = generateOrderId()
+  ): Promise<AIEnhancedOrderResponse> {
+    let response: AIEnhancedOrderResponse;
+    try {
+      response = await this.runOrder(request, merchantAddress, orderId);
+    } finally {
+      this.activeOrders.delete(orderId);
+    }
+
+    this.events.publish({ type: 'complete', orderId, response, timestamp: Date.now() });
+    return response;
+  }
+
+  /**
+   * Run an order through the AI decision layer and agent pipeline
+   */
+  private async runOrder(
+    request: IntentOrderRequest,
+    merchantAddress: string,
+    orderId: string
   ): Promise<AIEnhancedOrderResponse> {
     if (!this.isInitialized) {
       return {
@@ -140,18 +261,56 @@ export class AgentOrchestrator {
       };
     }
 
-    const orderId = generateOrderId();
     console.log('\n═══════════════════════════════════════════════════════');
     console.log(`  📋 New AI-Enhanced Order: ${orderId}`);
     console.log(`  Intent: ${request.intent}`);
     console.log('═══════════════════════════════════════════════════════');
 
-    // Get agent balance for AI context
-    let agentBalance = 0;
-    try {
-      agentBalance = parseFloat(await this.paymentAgent.getUSDTBalance());
-    } catch {
-      console.log('⚠️ Could not fetch agent balance, using 0');
+    const order: CoffeeOrder = {
+      id: orderId,
+      item: request.item,
+      price: request.price,
+      lines: request.cart,
+      pricing: request.pricing,
+      tip: request.tip,
+      currency: 'USDT',
+      merchantAddress,
+      userAddress: request.userAddress,
+      timestamp: Date.now(),
+    };
+
+    let message: AgentMessage = {
+      orderId,
+      order,
+      intent: request.intent,
+      quantity: request.quantity || 1,
+      status: OrderStatus.RECEIVED,
+      pipeline: {},
+    };
+
+    // A replayed scheduled order continues its existing record
+    const existing = await this.orderRepository.findById(orderId);
+    const record: OrderRecord = existing && existing.status === OrderStatus.SCHEDULED
+      ? { ...existing, request }
+      : {
+          orderId,
+          request,
+          order,
+          status: message.status,
+          statusHistory: [],
+          pipeline: {},
+          createdAt: order.timestamp,
+          updatedAt: order.timestamp,
+        };
+    this.activeOrders.set(orderId, record);
+    await this.persist(record, message);
+
+    // Order requested for later - park it without evaluating yet
+    // The placeholder decision is stored so the record reads as settled until it is due
+    if (request.scheduledFor && request.scheduledFor > Date.now()) {
+      const scheduledFor = request.scheduledFor;
+      record.aiDecision = this.createScheduledAIDecision(scheduledFor);
+      return this.deferOrder(record, message, record.aiDecision, scheduledFor, 'Requested by user');
     }
 
     // ═══════════════════════════════════════════════════════
@@ -159,67 +318,337 @@ export class AgentOrchestrator {
     // ═══════════════════════════════════════════════════════
     console.log('\n📍 Step 0/3: AI Decision Layer');
     
-    const aiContext: AIContext = {
-      userAddress: request.userAddress,
-      intent: request.intent,
-      item: request.item,
-      price: request.price,
-      quantity: request.quantity || 1,
-      recentOrderCount: this.aiEngine.getRecentOrderCount(request.userAddress),
-      totalDailySpending: this.approvalAgent.getCurrentDailySpending(),
-      agentBalance,
-      currentTime: Date.now(),
-      metadata: request.metadata,
-    };
-
+    const aiContext = await this.buildAIContext(request);
     const aiDecision = await this.aiEngine.evaluate(aiContext);
+    record.aiContext = aiContext;
+    record.aiDecision = aiDecision;
+    record.decisionReceipt = await this.signDecision(orderId, aiContext, aiDecision);
+    this.events.publish({ type: 'decision', orderId, aiDecision, timestamp: Date.now() });
 
     // If AI rejects, don't proceed to agent pipeline
     if (aiDecision.decision === AIDecision.REJECT) {
+      message.status = OrderStatus.REJECTED;
+      message.error = aiDecision.summary;
+      await this.persist(record, message);
       return {
         success: false,
         orderId,
         aiDecision,
+        pricing: order.pricing,
+        tip: order.tip,
         error: aiDecision.summary,
       };
     }
 
-    // If AI requests confirmation, return for user confirmation
+    // If AI suggests waiting, park the order and replay it when due
+    if (aiDecision.decision === AIDecision.DELAY && aiDecision.scheduledFor) {
+      const attempts = record.schedule?.attempts || 0;
+      if (attempts >= MAX_SCHEDULE_ATTEMPTS) {
+        message.status = OrderStatus.REJECTED;
+        message.error = `Order deferred ${attempts} times without becoming processable: ${aiDecision.summary}`;
+        await this.persist(record, message);
+        return {
+          success: false,
+          orderId,
+          aiDecision,
+          pricing: order.pricing,
+          tip: order.tip,
+          error: message.error,
+        };
+      }
+
+      return this.deferOrder(record, message, aiDecision, aiDecision.scheduledFor, aiDecision.summary);
+    }
+
+    // If AI requests confirmation, hold the order and issue a confirmation token
     if (aiDecision.decision === AIDecision.CONFIRM) {
+      const confirmation = createConfirmationToken(order, this.confirmationSecret, this.confirmationTtlMs);
+      record.confirmation = { ...confirmation };
+      message.status = OrderStatus.AWAITING_CONFIRMATION;
+      message.error = 'Confirmation required';
+      await this.persist(record, message);
       return {
         success: false,
         orderId,
         aiDecision,
+        pricing: order.pricing,
+        tip: order.tip,
+        confirmation: {
+          ...confirmation,
+          warnings: getConfirmationWarnings(aiDecision),
+        },
         error: 'Confirmation required',
       };
     }
 
+    // Anything short of an approval (e.g. a DELAY with no time) must not reach payment
+    if (aiDecision.decision !== AIDecision.APPROVE) {
+      message.status = OrderStatus.REJECTED;
+      message.error = `Order not approved (${aiDecision.decision}): ${aiDecision.summary}`;
+      await this.persist(record, message);
+      return {
+        success: false,
+        orderId,
+        aiDecision,
+        pricing: order.pricing,
+        tip: order.tip,
+        error: message.error,
+      };
+    }
+
     // AI approved - proceed to agent pipeline
-    // ═══════════════════════════════════════════════════════
-    // Continue with existing agent pipeline
-    // ═══════════════════════════════════════════════════════
-    
-    const order: CoffeeOrder = {
-      id: orderId,
+    await this.persist(record, message);
+
+    return this.runAgentPipeline(record, message, aiDecision);
+  }
+
+  /**
+   * Preview the AI decision for an order without placing it (dry run)
+   * Nothing is recorded: no order, no event and no rate-limit usage.
+   */
+  async previewOrder(request: IntentOrderRequest): Promise<AIDecisionResult> {
+    return this.aiEngine.evaluate(await this.buildAIContext(request));
+  }
+
+  /**
+   * Gather the context the AI engine evaluates an order in
+   */
+  private async buildAIContext(request: IntentOrderRequest): Promise<AIContext> {
+    // Get agent balance for AI context
+    let agentBalance = 0;
+    try {
+      agentBalance = parseFloat(await this.paymentAgent.getUSDTBalance());
+    } catch {
+      console.log('⚠️ Could not fetch agent balance, using 0');
+    }
+
+    const profile = await this.aiEngine.getUserProfile(request.userAddress);
+
+    // A repeat is only trusted once matched to the user's own completed order
+    const repeat = request.intent === UserIntent.REPEAT_ORDER && request.repeatOf
+      ? verifyRepeat(await this.orderRepository.findById(request.repeatOf), request, this.menu)
+      : undefined;
+
+    return {
+      userAddress: request.userAddress,
+      intent: request.intent,
       item: request.item,
       price: request.price,
-      currency: 'USDT',
-      merchantAddress,
-      userAddress: request.userAddress,
-      timestamp: Date.now(),
+      quantity: request.quantity || 1,
+      cart: request.cart,
+      pricing: request.pricing,
+      tip: request.tip,
+      repeat,
+      recentOrderCount: this.aiEngine.getRecentOrderCount(request.userAddress),
+      totalDailySpending: await this.aiEngine.getDailySpending(),
+      lastOrderTimestamp: profile.lastOrderAt,
+      agentBalance,
+      currentTime: Date.now(),
+      metadata: request.metadata,
     };
+  }
 
-    let message: AgentMessage = {
+  /**
+   * Park an order in the scheduler until scheduledFor
+   */
+  private async deferOrder(
+    record: OrderRecord,
+    message: AgentMessage,
+    aiDecision: AIDecisionResult,
+    scheduledFor: number,
+    reason: string
+  ): Promise<AIEnhancedOrderResponse> {
+    record.schedule = {
+      scheduledFor,
+      reason,
+      attempts: (record.schedule?.attempts || 0) + 1,
+    };
+    message.status = OrderStatus.SCHEDULED;
+    message.error = undefined;
+    await this.persist(record, message);
+
+    this.scheduler.schedule(record.orderId, scheduledFor);
+
+    return {
+      success: false,
+      orderId: record.orderId,
+      aiDecision,
+      pricing: message.order.pricing,
+      tip: message.order.tip,
+      schedule: { scheduledFor, reason },
+    };
+  }
+
+  /**
+   * Run a scheduled order that has come due
+   */
+  private async replayScheduledOrder(orderId: string): Promise<void> {
+    const record = await this.orderRepository.findById(orderId);
+    if (!record || record.status !== OrderStatus.SCHEDULED) {
+      return;
+    }
+
+    await this.processOrderWithAI(record.request, record.order.merchantAddress, orderId);
+  }
+
+  /**
+   * Re-register scheduled orders from the store (e.g. after a restart)
+   */
+  private async restoreScheduledOrders(): Promise<void> {
+    const records = await this.orderRepository.findAll();
+    for (const record of records) {
+      if (record.status === OrderStatus.SCHEDULED && record.schedule) {
+        this.scheduler.schedule(record.orderId, record.schedule.scheduledFor);
+      }
+    }
+  }
+
+  /**
+   * Resume an order the AI held for confirmation
+   *
+   * The token must match the stored order and must not have expired.
+   * The order continues into the agent pipeline under the same id; the
+   * approval agent still enforces spending limits. On acceptance the
+   * returned completion resolves with the final order response.
+   */
+  async confirmOrder(orderId: string, token: string): Promise<ConfirmOrderResult> {
+    if (!this.isInitialized) {
+      return { accepted: false, code: 'unavailable', reason: 'Orchestrator not initialized' };
+    }
+
+    const record = await this.orderRepository.findById(orderId);
+    if (!record) {
+      return { accepted: false, code: 'not_found', reason: `Order ${orderId} not found` };
+    }
+
+    if (record.status !== OrderStatus.AWAITING_CONFIRMATION || !record.aiDecision || this.activeOrders.has(orderId)) {
+      return {
+        accepted: false,
+        code: 'invalid_state',
+        reason: `Order ${orderId} is not awaiting confirmation (status: ${record.status})`,
+      };
+    }
+
+    const check = verifyConfirmationToken(token, record.order, this.confirmationSecret);
+    if (!check.valid) {
+      return { accepted: false, code: 'invalid_token', reason: check.reason || 'Invalid confirmation token' };
+    }
+
+    // Claim the order so a second confirmation cannot pay twice
+    this.activeOrders.set(orderId, record);
+    record.confirmation = { ...record.confirmation!, confirmedAt: Date.now() };
+
+    console.log(`\n✅ Order ${orderId} confirmed by user - resuming pipeline`);
+
+    const completion = (async () => {
+      let response: AIEnhancedOrderResponse;
+      try {
+        const message: AgentMessage = {
+          orderId,
+          order: record.order,
+          intent: record.request.intent,
+          quantity: record.request.quantity || 1,
+          status: OrderStatus.RECEIVED,
+          pipeline: {},
+        };
+        await this.persist(record, message);
+        response = await this.runAgentPipeline(record, message, record.aiDecision!);
+      } finally {
+        this.activeOrders.delete(orderId);
+      }
+
+      this.events.publish({ type: 'complete', orderId, response, timestamp: Date.now() });
+      return response;
+    })();
+
+    return { accepted: true, completion };
+  }
+
+  /**
+   * Export the decision and have the approval agent sign it
+   * A signing failure is logged; the order goes on without a receipt.
+   */
+  private async signDecision(
+    orderId: string,
+    context: AIContext,
+    aiDecision: AIDecisionResult
+  ): Promise<DecisionReceipt | undefined> {
+    try {
+      return await this.approvalAgent.signDecision(this.aiEngine.exportDecision(orderId, context, aiDecision));
+    } catch (error) {
+      console.log(`⚠️  Could not sign decision for ${orderId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Verify an order's signed AI decision
+   * Checks the receipt's digest and signature, that it was signed by the
+   * approval agent's key, and that it is for the decision stored on the order.
+   */
+  async verifyDecision(orderId: string): Promise<DecisionVerificationResult> {
+    if (!this.isInitialized) {
+      return { found: false, code: 'unavailable', reason: 'Orchestrator not initialized' };
+    }
+
+    const record = await this.orderRepository.findById(orderId);
+    if (!record) {
+      return { found: false, code: 'not_found', reason: `Order ${orderId} not found` };
+    }
+    const receipt = record.decisionReceipt;
+    if (!receipt) {
+      return { found: false, code: 'no_receipt', reason: `Order ${orderId} has no signed AI decision` };
+    }
+
+    const check = this.approvalAgent.verifyDecision(receipt);
+    const matchesOrder = receipt.record.orderId === orderId &&
+      canonicalJson(receipt.record.context) === canonicalJson(record.aiContext) &&
+      receipt.record.outcome.decision === record.aiDecision?.decision &&
+      receipt.record.decidedAt === record.aiDecision?.timestamp;
+
+    return {
+      ...check,
+      valid: check.valid && matchesOrder,
+      reason: check.reason || (matchesOrder ? undefined : 'Receipt does not match the decision stored on the order'),
+      found: true,
       orderId,
-      order,
-      status: OrderStatus.RECEIVED,
-      pipeline: {},
+      matchesOrder,
+      receipt,
     };
+  }
 
+  /**
+   * Run an AI-cleared order through Reception → Approval → Payment
+   */
+  private async runAgentPipeline(
+    record: OrderRecord,
+    message: AgentMessage,
+    aiDecision: AIDecisionResult
+  ): Promise<AIEnhancedOrderResponse> {
     try {
+      // Hold the order's stock until it completes or drops out
+      const shortages = await this.inventory.reserve(message.orderId, getStockRequests(this.menu, {
+        item: message.order.item,
+        quantity: message.quantity || 1,
+        lines: message.order.lines,
+      }));
+      if (shortages.length > 0) {
+        console.log(`❌ Order ${message.orderId} is out of stock`);
+        message.status = OrderStatus.REJECTED;
+        message.error = await this.describeShortages(shortages);
+        await this.persist(record, message);
+        return this.createEnhancedResponse(message, aiDecision);
+      }
+
+      // The order is accepted and stocked - only now does it count toward the rate limit
+      if (record.aiContext) {
+        this.aiEngine.commit(record.aiContext);
+      }
+
       // Step 1: Reception Agent
       console.log('\n📍 Step 1/3: Reception');
       message = await this.receptionAgent.process(message);
+      await this.persist(record, message);
       
       if (message.status === OrderStatus.REJECTED) {
         return this.createEnhancedResponse(message, aiDecision);
@@ -228,6 +657,7 @@ export class AgentOrchestrator {
       // Step 2: Approval Agent
       console.log('\n📍 Step 2/3: Approval');
       message = await this.approvalAgent.process(message);
+      await this.persist(record, message);
       
       if (message.status === OrderStatus.REJECTED) {
         return this.createEnhancedResponse(message, aiDecision);
@@ -236,10 +666,12 @@ export class AgentOrchestrator {
       // Step 3: Payment Agent
       console.log('\n📍 Step 3/3: Payment');
       message = await this.paymentAgent.process(message);
+      await this.persist(record, message);
 
       // Record spending if successful
       if (message.status === OrderStatus.COMPLETED) {
-        this.approvalAgent.recordSpending(order.price);
+        await this.recordSpending(record, message);
+        await this.commitStock(message.orderId);
       }
 
       return this.createEnhancedResponse(message, aiDecision);
@@ -248,8 +680,114 @@ export class AgentOrchestrator {
       console.error('❌ Pipeline error:', error);
       message.status = OrderStatus.FAILED;
       message.error = error instanceof Error ? error.message : 'Unknown error';
+      await this.persist(record, message);
       return this.createEnhancedResponse(message, aiDecision);
+    } finally {
+      // Rejected and failed orders give their stock back
+      this.inventory.release(message.orderId);
+    }
+  }
+
+  /**
+   * Take a completed order's reserved stock
+   * Like spending, the payment has already gone through, so an error
+   * is logged rather than failing the order.
+   */
+  private async commitStock(orderId: string): Promise<void> {
+    try {
+      await this.inventory.commit(orderId);
+    } catch (error) {
+      console.error(`⚠️  Failed to record stock sale for ${orderId}:`, error);
+    }
+  }
+
+  /**
+   * Rejection message for an order the shop can't fill
+   * e.g. "Special Blend is sold out - try Latte, Cappuccino instead"
+   */
+  private async describeShortages(shortages: StockShortage[]): Promise<string> {
+    const reasons = shortages.map(({ item, quantity, available }) => available === 0
+      ? `${item} is sold out`
+      : `Only ${available} ${item} left, ${quantity} requested`);
+    const alternatives = await this.inventory.findAlternatives(shortages[0].itemId, this.menu);
+    return alternatives.length > 0
+      ? `${reasons.join('; ')} - try ${alternatives.map(entry => entry.item).join(', ')} instead`
+      : reasons.join('; ');
+  }
+
+  /**
+   * Add a completed payment to the spending ledger
+   * The payment has already gone through, so a ledger error is logged
+   * rather than failing the order.
+   */
+  private async recordSpending(record: OrderRecord, message: AgentMessage): Promise<void> {
+    // A tip whose own transfer failed was never paid
+    const { tip } = message.order;
+    const paidTip = tip && !message.pipeline.payment?.tipError ? tip.amount : undefined;
+    try {
+      await this.ledger.record({
+        orderId: message.orderId,
+        amount: paidTip ? roundAmount(message.order.price + paidTip) : message.order.price,
+        tip: paidTip,
+        userAddress: record.request.userAddress,
+        merchantAddress: message.order.merchantAddress,
+        item: message.order.item,
+        category: message.order.lines ? undefined : this.menu.getCategory(message.order.item),
+        lines: message.order.lines?.map(line => ({
+          item: line.item,
+          category: line.category,
+          quantity: line.quantity,
+          amount: line.lineTotal,
+        })),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.error(`⚠️  Failed to record spending for ${message.orderId}:`, error);
+    }
+  }
+
+  /**
+   * Write the current state of an order to the repository
+   * Appends a status transition whenever the status has changed and
+   * publishes the transition and any new agent step records.
+   * Storage errors are logged but never abort the pipeline.
+   */
+  private async persist(record: OrderRecord, message: AgentMessage): Promise<void> {
+    const now = Date.now();
+    const pendingEvents: OrderEvent[] = [];
+
+    for (const role of [AgentRole.RECEPTION, AgentRole.APPROVAL, AgentRole.PAYMENT]) {
+      const step = message.pipeline[role];
+      if (step && step !== record.pipeline[role]) {
+        pendingEvents.push({ type: 'step', orderId: record.orderId, role, step, timestamp: now });
+      }
     }
+
+    const lastTransition = record.statusHistory[record.statusHistory.length - 1];
+    if (!lastTransition || lastTransition.status !== message.status) {
+      record.statusHistory.push({ status: message.status, timestamp: now });
+      pendingEvents.push({
+        type: 'status',
+        orderId: record.orderId,
+        status: message.status,
+        error: message.error,
+        timestamp: now,
+      });
+    }
+
+    record.status = message.status;
+    record.order = message.order;
+    record.pipeline = { ...message.pipeline };
+    record.error = message.error;
+    record.updatedAt = now;
+
+    try {
+      await this.orderRepository.save(record);
+    } catch (error) {
+      console.log(`⚠️  Could not persist order ${record.orderId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    pendingEvents.forEach(event => this.events.publish(event));
   }
 
   /**
@@ -307,6 +845,8 @@ export class AgentOrchestrator {
       success: message.status === OrderStatus.COMPLETED,
       orderId: message.orderId,
       aiDecision,
+      pricing: message.order.pricing,
+      tip: message.order.tip,
       pipeline: {
         reception: message.pipeline.reception,
         approval: message.pipeline.approval,
@@ -350,6 +890,28 @@ export class AgentOrchestrator {
     };
   }
 
+  /**
+   * Create the AI decision for an order the user asked to run later
+   */
+  private createScheduledAIDecision(scheduledFor: number): AIDecisionResult {
+    const when = new Date(scheduledFor).toISOString();
+    return {
+      decision: AIDecision.DELAY,
+      confidence: 1,
+      riskLevel: RiskLevel.LOW,
+      reasoning: [{
+        check: 'Schedule Check',
+        result: 'pass',
+        detail: `Order requested for ${when}; it will be evaluated then`,
+        weight: 1,
+      }],
+      summary: `⏳ Order scheduled for ${when}`,
+      scheduledFor,
+      processingTime: 0,
+      timestamp: Date.now(),
+    };
+  }
+
   /**
    * Log enhanced summary with AI decision
    */
@@ -409,7 +971,6 @@ export class AgentOrchestrator {
       autoApproveThreshold: number;
       autoRejectThreshold: number;
     };
-    dailySpending: number;
   } {
     const aiConfig = this.aiEngine.getConfig();
     return {
@@ -433,10 +994,59 @@ export class AgentOrchestrator {
         autoApproveThreshold: aiConfig.autoApproveThreshold,
         autoRejectThreshold: aiConfig.autoRejectThreshold,
       },
-      dailySpending: this.approvalAgent.getCurrentDailySpending(),
     };
   }
 
+  /**
+   * Get spending within the daily window, as the limit checks see it
+   */
+  async getDailySpending(): Promise<number> {
+    return this.ledger.getTotal();
+  }
+
+  /**
+   * Get a user's spending against their per-user limit
+   */
+  async getUserSpending(userAddress: string): Promise<UserSpendingUsage> {
+    return this.approvalAgent.getUserUsage(userAddress);
+  }
+
+  /**
+   * Change the approval policy and AI engine config together
+   * Shared limits (max single payment, max daily spending) are copied
+   * to both sides, and both are swapped in one step, so the AI preview
+   * and the approval agent never disagree. Returns what changed.
+   * Throws if the two sides give a shared limit different values.
+   */
+  updateSettings(changes: SettingsUpdate): Record<string, AuditChange> {
+    const validation = validateSettingsUpdate(changes);
+    if (!validation.valid) {
+      throw new Error(validation.reason);
+    }
+
+    const currentPolicy = this.approvalAgent.getPolicy();
+    const currentAIConfig = this.aiEngine.getConfig();
+    const nextPolicy: ApprovalPolicy = { ...currentPolicy, ...changes.policy };
+    const nextAIConfig: AIEngineConfig = { ...currentAIConfig, ...changes.aiConfig };
+
+    for (const field of SHARED_LIMITS) {
+      const value = changes.policy?.[field] ?? changes.aiConfig?.[field];
+      if (value !== undefined) {
+        nextPolicy[field] = value;
+        nextAIConfig[field] = value;
+      }
+    }
+
+    const diff = {
+      ...diffSettings('policy', currentPolicy, nextPolicy),
+      ...diffSettings('aiConfig', currentAIConfig, nextAIConfig),
+    };
+
+    this.approvalAgent.setPolicy(nextPolicy);
+    this.aiEngine.updateConfig(nextAIConfig);
+    return diff;
+  }
+
   /**
    * Get the payment agent's USDT balance
    */
@@ -450,13 +1060,104 @@ export class AgentOrchestrator {
   getAIEngine(): AIDecisionEngine {
     return this.aiEngine;
   }
+
+  /**
+   * Get the order event bus for progress subscriptions
+   */
+  getEventBus(): OrderEventBus {
+    return this.events;
+  }
+
+  /**
+   * Progress stream key for the submitter of an order
+   */
+  getEventsKey(orderId: string): string {
+    return createEventsKey(orderId, this.confirmationSecret);
+  }
+
+  /**
+   * Whether a progress stream key was issued for this order
+   */
+  isEventsKey(orderId: string, key: string): boolean {
+    return verifyEventsKey(key, orderId, this.confirmationSecret);
+  }
+
+  /**
+   * Get the order repository instance
+   */
+  getOrderRepository(): OrderRepository {
+    return this.orderRepository;
+  }
+
+  /**
+   * Get the spending ledger instance
+   */
+  getSpendingLedger(): SpendingLedger {
+    return this.ledger;
+  }
+
+  /**
+   * Get the policy rules engine instance
+   */
+  getRulesEngine(): RulesEngine {
+    return this.rules;
+  }
+
+  /**
+   * Get the shop's business schedule
+   */
+  getSchedule(): BusinessSchedule {
+    return this.schedule;
+  }
+
+  /**
+   * Get the menu catalog
+   */
+  getMenu(): MenuCatalog {
+    return this.menu;
+  }
+
+  /**
+   * Get the shared inventory
+   */
+  getInventory(): Inventory {
+    return this.inventory;
+  }
+}
+
+/**
+ * Changed fields between two settings objects, keyed "prefix.field"
+ */
+function diffSettings(
+  prefix: string,
+  before: object,
+  after: object
+): Record<string, AuditChange> {
+  const beforeValues = before as Record<string, unknown>;
+  const afterValues = after as Record<string, unknown>;
+  const diff: Record<string, AuditChange> = {};
+  const keys = new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]);
+  for (const key of keys) {
+    if (JSON.stringify(beforeValues[key]) !== JSON.stringify(afterValues[key])) {
+      diff[`${prefix}.${key}`] = { from: beforeValues[key] ?? null, to: afterValues[key] ?? null };
+    }
+  }
+  return diff;
 }
 
 /**
  * Create and initialize an orchestrator with the given config
  */
-export async function createOrchestrator(config: MultiAgentConfig): Promise<AgentOrchestrator> {
-  const orchestrator = new AgentOrchestrator(config);
+export async function createOrchestrator(
+  config: MultiAgentConfig,
+  orderRepository?: OrderRepository,
+  ledger?: SpendingLedger,
+  rules?: RulesEngine,
+  schedule?: BusinessSchedule,
+  menu?: MenuCatalog,
+  inventory?: Inventory
+): Promise<AgentOrchestrator> {
+  const orchestrator = new AgentOrchestrator(config, orderRepository, ledger, rules, schedule, menu, inventory);
   await orchestrator.initialize();
   return orchestrator;
 }
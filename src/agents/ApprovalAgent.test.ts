@@ -0,0 +1,169 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApprovalAgent, ApprovalPolicy } from './ApprovalAgent';
+import { AgentMessage, AgentRole, CoffeeOrder, OrderStatus } from './types';
+import { SpendingLedger } from '../store/SpendingLedger';
+import { CartLine } from '../cart/types';
+
+// Signs approvals only - never used on chain
+const TEST_KEY = '0x' + '11'.repeat(32);
+
+const basePolicy: ApprovalPolicy = {
+  approvalThreshold: 0.5,
+  maxSinglePayment: 1.0,
+  maxDailySpending: 10.0,
+  maxTipAmount: 0.1,
+  maxTipPercent: 30,
+};
+
+async function createAgent(policy: Partial<ApprovalPolicy>, ledger: SpendingLedger = new SpendingLedger()) {
+  const agent = new ApprovalAgent(TEST_KEY, { ...basePolicy, ...policy }, ledger);
+  await agent.initialize();
+  return agent;
+}
+
+function orderMessage(changes: Partial<CoffeeOrder> = {}): AgentMessage {
+  const order: CoffeeOrder = {
+    id: 'order_new',
+    item: 'Latte',
+    price: 0.03,
+    currency: 'USDT',
+    merchantAddress: '0xMerchantA',
+    userAddress: '0xUserA',
+    timestamp: Date.now(),
+    ...changes,
+  };
+  return {
+    orderId: order.id,
+    order,
+    status: OrderStatus.RECEIVED,
+    pipeline: {},
+    previousAgent: AgentRole.RECEPTION,
+  };
+}
+
+function cartLine(item: string, category: string, lineTotal: number): CartLine {
+  return { itemId: item.toLowerCase(), item, category, quantity: 1, basePrice: lineTotal, unitPrice: lineTotal, lineTotal };
+}
+
+async function recordPaid(ledger: SpendingLedger, orderId: string, amount: number, changes: { userAddress?: string; merchantAddress?: string; category?: string } = {}) {
+  await ledger.record({
+    orderId,
+    amount,
+    userAddress: changes.userAddress || '0xUserA',
+    merchantAddress: changes.merchantAddress || '0xMerchantA',
+    category: changes.category || 'coffee',
+    timestamp: Date.now() - 1000,
+  });
+}
+
+describe('ApprovalAgent scoped limits', () => {
+  it('approves an order within every limit', async () => {
+    const agent = await createAgent({ userLimit: { maxDailySpending: 1 } });
+    const result = await agent.process(orderMessage());
+    assert.equal(result.status, OrderStatus.APPROVED);
+  });
+
+  it('rejects a user over their own daily limit without affecting other users', async () => {
+    const ledger = new SpendingLedger();
+    await recordPaid(ledger, 'order_1', 0.2);
+    const agent = await createAgent({ userLimit: { maxDailySpending: 0.21 } }, ledger);
+
+    const heavyUser = await agent.process(orderMessage());
+    assert.equal(heavyUser.status, OrderStatus.REJECTED);
+    assert.match(heavyUser.error!, /per-user \(0xUserA\) daily spending limit/);
+
+    const otherUser = await agent.process(orderMessage({ userAddress: '0xUserB' }));
+    assert.equal(otherUser.status, OrderStatus.APPROVED);
+  });
+
+  it('enforces a per-user single payment limit', async () => {
+    const agent = await createAgent({ userLimit: { maxSinglePayment: 0.02 } });
+    const result = await agent.process(orderMessage());
+    assert.equal(result.status, OrderStatus.REJECTED);
+    assert.match(result.error!, /per-user \(0xUserA\) single payment limit of 0.02 USDT/);
+  });
+
+  it('lets a user override replace the default, matching the address in any case', async () => {
+    const ledger = new SpendingLedger();
+    await recordPaid(ledger, 'order_1', 0.2);
+    const agent = await createAgent({
+      userLimit: { maxDailySpending: 0.1 },
+      userLimitOverrides: { '0xusera': { maxDailySpending: 5 } },
+    }, ledger);
+
+    const result = await agent.process(orderMessage());
+    assert.equal(result.status, OrderStatus.APPROVED);
+  });
+
+  it('counts every user toward a merchant limit', async () => {
+    const ledger = new SpendingLedger();
+    await recordPaid(ledger, 'order_1', 0.3, { userAddress: '0xUserB' });
+    await recordPaid(ledger, 'order_2', 0.3, { userAddress: '0xUserC', merchantAddress: '0xMerchantB' });
+    const agent = await createAgent({ merchantLimits: { '0xMerchantA': { maxDailySpending: 0.32 } } }, ledger);
+
+    const result = await agent.process(orderMessage());
+    assert.equal(result.status, OrderStatus.REJECTED);
+    assert.match(result.error!, /per-merchant \(0xMerchantA\) daily spending limit. Current: 0.3/);
+
+    const elsewhere = await agent.process(orderMessage({ merchantAddress: '0xMerchantB' }));
+    assert.equal(elsewhere.status, OrderStatus.APPROVED);
+  });
+
+  it('checks a category limit against that category\'s share of a cart', async () => {
+    const agent = await createAgent({ categoryLimits: { premium: { maxSinglePayment: 1.0 } } });
+    const lines = [cartLine('Latte', 'coffee', 0.5), cartLine('Premium Gold Coffee', 'premium', 0.9)];
+
+    const withinLimit = await agent.process(orderMessage({ item: 'Latte, Premium Gold Coffee', price: 1.0, lines }));
+    assert.equal(withinLimit.status, OrderStatus.APPROVED);
+
+    const overLimit = await agent.process(orderMessage({
+      item: 'Premium Gold Coffee ×2',
+      price: 1.0,
+      lines: [cartLine('Premium Gold Coffee', 'premium', 0.5), cartLine('Premium Gold Coffee', 'premium', 0.55)],
+    }));
+    assert.equal(overLimit.status, OrderStatus.REJECTED);
+    assert.match(overLimit.error!, /per-category \(premium\) single payment limit/);
+  });
+
+  it('leaves past tips out of category spending, as it does for the new order', async () => {
+    const ledger = new SpendingLedger();
+    await ledger.record({
+      orderId: 'order_1',
+      amount: 0.3,
+      tip: 0.1,
+      userAddress: '0xUserA',
+      item: 'Premium Gold Coffee',
+      category: 'premium',
+      timestamp: Date.now() - 1000,
+    });
+    const agent = await createAgent({ categoryLimits: { premium: { maxDailySpending: 0.5 } } }, ledger);
+
+    const result = await agent.process(orderMessage({
+      item: 'Premium Gold Coffee',
+      price: 0.25,
+      lines: [cartLine('Premium Gold Coffee', 'premium', 0.25)],
+      tip: { amount: 0.05, recipient: '0xTipJar' },
+    }));
+    assert.equal(result.status, OrderStatus.APPROVED, result.error);
+    assert.deepEqual((await agent.getUserUsage('0xUserA')).byCategory, { premium: 0.2 });
+  });
+
+  it('includes the tip in the shop and user scopes', async () => {
+    const agent = await createAgent({ userLimit: { maxSinglePayment: 0.033 } });
+    const result = await agent.process(orderMessage({ tip: { amount: 0.005, recipient: '0xTipJar' } }));
+    assert.equal(result.status, OrderStatus.REJECTED);
+    assert.match(result.error!, /Amount 0.035 USDT exceeds per-user/);
+  });
+
+  it('reports a user\'s remaining daily allowance', async () => {
+    const ledger = new SpendingLedger();
+    await recordPaid(ledger, 'order_1', 0.25);
+    const agent = await createAgent({ userLimit: { maxDailySpending: 1 } }, ledger);
+
+    const usage = await agent.getUserUsage('0xUserA');
+    assert.equal(usage.dailySpending, 0.25);
+    assert.equal(usage.remainingDaily, 0.75);
+    assert.deepEqual(usage.byCategory, { coffee: 0.25 });
+  });
+});
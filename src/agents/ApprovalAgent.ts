@@ -3,8 +3,18 @@ import {
   AgentRole,
   AgentConfig,
   AgentMessage,
+  CoffeeOrder,
   OrderStatus,
+  SpendingLimit,
 } from './types';
+import { SpendingLedger, SpendingQuery, getCategoryAmounts } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { buildCartRuleFacts } from '../rules/facts';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { DecisionRecord } from '../ai/decisionRecord';
+import { checkTipLimits, getOrderTotal } from '../tips/tips';
+import { DecisionReceipt, DecisionReceiptCheck, signDecisionRecord, verifyDecisionReceipt } from './decisionReceipt';
 
 /**
  * Approval policy configuration
@@ -12,7 +22,34 @@ import {
 export interface ApprovalPolicy {
   approvalThreshold: number;  // Orders above this require approval
   maxSinglePayment: number;   // Maximum allowed per transaction
-  maxDailySpending: number;   // Maximum daily spending
+  maxDailySpending: number;   // Maximum daily spending (whole shop)
+  maxTipAmount: number;       // Largest tip on one order (USDT)
+  maxTipPercent: number;      // Largest tip as a percentage of the order price
+  userLimit?: SpendingLimit;                          // Applies to each user
+  userLimitOverrides?: Record<string, SpendingLimit>; // userAddress → limit (replaces userLimit)
+  merchantLimits?: Record<string, SpendingLimit>;     // merchantAddress → limit
+  categoryLimits?: Record<string, SpendingLimit>;     // item category → limit
+}
+
+/**
+ * A set of limits and the ledger slice they are measured against
+ */
+interface LimitScope {
+  label: string;              // e.g. "user 0xabc…", used in rejection reasons
+  limit: SpendingLimit;
+  query: SpendingQuery;
+  amount: number;             // Part of the order this scope covers
+}
+
+/**
+ * A user's spending against the limits that apply to them
+ */
+export interface UserSpendingUsage {
+  userAddress: string;
+  dailySpending: number;
+  limit: SpendingLimit;
+  remainingDaily?: number;            // Unset when the user has no daily limit
+  byCategory: Record<string, number>;
 }
 
 /**
@@ -20,15 +57,23 @@ export interface ApprovalPolicy {
  * Responsibilities:
  * - Review orders against spending policies
  * - Approve or reject orders based on rules
- * - Track daily spending
+ * - Enforce shop, user, merchant and category limits against the spending ledger
  */
 export class ApprovalAgent extends BaseAgent {
   private policy: ApprovalPolicy;
-  private dailySpending: number = 0;
-  private lastResetTime: number = Date.now();
-  private readonly DAY_IN_MS = 24 * 60 * 60 * 1000;
+  private ledger: SpendingLedger;
+  private rules: RulesEngine;
+  private schedule: BusinessSchedule;
+  private menu: MenuCatalog;
 
-  constructor(privateKey: string, policy: ApprovalPolicy) {
+  constructor(
+    privateKey: string,
+    policy: ApprovalPolicy,
+    ledger: SpendingLedger,
+    rules: RulesEngine = new RulesEngine(),
+    schedule: BusinessSchedule = new BusinessSchedule(),
+    menu: MenuCatalog = new MenuCatalog()
+  ) {
     const agentConfig: AgentConfig = {
       role: AgentRole.APPROVAL,
       name: 'ApprovalAgent',
@@ -36,67 +81,190 @@ export class ApprovalAgent extends BaseAgent {
     };
     super(agentConfig);
     this.policy = policy;
+    this.ledger = ledger;
+    this.rules = rules;
+    this.schedule = schedule;
+    this.menu = menu;
   }
 
   /**
-   * Reset daily spending if 24 hours have passed
+   * Check if order meets approval criteria
+   * Every scope that applies (shop, user, merchant, category) must pass,
+   * the tip must be within the tip caps, and no policy rule may fail.
    */
-  private checkAndResetDailySpending(): void {
-    const now = Date.now();
-    if (now - this.lastResetTime >= this.DAY_IN_MS) {
-      console.log(`📊 [${this.name}] Resetting daily spending counter`);
-      this.dailySpending = 0;
-      this.lastResetTime = now;
+  private async evaluateOrder(message: AgentMessage): Promise<{ approved: boolean; reason?: string }> {
+    const { order } = message;
+    const amount = getOrderTotal(order.price, order.tip);
+
+    if (order.tip) {
+      const tipCheck = checkTipLimits(order.tip, order.price, this.policy);
+      if (!tipCheck.valid) {
+        return { approved: false, reason: tipCheck.reason };
+      }
+    }
+
+    for (const scope of this.getLimitScopes(order)) {
+      const { maxSinglePayment, maxDailySpending } = scope.limit;
+
+      // Check maximum single payment limit
+      if (maxSinglePayment !== undefined && scope.amount > maxSinglePayment) {
+        return {
+          approved: false,
+          reason: `Amount ${scope.amount} USDT exceeds ${scope.label} single payment limit of ${maxSinglePayment} USDT`,
+        };
+      }
+
+      // Check daily spending limit
+      if (maxDailySpending !== undefined) {
+        const spent = await this.ledger.getTotal(scope.query);
+        if (spent + scope.amount > maxDailySpending) {
+          return {
+            approved: false,
+            reason: `Order would exceed ${scope.label} daily spending limit. Current: ${spent}, Requested: ${scope.amount}, Limit: ${maxDailySpending}`,
+          };
+        }
+      }
+    }
+
+    // Check the shop's policy rules
+    const ruleCheck = await this.checkPolicyRules(message);
+    if (!ruleCheck.approved) {
+      return ruleCheck;
+    }
+
+    // Determine if this requires special approval (above threshold but within limits)
+    const requiresApproval = amount > this.policy.approvalThreshold;
+    
+    if (requiresApproval) {
+      console.log(`⚠️  [${this.name}] High-value order (>${this.policy.approvalThreshold} USDT) - applying additional scrutiny`);
     }
+
+    return { approved: true };
   }
 
   /**
-   * Get current daily spending
+   * Evaluate policy rules - a failing rule rejects, a warning is logged
    */
-  getCurrentDailySpending(): number {
-    this.checkAndResetDailySpending();
-    return this.dailySpending;
+  private async checkPolicyRules(message: AgentMessage): Promise<{ approved: boolean; reason?: string }> {
+    const { order } = message;
+    const now = Date.now();
+    const userEntries = await this.ledger.getEntries({ userAddress: order.userAddress, now });
+    const oneHourAgo = now - 60 * 60 * 1000;
+
+    const facts = buildCartRuleFacts({
+      amount: order.price,
+      quantity: message.quantity,
+      intent: message.intent,
+      item: order.item,
+      category: this.menu.getCategory(order.item),
+      userAddress: order.userAddress,
+      merchantAddress: order.merchantAddress,
+      recentOrderCount: userEntries.filter(entry => entry.timestamp > oneHourAgo).length,
+      dailySpending: await this.ledger.getTotal({ now }),
+      userDailySpending: userEntries.reduce((sum, entry) => sum + entry.amount, 0),
+    }, order.lines, now, this.schedule);
+
+    for (const match of this.rules.evaluate(facts, 'approval')) {
+      const name = match.rule.name || match.rule.id;
+      if (match.result === 'fail') {
+        return { approved: false, reason: `Policy rule "${name}" failed: ${match.message}` };
+      }
+      if (match.result === 'warn') {
+        console.log(`⚠️  [${this.name}] Policy rule "${name}": ${match.message}`);
+      }
+    }
+
+    return { approved: true };
   }
 
   /**
-   * Record a payment to daily spending
+   * Limit scopes that apply to an order, shop-wide first
+   * Shop, user and merchant scopes cover the tip too (it is paid out of the
+   * same wallet); a cart is checked against each of its categories' limits
+   * with that category's subtotal.
    */
-  recordSpending(amount: number): void {
-    this.checkAndResetDailySpending();
-    this.dailySpending += amount;
+  private getLimitScopes(order: CoffeeOrder): LimitScope[] {
+    const total = getOrderTotal(order.price, order.tip);
+    const scopes: LimitScope[] = [{
+      label: 'maximum',
+      limit: {
+        maxSinglePayment: this.policy.maxSinglePayment,
+        maxDailySpending: this.policy.maxDailySpending,
+      },
+      query: {},
+      amount: total,
+    }];
+
+    const userLimit = this.getUserLimit(order.userAddress);
+    if (userLimit) {
+      scopes.push({
+        label: `per-user (${order.userAddress})`,
+        limit: userLimit,
+        query: { userAddress: order.userAddress },
+        amount: total,
+      });
+    }
+
+    const merchantLimit = findLimit(this.policy.merchantLimits, order.merchantAddress);
+    if (merchantLimit) {
+      scopes.push({
+        label: `per-merchant (${order.merchantAddress})`,
+        limit: merchantLimit,
+        query: { merchantAddress: order.merchantAddress },
+        amount: total,
+      });
+    }
+
+    const categoryAmounts: Record<string, number> = {};
+    for (const line of order.lines || [{ category: this.menu.getCategory(order.item), lineTotal: order.price }]) {
+      categoryAmounts[line.category] = (categoryAmounts[line.category] || 0) + line.lineTotal;
+    }
+    for (const [category, amount] of Object.entries(categoryAmounts)) {
+      const categoryLimit = this.policy.categoryLimits?.[category];
+      if (categoryLimit) {
+        scopes.push({
+          label: `per-category (${category})`,
+          limit: categoryLimit,
+          query: { category },
+          amount,
+        });
+      }
+    }
+
+    return scopes;
   }
 
   /**
-   * Check if order meets approval criteria
+   * Limit for a user: their override if any, else the per-user default
    */
-  private evaluateOrder(amount: number): { approved: boolean; reason?: string } {
-    this.checkAndResetDailySpending();
-
-    // Check maximum single payment limit
-    if (amount > this.policy.maxSinglePayment) {
-      return {
-        approved: false,
-        reason: `Amount ${amount} USDT exceeds maximum single payment limit of ${this.policy.maxSinglePayment} USDT`,
-      };
-    }
+  private getUserLimit(userAddress: string): SpendingLimit | undefined {
+    return findLimit(this.policy.userLimitOverrides, userAddress) || this.policy.userLimit;
+  }
 
-    // Check daily spending limit
-    const projectedSpending = this.dailySpending + amount;
-    if (projectedSpending > this.policy.maxDailySpending) {
-      return {
-        approved: false,
-        reason: `Order would exceed daily spending limit. Current: ${this.dailySpending}, Requested: ${amount}, Limit: ${this.policy.maxDailySpending}`,
-      };
-    }
+  /**
+   * Get a user's current spending and remaining daily allowance
+   */
+  async getUserUsage(userAddress: string): Promise<UserSpendingUsage> {
+    const entries = await this.ledger.getEntries({ userAddress });
+    const limit = this.getUserLimit(userAddress) || {};
+    const dailySpending = entries.reduce((sum, entry) => sum + entry.amount, 0);
 
-    // Determine if this requires special approval (above threshold but within limits)
-    const requiresApproval = amount > this.policy.approvalThreshold;
-    
-    if (requiresApproval) {
-      console.log(`⚠️  [${this.name}] High-value order (>${this.policy.approvalThreshold} USDT) - applying additional scrutiny`);
+    const byCategory: Record<string, number> = {};
+    for (const entry of entries) {
+      for (const [category, amount] of Object.entries(getCategoryAmounts(entry))) {
+        byCategory[category] = (byCategory[category] || 0) + amount;
+      }
     }
 
-    return { approved: true };
+    return {
+      userAddress,
+      dailySpending,
+      limit,
+      remainingDaily: limit.maxDailySpending !== undefined
+        ? Math.max(0, limit.maxDailySpending - dailySpending)
+        : undefined,
+      byCategory,
+    };
   }
 
   /**
@@ -119,16 +287,17 @@ export class ApprovalAgent extends BaseAgent {
       return message;
     }
 
-    const amount = message.order.price;
+    const amount = getOrderTotal(message.order.price, message.order.tip);
+    const dailySpending = await this.ledger.getTotal();
 
     // Log current spending stats
-    console.log(`   Current daily spending: ${this.dailySpending.toFixed(4)} USDT`);
-    console.log(`   Requested amount: ${amount} USDT`);
+    console.log(`   Current daily spending: ${dailySpending.toFixed(4)} USDT`);
+    console.log(`   Requested amount: ${amount} USDT${message.order.tip ? ` (incl. ${message.order.tip.amount} USDT tip)` : ''}`);
     console.log(`   Max single: ${this.policy.maxSinglePayment} USDT`);
     console.log(`   Max daily: ${this.policy.maxDailySpending} USDT`);
 
     // Evaluate the order
-    const evaluation = this.evaluateOrder(amount);
+    const evaluation = await this.evaluateOrder(message);
 
     if (!evaluation.approved) {
       console.log(`❌ [${this.name}] Order rejected: ${evaluation.reason}`);
@@ -141,7 +310,8 @@ export class ApprovalAgent extends BaseAgent {
     }
 
     // Order approved - create step record with signature
-    const approvalMessage = `Order ${message.orderId} approved for ${amount} USDT at ${startTime}`;
+    const tipNote = message.order.tip ? ` (incl. ${message.order.tip.amount} USDT tip)` : '';
+    const approvalMessage = `Order ${message.orderId} approved for ${amount} USDT${tipNote} at ${startTime}`;
     const stepRecord = this.createStepRecord(startTime, 'approved', 'Order approved');
     stepRecord.signature = await this.signMessage(approvalMessage);
 
@@ -154,10 +324,47 @@ export class ApprovalAgent extends BaseAgent {
     return message;
   }
 
+  /**
+   * Sign an AI decision record, vouching that the engine made this
+   * decision under the recorded configuration and rules
+   */
+  async signDecision(record: DecisionRecord): Promise<DecisionReceipt> {
+    return signDecisionRecord(record, this.getSigner());
+  }
+
+  /**
+   * Verify a decision receipt was signed with this agent's key
+   */
+  verifyDecision(receipt: DecisionReceipt): DecisionReceiptCheck {
+    if (!this.eoaAddress) {
+      throw new Error(`${this.name} is not initialized`);
+    }
+    return verifyDecisionReceipt(receipt, this.eoaAddress);
+  }
+
   /**
    * Get current policy settings
    */
   getPolicy(): ApprovalPolicy {
     return { ...this.policy };
   }
+
+  /**
+   * Replace the policy (takes effect for the next order reviewed)
+   */
+  setPolicy(policy: ApprovalPolicy): void {
+    this.policy = { ...policy };
+  }
+}
+
+/**
+ * Look up a limit keyed by address (case-insensitive)
+ */
+function findLimit(
+  limits: Record<string, SpendingLimit> | undefined,
+  address: string
+): SpendingLimit | undefined {
+  if (!limits) return undefined;
+  const key = Object.keys(limits).find(candidate => candidate.toLowerCase() === address.toLowerCase());
+  return key ? limits[key] : undefined;
 }
@@ -8,8 +8,14 @@ import {
   AgentMessage,
   AgentStepRecord,
   AgentActionResult,
+  OrderStatus,
 } from './types';
 
+/**
+ * Callback invoked when an agent moves an order to a new status mid-step
+ */
+export type StatusListener = (message: AgentMessage) => void | Promise<void>;
+
 /**
  * Base Agent class that all specialized agents extend
  * Handles AA SDK initialization and common functionality
@@ -18,6 +24,7 @@ export abstract class BaseAgent {
   protected instance: BaseAgentInstance | null = null;
   protected config: AgentConfig;
   protected isInitialized: boolean = false;
+  private statusListener: StatusListener | null = null;
 
   constructor(agentConfig: AgentConfig) {
     this.config = agentConfig;
@@ -160,6 +167,24 @@ export abstract class BaseAgent {
     };
   }
 
+  /**
+   * Register a listener for status changes made while processing
+   */
+  setStatusListener(listener: StatusListener | null): void {
+    this.statusListener = listener;
+  }
+
+  /**
+   * Move the order to a new status and notify the listener
+   * Lets observers see intermediate states (e.g. a long on-chain wait)
+   */
+  protected async updateStatus(message: AgentMessage, status: OrderStatus): Promise<void> {
+    message.status = status;
+    if (this.statusListener) {
+      await this.statusListener(message);
+    }
+  }
+
   /**
    * Sign a message to prove this agent processed it
    */
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import { OrderEvent } from './types';
+
+/**
+ * Order Event Bus - Fan-out of pipeline progress per order
+ *
+ * The orchestrator publishes every status transition, AI decision and
+ * agent step record; subscribers (e.g. SSE clients) listen by order id.
+ */
+export class OrderEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected client - no fixed upper bound
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event to subscribers of its order
+   */
+  publish(event: OrderEvent): void {
+    this.emitter.emit(event.orderId, event);
+  }
+
+  /**
+   * Subscribe to events for one order
+   * Returns a function that removes the subscription
+   */
+  subscribe(orderId: string, listener: (event: OrderEvent) => void): () => void {
+    this.emitter.on(orderId, listener);
+    return () => {
+      this.emitter.off(orderId, listener);
+    };
+  }
+}
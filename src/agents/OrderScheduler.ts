@@ -0,0 +1,84 @@
+/**
+ * Order Scheduler - Parks deferred orders until they are due
+ *
+ * Orders delayed by the AI (AIDecision.DELAY) or requested for a later
+ * time are held here and handed back to the runner once scheduledFor has
+ * passed. The schedule itself lives in the order store, so the owner
+ * re-registers pending orders after a restart.
+ */
+export class OrderScheduler {
+  private pending: Map<string, number> = new Map(); // orderId → scheduledFor
+  private timer: NodeJS.Timeout | null = null;
+  private runner: (orderId: string) => Promise<void>;
+  private pollIntervalMs: number;
+
+  constructor(runner: (orderId: string) => Promise<void>, pollIntervalMs: number = 5000) {
+    this.runner = runner;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * Start checking for due orders
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runDueOrders(), this.pollIntervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  /**
+   * Stop checking for due orders
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Park an order until the given time
+   */
+  schedule(orderId: string, scheduledFor: number): void {
+    this.pending.set(orderId, scheduledFor);
+    console.log(`⏳ Order ${orderId} scheduled for ${new Date(scheduledFor).toISOString()}`);
+  }
+
+  /**
+   * Remove an order from the schedule
+   */
+  cancel(orderId: string): boolean {
+    return this.pending.delete(orderId);
+  }
+
+  /**
+   * Scheduled time for an order, if it is pending
+   */
+  getScheduledTime(orderId: string): number | undefined {
+    return this.pending.get(orderId);
+  }
+
+  /**
+   * Number of orders waiting
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Hand every due order to the runner
+   */
+  private runDueOrders(): void {
+    const now = Date.now();
+    for (const [orderId, scheduledFor] of this.pending) {
+      if (scheduledFor > now) continue;
+
+      this.pending.delete(orderId);
+      console.log(`\n⏰ Scheduled order ${orderId} is due - replaying`);
+      this.runner(orderId).catch(error => {
+        console.error(`❌ Failed to replay scheduled order ${orderId}:`, error);
+      });
+    }
+  }
+}
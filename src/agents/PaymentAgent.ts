@@ -6,8 +6,9 @@ import {
   AgentConfig,
   AgentMessage,
   OrderStatus,
-  AgentStepRecord,
+  ProcessingPipeline,
 } from './types';
+import { getOrderTotal, isSplitTip } from '../tips/tips';
 
 // EntryPoint contract address on Kite Testnet
 const ENTRYPOINT_ADDRESS = '0x4337084d9e255ff0702461cf8895ce9e3b5ff108';
@@ -18,7 +19,7 @@ const MIN_ENTRYPOINT_DEPOSIT = ethers.parseEther('0.01');
 /**
  * Payment Agent - Final agent in the pipeline
  * Responsibilities:
- * - Execute on-chain USDT transfers
+ * - Execute on-chain USDT transfers (the order, then any tip paid to a tip jar)
  * - Record transaction results
  * - Only processes approved orders
  * - Ensure sufficient EntryPoint deposit for gas
@@ -250,16 +251,18 @@ export class PaymentAgent extends BaseAgent {
     }
 
     // Update status to processing
-    message.status = OrderStatus.PROCESSING;
+    await this.updateStatus(message, OrderStatus.PROCESSING);
 
-    // Execute the transfer
+    // Execute the transfer - a tip for the merchant rides along, a tip jar gets its own transfer
+    const { order } = message;
+    const splitTip = order.tip && isSplitTip(order.tip, order.merchantAddress) ? order.tip : undefined;
     const transferResult = await this.executeTransfer(
-      message.order.merchantAddress,
-      message.order.price
+      order.merchantAddress,
+      splitTip ? order.price : getOrderTotal(order.price, order.tip)
     );
 
     // Create step record based on result
-    const stepRecord: AgentStepRecord & { txHash?: string; explorerUrl?: string } = {
+    const stepRecord: NonNullable<ProcessingPipeline['payment']> = {
       ...this.createStepRecord(
         startTime,
         transferResult.success ? 'success' : 'failed',
@@ -272,7 +275,23 @@ export class PaymentAgent extends BaseAgent {
       stepRecord.explorerUrl = getExplorerUrl(transferResult.txHash);
       
       // Sign the payment confirmation
-      const paymentMessage = `Payment ${message.orderId} completed: ${transferResult.txHash}`;
+      let paymentMessage = `Payment ${message.orderId} completed: ${transferResult.txHash}`;
+
+      // The order is paid either way; a failed tip transfer is recorded on the step
+      if (splitTip) {
+        console.log(`💝 [${this.name}] Paying ${splitTip.amount} USDT tip to ${splitTip.recipient}...`);
+        const tipResult = await this.executeTransfer(splitTip.recipient, splitTip.amount);
+        if (tipResult.success && tipResult.txHash) {
+          stepRecord.tipTxHash = tipResult.txHash;
+          stepRecord.tipExplorerUrl = getExplorerUrl(tipResult.txHash);
+          paymentMessage += `, tip ${splitTip.amount} USDT: ${tipResult.txHash}`;
+        } else {
+          stepRecord.tipError = tipResult.error || 'Tip transfer failed';
+          console.log(`⚠️  [${this.name}] Tip not paid: ${stepRecord.tipError}`);
+        }
+      } else if (order.tip) {
+        paymentMessage += ` (incl. ${order.tip.amount} USDT tip)`;
+      }
       stepRecord.signature = await this.signMessage(paymentMessage);
 
       message.status = OrderStatus.COMPLETED;
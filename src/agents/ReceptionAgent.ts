@@ -6,28 +6,36 @@ import {
   OrderStatus,
   CoffeeOrder,
 } from './types';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { CartLine } from '../cart/types';
+import { checkPriceBreakdown } from '../promotions/PromotionsEngine';
+import { checkTip, describeTip } from '../tips/tips';
 
 /**
  * Reception Agent - First agent in the pipeline
  * Responsibilities:
  * - Receive incoming orders
  * - Validate order format and required fields
+ * - Check items and prices against the menu catalog
  * - Record order receipt
  */
 export class ReceptionAgent extends BaseAgent {
-  constructor(privateKey: string) {
+  private menu: MenuCatalog;
+
+  constructor(privateKey: string, menu: MenuCatalog = new MenuCatalog()) {
     const agentConfig: AgentConfig = {
       role: AgentRole.RECEPTION,
       name: 'ReceptionAgent',
       privateKey,
     };
     super(agentConfig);
+    this.menu = menu;
   }
 
   /**
-   * Validate the order has all required fields
+   * Validate the order has all required fields and is priced from the menu
    */
-  private validateOrder(order: CoffeeOrder): { valid: boolean; reason?: string } {
+  private validateOrder(order: CoffeeOrder, quantity: number): { valid: boolean; reason?: string } {
     if (!order.item || order.item.trim() === '') {
       return { valid: false, reason: 'Order item is required' };
     }
@@ -48,6 +56,63 @@ export class ReceptionAgent extends BaseAgent {
       return { valid: false, reason: 'Valid merchant address is required' };
     }
 
+    if (order.tip) {
+      const tipCheck = checkTip(order.tip, order.price);
+      if (!tipCheck.valid) {
+        return tipCheck;
+      }
+    }
+
+    // Discounts come off the menu price - the menu checks use the list price
+    let listPrice = order.price;
+    if (order.pricing) {
+      const pricingCheck = checkPriceBreakdown(order.pricing, order.price);
+      if (!pricingCheck.valid) {
+        return pricingCheck;
+      }
+      listPrice = order.pricing.listPrice;
+    }
+
+    if (order.lines) {
+      return this.validateLines(order.lines, listPrice);
+    }
+
+    return this.menu.checkItem(order.item, listPrice, quantity);
+  }
+
+  /**
+   * Validate a cart order's lines are on the menu and add up to its list price
+   */
+  private validateLines(lines: CartLine[], listPrice: number): { valid: boolean; reason?: string } {
+    if (lines.length === 0) {
+      return { valid: false, reason: 'Cart order has no lines' };
+    }
+
+    for (const line of lines) {
+      if (!line.itemId || !line.item) {
+        return { valid: false, reason: 'Every cart line needs an item' };
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+        return { valid: false, reason: `Quantity of ${line.item} must be a positive integer` };
+      }
+      const menuCheck = this.menu.checkLine(line);
+      if (!menuCheck.valid) {
+        return menuCheck;
+      }
+      if (typeof line.unitPrice !== 'number' || line.unitPrice <= 0 ||
+          Math.abs(line.unitPrice * line.quantity - line.lineTotal) > 1e-6) {
+        return { valid: false, reason: `Price of ${line.item} ×${line.quantity} does not add up` };
+      }
+    }
+
+    const linesTotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+    if (Math.abs(linesTotal - listPrice) > 1e-6) {
+      return {
+        valid: false,
+        reason: `Cart lines total ${linesTotal.toFixed(6)} USDT but the order is for ${listPrice} USDT`,
+      };
+    }
+
     return { valid: true };
   }
 
@@ -63,10 +128,10 @@ export class ReceptionAgent extends BaseAgent {
     }
 
     // Update status to validating
-    message.status = OrderStatus.VALIDATING;
+    await this.updateStatus(message, OrderStatus.VALIDATING);
 
     // Validate the order
-    const validation = this.validateOrder(message.order);
+    const validation = this.validateOrder(message.order, message.quantity || 1);
 
     if (!validation.valid) {
       console.log(`❌ [${this.name}] Order validation failed: ${validation.reason}`);
@@ -81,8 +146,10 @@ export class ReceptionAgent extends BaseAgent {
     // Order is valid - create step record
     const stepRecord = this.createStepRecord(startTime, 'pass', 'Order validated successfully');
     
-    // Sign the order receipt as proof
-    const receiptMessage = `Order ${message.orderId} received at ${startTime}`;
+    // Sign the order receipt as proof - what was ordered, modifiers included, and its price
+    const { order } = message;
+    const tipNote = order.tip ? ` + ${order.tip.amount} ${order.currency} tip` : '';
+    const receiptMessage = `Order ${message.orderId} received at ${startTime}: ${order.item} for ${order.price} ${order.currency}${tipNote}`;
     stepRecord.signature = await this.signMessage(receiptMessage);
 
     message.pipeline.reception = stepRecord;
@@ -91,7 +158,13 @@ export class ReceptionAgent extends BaseAgent {
 
     console.log(`✅ [${this.name}] Order validated (${stepRecord.duration}ms)`);
     console.log(`   Item: ${message.order.item}`);
+    if (message.order.lines && message.order.lines.length > 1) {
+      console.log(`   Lines: ${message.order.lines.length}`);
+    }
     console.log(`   Price: ${message.order.price} ${message.order.currency}`);
+    if (order.tip) {
+      console.log(`   Tip: ${describeTip(order.tip, order.merchantAddress)}`);
+    }
 
     return message;
   }
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createConfirmationToken,
+  verifyConfirmationToken,
+  createEventsKey,
+  verifyEventsKey,
+} from './confirmationToken';
+import { CoffeeOrder } from './types';
+
+const SECRET = 'test-secret';
+const TTL_MS = 5 * 60 * 1000;
+
+const order: CoffeeOrder = {
+  id: 'order_1',
+  item: 'Latte',
+  price: 0.03,
+  currency: 'USDT',
+  merchantAddress: '0xMerchant',
+  userAddress: '0xUser',
+  timestamp: 0,
+};
+
+describe('confirmation tokens', () => {
+  it('accepts a token for the order it was issued for', () => {
+    const { token } = createConfirmationToken(order, SECRET, TTL_MS);
+    assert.deepEqual(verifyConfirmationToken(token, order, SECRET), { valid: true });
+  });
+
+  it('ignores address case', () => {
+    const { token } = createConfirmationToken(order, SECRET, TTL_MS);
+    const check = verifyConfirmationToken(token, { ...order, userAddress: '0xUSER' }, SECRET);
+    assert.equal(check.valid, true);
+  });
+
+  it('rejects a token once the order amount changes', () => {
+    const { token } = createConfirmationToken(order, SECRET, TTL_MS);
+    const check = verifyConfirmationToken(token, { ...order, price: 0.3 }, SECRET);
+    assert.deepEqual(check, { valid: false, reason: 'Confirmation token does not match this order' });
+  });
+
+  it('rejects a token for a different order', () => {
+    const { token } = createConfirmationToken(order, SECRET, TTL_MS);
+    const check = verifyConfirmationToken(token, { ...order, id: 'order_2' }, SECRET);
+    assert.equal(check.valid, false);
+  });
+
+  it('binds the tip', () => {
+    const tipped = { ...order, tip: { amount: 0.005, recipient: '0xTipJar' } };
+    const { token } = createConfirmationToken(tipped, SECRET, TTL_MS);
+    assert.equal(verifyConfirmationToken(token, tipped, SECRET).valid, true);
+    assert.equal(verifyConfirmationToken(token, { ...tipped, tip: { amount: 0.05, recipient: '0xTipJar' } }, SECRET).valid, false);
+    assert.equal(verifyConfirmationToken(token, order, SECRET).valid, false);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const { token } = createConfirmationToken(order, 'other-secret', TTL_MS);
+    const check = verifyConfirmationToken(token, order, SECRET);
+    assert.deepEqual(check, { valid: false, reason: 'Invalid confirmation token signature' });
+  });
+
+  it('rejects a payload edited under the original signature', () => {
+    const { token } = createConfirmationToken(order, SECRET, TTL_MS);
+    const [payload, signature] = token.split('.');
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const extended = Buffer.from(JSON.stringify({ ...decoded, expiresAt: decoded.expiresAt + TTL_MS })).toString('base64url');
+    assert.equal(verifyConfirmationToken(`${extended}.${signature}`, order, SECRET).valid, false);
+  });
+
+  it('rejects an expired token', () => {
+    const { token } = createConfirmationToken(order, SECRET, -1);
+    const check = verifyConfirmationToken(token, order, SECRET);
+    assert.deepEqual(check, { valid: false, reason: 'Confirmation token has expired' });
+  });
+
+  it('rejects a malformed token', () => {
+    assert.deepEqual(verifyConfirmationToken('not-a-token', order, SECRET), {
+      valid: false,
+      reason: 'Malformed confirmation token',
+    });
+  });
+});
+
+describe('events keys', () => {
+  it('accepts the key issued for the order', () => {
+    assert.equal(verifyEventsKey(createEventsKey('order_1', SECRET), 'order_1', SECRET), true);
+  });
+
+  it('rejects the key of another order', () => {
+    assert.equal(verifyEventsKey(createEventsKey('order_2', SECRET), 'order_1', SECRET), false);
+    assert.equal(verifyEventsKey('', 'order_1', SECRET), false);
+  });
+});
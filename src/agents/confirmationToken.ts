@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { CoffeeOrder } from './types';
+import { AIDecisionResult } from '../ai/types';
+
+/**
+ * Confirmation tokens for AIDecision.CONFIRM
+ *
+ * A token is handed to the user with the CONFIRM response and must be
+ * presented to resume the order. It is HMAC-signed, expires, and is bound
+ * to the order parameters so it cannot be replayed for a different order
+ * or amount.
+ */
+
+interface ConfirmationPayload {
+  orderId: string;
+  orderHash: string;
+  expiresAt: number;
+}
+
+/**
+ * Confirmation token verification result
+ */
+export interface ConfirmationTokenCheck {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Hash the order fields a confirmation is bound to
+ */
+function hashOrder(order: CoffeeOrder): string {
+  const canonical = JSON.stringify([
+    order.id,
+    order.item,
+    order.price,
+    order.currency,
+    order.merchantAddress.toLowerCase(),
+    order.userAddress.toLowerCase(),
+    ...(order.tip ? [order.tip.amount, order.tip.recipient.toLowerCase()] : []),
+  ]);
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Issue a confirmation token for an order
+ */
+export function createConfirmationToken(
+  order: CoffeeOrder,
+  secret: string,
+  ttlMs: number
+): { token: string; expiresAt: number } {
+  const payload: ConfirmationPayload = {
+    orderId: order.id,
+    orderHash: hashOrder(order),
+    expiresAt: Date.now() + ttlMs,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return {
+    token: `${encodedPayload}.${sign(encodedPayload, secret)}`,
+    expiresAt: payload.expiresAt,
+  };
+}
+
+/**
+ * Verify a confirmation token against the stored order
+ */
+export function verifyConfirmationToken(
+  token: string,
+  order: CoffeeOrder,
+  secret: string
+): ConfirmationTokenCheck {
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) {
+    return { valid: false, reason: 'Malformed confirmation token' };
+  }
+
+  const expected = Buffer.from(sign(encodedPayload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'Invalid confirmation token signature' };
+  }
+
+  let payload: ConfirmationPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'Malformed confirmation token' };
+  }
+
+  if (payload.orderId !== order.id || payload.orderHash !== hashOrder(order)) {
+    return { valid: false, reason: 'Confirmation token does not match this order' };
+  }
+
+  if (Date.now() > payload.expiresAt) {
+    return { valid: false, reason: 'Confirmation token has expired' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Key for an order's progress stream (GET /orders/:id/events?key=)
+ *
+ * Handed only to the submitter; the stream includes the confirmation
+ * token for holders of the key and leaves it out for everyone else.
+ */
+export function createEventsKey(orderId: string, secret: string): string {
+  return sign(`events:${orderId}`, secret);
+}
+
+/**
+ * Check an order's progress stream key
+ */
+export function verifyEventsKey(key: string, orderId: string, secret: string): boolean {
+  const expected = Buffer.from(createEventsKey(orderId, secret));
+  const actual = Buffer.from(key);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Warnings from the reasoning chain that the user is asked to accept
+ */
+export function getConfirmationWarnings(aiDecision: AIDecisionResult): string[] {
+  return aiDecision.reasoning
+    .filter(step => step.result === 'warn')
+    .map(step => step.detail);
+}
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { signDecisionRecord, verifyDecisionReceipt, DecisionReceipt } from './decisionReceipt';
+import { DecisionRecord, DECISION_RECORD_VERSION, canonicalJson, hashDecisionRecord } from '../ai/decisionRecord';
+import { AIDecision, RiskLevel, UserIntent } from '../ai/types';
+import { AIDecisionEngine } from '../ai/AIDecisionEngine';
+
+// Sign receipts only - never used on chain
+const approvalKey = new ethers.Wallet('0x' + '11'.repeat(32));
+const otherKey = new ethers.Wallet('0x' + '22'.repeat(32));
+
+const record: DecisionRecord = {
+  recordVersion: DECISION_RECORD_VERSION,
+  orderId: 'order_1',
+  context: {
+    userAddress: '0xUserA',
+    intent: UserIntent.BUY_COFFEE,
+    item: 'Latte',
+    price: 0.03,
+    quantity: 1,
+    recentOrderCount: 0,
+    totalDailySpending: 0,
+    agentBalance: 5,
+    currentTime: Date.parse('2026-05-04T10:00:00Z'),
+  },
+  checks: [{ check: 'Amount Validation', checkId: 'amount', result: 'pass', detail: 'Amount OK', weight: 1 }],
+  engine: {
+    config: new AIDecisionEngine().getConfig(),
+    checks: [],
+    rulesVersion: 1,
+    rulesDigest: '0x' + '00'.repeat(32),
+    configVersion: '0x' + 'ab'.repeat(32),
+  },
+  outcome: {
+    decision: AIDecision.APPROVE,
+    confidence: 1,
+    riskLevel: RiskLevel.LOW,
+    summary: 'Approved',
+    scheduledFor: undefined,
+  },
+  decidedAt: Date.parse('2026-05-04T10:00:01Z'),
+};
+
+const copy = (receipt: DecisionReceipt): DecisionReceipt => JSON.parse(JSON.stringify(receipt));
+
+describe('canonical decision records', () => {
+  it('serializes with sorted keys and without undefined values', () => {
+    assert.equal(canonicalJson({ b: 1, a: { d: [{ z: 1, y: undefined }], c: 2 } }), '{"a":{"c":2,"d":[{"z":1}]},"b":1}');
+  });
+
+  it('hashes the same record the same way whatever its key order', () => {
+    const reordered = Object.fromEntries(Object.entries(record).reverse()) as unknown as DecisionRecord;
+    assert.notEqual(JSON.stringify(reordered), JSON.stringify(record));
+    assert.equal(hashDecisionRecord(reordered), hashDecisionRecord(record));
+  });
+});
+
+describe('decision receipts', () => {
+  it('verifies a receipt after a JSON round-trip', async () => {
+    const receipt = await signDecisionRecord(record, approvalKey);
+    assert.equal(receipt.signer, approvalKey.address);
+
+    assert.deepEqual(verifyDecisionReceipt(copy(receipt), approvalKey.address.toLowerCase()), {
+      valid: true,
+      reason: undefined,
+      checks: { digestMatches: true, signatureValid: true, signerTrusted: true },
+      recoveredSigner: approvalKey.address,
+    });
+  });
+
+  it('catches an edited record', async () => {
+    const receipt = copy(await signDecisionRecord(record, approvalKey));
+    receipt.record.outcome.decision = AIDecision.REJECT;
+
+    const check = verifyDecisionReceipt(receipt, approvalKey.address);
+    assert.equal(check.valid, false);
+    assert.equal(check.reason, 'Decision record does not match the signed digest');
+    assert.deepEqual(check.checks, { digestMatches: false, signatureValid: true, signerTrusted: true });
+  });
+
+  it('catches a signature from someone other than the named signer', async () => {
+    const receipt = copy(await signDecisionRecord(record, approvalKey));
+    receipt.signature = (await signDecisionRecord(record, otherKey)).signature;
+
+    const check = verifyDecisionReceipt(receipt, approvalKey.address);
+    assert.equal(check.reason, 'Signature does not match the receipt signer');
+    assert.equal(check.recoveredSigner, otherKey.address);
+  });
+
+  it('catches a garbled signature', async () => {
+    const receipt = copy(await signDecisionRecord(record, approvalKey));
+    receipt.signature = '0x1234';
+    assert.equal(verifyDecisionReceipt(receipt, approvalKey.address).checks.signatureValid, false);
+  });
+
+  it('does not trust a valid receipt from another key', async () => {
+    const receipt = await signDecisionRecord(record, otherKey);
+    const check = verifyDecisionReceipt(receipt, approvalKey.address);
+    assert.equal(check.valid, false);
+    assert.deepEqual(check.checks, { digestMatches: true, signatureValid: true, signerTrusted: false });
+    assert.match(check.reason!, /not the approval agent/);
+  });
+});
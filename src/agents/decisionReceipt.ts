@@ -0,0 +1,92 @@
+import { ethers } from 'ethers';
+import { DecisionRecord, hashDecisionRecord } from '../ai/decisionRecord';
+
+/**
+ * Signed decision receipts
+ *
+ * The approval agent signs the digest of each decision record with its
+ * key (EIP-191 personal_sign over the 32 digest bytes). Anyone holding
+ * the receipt can check it without this server:
+ *
+ *   digest === sha256(canonicalJson(record))
+ *   ethers.verifyMessage(ethers.getBytes(digest), signature) === signer
+ */
+
+export const RECEIPT_ALGORITHM = 'sha256-canonical-json/eip191';
+
+/**
+ * A decision record signed by the approval agent
+ */
+export interface DecisionReceipt {
+  record: DecisionRecord;
+  digest: string;
+  signature: string;
+  signer: string;                     // Approval agent EOA address
+  algorithm: string;
+  signedAt: number;
+}
+
+/**
+ * Result of verifying a receipt
+ */
+export interface DecisionReceiptCheck {
+  valid: boolean;
+  reason?: string;
+  checks: {
+    digestMatches: boolean;           // The record hashes to the signed digest
+    signatureValid: boolean;          // The signature recovers to receipt.signer
+    signerTrusted: boolean;           // receipt.signer is the expected approval key
+  };
+  recoveredSigner?: string;
+}
+
+/**
+ * Sign a decision record
+ */
+export async function signDecisionRecord(
+  record: DecisionRecord,
+  signer: ethers.Signer
+): Promise<DecisionReceipt> {
+  const digest = hashDecisionRecord(record);
+  return {
+    record,
+    digest,
+    signature: await signer.signMessage(ethers.getBytes(digest)),
+    signer: await signer.getAddress(),
+    algorithm: RECEIPT_ALGORITHM,
+    signedAt: Date.now(),
+  };
+}
+
+/**
+ * Verify a receipt's digest and signature, and that it was signed by
+ * the expected address
+ */
+export function verifyDecisionReceipt(
+  receipt: DecisionReceipt,
+  expectedSigner: string
+): DecisionReceiptCheck {
+  const digestMatches = hashDecisionRecord(receipt.record) === receipt.digest;
+
+  let recoveredSigner: string | undefined;
+  try {
+    recoveredSigner = ethers.verifyMessage(ethers.getBytes(receipt.digest), receipt.signature);
+  } catch {
+    recoveredSigner = undefined;
+  }
+  const signatureValid = recoveredSigner !== undefined &&
+    recoveredSigner.toLowerCase() === receipt.signer.toLowerCase();
+  const signerTrusted = receipt.signer.toLowerCase() === expectedSigner.toLowerCase();
+
+  const checks = { digestMatches, signatureValid, signerTrusted };
+  let reason: string | undefined;
+  if (!digestMatches) {
+    reason = 'Decision record does not match the signed digest';
+  } else if (!signatureValid) {
+    reason = 'Signature does not match the receipt signer';
+  } else if (!signerTrusted) {
+    reason = `Receipt was signed by ${receipt.signer}, not the approval agent (${expectedSigner})`;
+  }
+
+  return { valid: reason === undefined, reason, checks, recoveredSigner };
+}
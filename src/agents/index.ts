@@ -6,12 +6,30 @@
 export * from './types';
 
 // Base Agent
-export { BaseAgent } from './BaseAgent';
+export { BaseAgent, StatusListener } from './BaseAgent';
 
 // Specialized Agents
 export { ReceptionAgent } from './ReceptionAgent';
-export { ApprovalAgent, ApprovalPolicy } from './ApprovalAgent';
+export { ApprovalAgent, ApprovalPolicy, UserSpendingUsage } from './ApprovalAgent';
 export { PaymentAgent } from './PaymentAgent';
 
+// Events
+export { OrderEventBus } from './OrderEventBus';
+
+// Confirmation
+export { getConfirmationWarnings } from './confirmationToken';
+
+// Decision receipts
+export {
+  DecisionReceipt,
+  DecisionReceiptCheck,
+  RECEIPT_ALGORITHM,
+  signDecisionRecord,
+  verifyDecisionReceipt,
+} from './decisionReceipt';
+
+// Scheduling
+export { OrderScheduler } from './OrderScheduler';
+
 // Orchestrator
 export { AgentOrchestrator, createOrchestrator } from './AgentOrchestrator';
@@ -1,5 +1,11 @@
 import { ethers } from 'ethers';
 import { GokiteAASDK } from 'gokite-aa-sdk';
+import { AIDecisionResult, AIEnhancedOrderResponse } from '../ai/types';
+import { CheckSetting } from '../ai/DecisionCheck';
+import { DecisionReceipt, DecisionReceiptCheck } from './decisionReceipt';
+import { CartLine } from '../cart/types';
+import { PriceBreakdown } from '../promotions/types';
+import { OrderTip } from '../tips/types';
 
 /**
  * Agent roles in the multi-agent system
@@ -16,6 +22,8 @@ export enum AgentRole {
 export enum OrderStatus {
   RECEIVED = 'received',
   VALIDATING = 'validating',
+  SCHEDULED = 'scheduled',
+  AWAITING_CONFIRMATION = 'awaiting_confirmation',
   PENDING_APPROVAL = 'pending_approval',
   APPROVED = 'approved',
   PROCESSING = 'processing',
@@ -34,14 +42,26 @@ export type AgentActionResult = 'pass' | 'fail' | 'approved' | 'rejected' | 'suc
  */
 export interface CoffeeOrder {
   id: string;
-  item: string;
-  price: number;
+  item: string;                 // Menu item, or a summary of the cart lines
+  price: number;                // Order total, after discounts
+  lines?: CartLine[];           // Set for cart orders
+  pricing?: PriceBreakdown;     // List price and the discounts taken off it
+  tip?: OrderTip;               // Paid on top of price, possibly to a tip jar
   currency: string;
   merchantAddress: string;
   userAddress: string;
   timestamp: number;
 }
 
+/**
+ * Spending limits for one scope (user, merchant or category)
+ * Unset fields are not enforced for that scope.
+ */
+export interface SpendingLimit {
+  maxSinglePayment?: number;
+  maxDailySpending?: number;
+}
+
 /**
  * Agent processing step record
  */
@@ -65,6 +85,9 @@ export interface ProcessingPipeline {
   payment?: AgentStepRecord & {
     txHash?: string;
     explorerUrl?: string;
+    tipTxHash?: string;       // Tip paid to a tip jar in its own transfer
+    tipExplorerUrl?: string;
+    tipError?: string;        // The tip transfer failed after the order was paid
   };
 }
 
@@ -74,12 +97,75 @@ export interface ProcessingPipeline {
 export interface AgentMessage {
   orderId: string;
   order: CoffeeOrder;
+  intent?: string;            // User intent, when the order came through the AI layer
+  quantity?: number;
   status: OrderStatus;
   pipeline: ProcessingPipeline;
   previousAgent?: AgentRole;
   error?: string;
 }
 
+/**
+ * Progress event emitted while an order moves through the pipeline
+ */
+export type OrderEvent =
+  | {
+      type: 'status';
+      orderId: string;
+      status: OrderStatus;
+      error?: string;
+      timestamp: number;
+    }
+  | {
+      type: 'decision';
+      orderId: string;
+      aiDecision: AIDecisionResult;
+      timestamp: number;
+    }
+  | {
+      type: 'step';
+      orderId: string;
+      role: AgentRole;
+      step: AgentStepRecord;
+      timestamp: number;
+    }
+  | {
+      type: 'complete';
+      orderId: string;
+      response: AIEnhancedOrderResponse;
+      timestamp: number;
+    };
+
+/**
+ * Outcome of confirming an order held by AIDecision.CONFIRM
+ */
+export type ConfirmOrderResult =
+  | {
+      accepted: true;
+      completion: Promise<AIEnhancedOrderResponse>;
+    }
+  | {
+      accepted: false;
+      code: 'unavailable' | 'not_found' | 'invalid_state' | 'invalid_token';
+      reason: string;
+    };
+
+/**
+ * Result of verifying an order's signed AI decision
+ */
+export type DecisionVerificationResult =
+  | (DecisionReceiptCheck & {
+      found: true;
+      orderId: string;
+      matchesOrder: boolean;          // The receipt is for the decision stored on the order
+      receipt: DecisionReceipt;
+    })
+  | {
+      found: false;
+      code: 'unavailable' | 'not_found' | 'no_receipt';
+      reason: string;
+    };
+
 /**
  * Multi-agent order response for API
  */
@@ -128,6 +214,16 @@ export interface MultiAgentConfig {
   approvalThreshold: number; // Orders above this amount require approval
   maxSinglePayment: number;  // Maximum amount per transaction
   maxDailySpending: number;  // Maximum daily spending limit
+  maxTipAmount: number;      // Largest tip on one order (USDT)
+  maxTipPercent: number;     // Largest tip as a percentage of the order price
+  userLimit?: SpendingLimit;                          // Applies to each user
+  userLimitOverrides?: Record<string, SpendingLimit>; // userAddress → limit (replaces userLimit)
+  merchantLimits?: Record<string, SpendingLimit>;     // merchantAddress → limit
+  categoryLimits?: Record<string, SpendingLimit>;     // item category → limit
+  aiChecks?: CheckSetting[];                          // Order, enable and re-weight AI checks
+  reasoningTimeoutMs?: number;                        // How long to wait for the LLM review
+  confirmationTtlSeconds: number; // How long a CONFIRM token stays valid
+  confirmationSecret?: string;    // HMAC key for CONFIRM tokens (defaults to approval key)
 }
 
 /**
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIDecisionEngine } from './AIDecisionEngine';
+import { ReasoningProvider, ReasoningVerdict } from './ReasoningProvider';
+import { AIContext, AIDecision, UserIntent } from './types';
+
+const context: AIContext = {
+  userAddress: '0xUserA',
+  intent: UserIntent.BUY_COFFEE,
+  item: 'Latte',
+  price: 0.03,
+  quantity: 1,
+  recentOrderCount: 0,
+  totalDailySpending: 0,
+  agentBalance: 5,
+  currentTime: Date.now(),
+};
+
+function reviewer(review: () => Promise<ReasoningVerdict>): ReasoningProvider {
+  return { name: 'test', review };
+}
+
+function createEngine(provider: ReasoningProvider | null): AIDecisionEngine {
+  const engine = new AIDecisionEngine({ delayOutsideBusinessHours: false, reasoningTimeoutMs: 50 });
+  engine.setLogging(false);
+  engine.setReasoningProvider(provider);
+  return engine;
+}
+
+const verdict = (decision: AIDecision): ReasoningVerdict => ({ decision, explanation: `Reviewer says ${decision}` });
+
+describe('AIDecisionEngine LLM review', () => {
+  it('approves a routine order without a reviewer', async () => {
+    const result = await createEngine(null).evaluate(context);
+    assert.equal(result.decision, AIDecision.APPROVE);
+    assert.equal(result.llmReview, undefined);
+  });
+
+  it('lets a stricter verdict replace the decision', async () => {
+    const result = await createEngine(reviewer(async () => verdict(AIDecision.REJECT))).evaluate(context);
+    assert.equal(result.decision, AIDecision.REJECT);
+    assert.equal(result.llmReview?.applied, true);
+    assert.equal(result.reasoning.at(-1)?.detail, 'Reviewer says reject');
+  });
+
+  it('asks the user to confirm when the reviewer says DELAY', async () => {
+    const result = await createEngine(reviewer(async () => verdict(AIDecision.DELAY))).evaluate(context);
+    assert.equal(result.decision, AIDecision.CONFIRM);
+    assert.equal(result.scheduledFor, undefined);
+    assert.equal(result.llmReview?.verdict, AIDecision.DELAY);
+  });
+
+  it('keeps the rule-based decision when the reviewer errors', async () => {
+    const result = await createEngine(reviewer(async () => { throw new Error('offline'); })).evaluate(context);
+    assert.equal(result.decision, AIDecision.APPROVE);
+    assert.deepEqual([result.llmReview?.applied, result.llmReview?.fallbackReason], [false, 'offline']);
+  });
+
+  it('never relaxes a rejection', async () => {
+    const result = await createEngine(reviewer(async () => verdict(AIDecision.APPROVE))).evaluate({ ...context, price: 5 });
+    assert.equal(result.decision, AIDecision.REJECT);
+    assert.equal(result.llmReview?.applied, false);
+  });
+});
@@ -19,35 +19,63 @@ import {
   RiskLevel,
   UserIntent,
 } from './types';
+import { DecisionCheck, CheckServices } from './DecisionCheck';
+import { ReasoningProvider, ReasoningVerdict } from './ReasoningProvider';
+import { DecisionCheckRegistry, createDefaultCheckRegistry } from './DecisionCheckRegistry';
+import { UserProfile, UserProfileService } from './UserProfileService';
+import { DecisionEngineSnapshot, DecisionRecord, DECISION_RECORD_VERSION, hashCanonical } from './decisionRecord';
+import { SpendingLedger } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { Inventory } from '../inventory/Inventory';
 
 /**
  * Configuration for the AI Decision Engine
  */
-interface AIEngineConfig {
+export interface AIEngineConfig {
   // Thresholds
   maxSinglePayment: number;      // Max amount per transaction
   maxDailySpending: number;      // Max daily total
+  maxTipAmount: number;          // Max tip on one order
+  maxTipPercent: number;         // Max tip as a percentage of the order price
   maxOrdersPerHour: number;      // Rate limiting
+  maxCartItems: number;          // Larger carts are flagged for review
   minAgentBalance: number;       // Minimum balance buffer
   
   // Confidence thresholds
   autoApproveThreshold: number;  // Above this → auto approve
   autoRejectThreshold: number;   // Below this → auto reject
   
-  // Time-based rules (hours in 24h format)
-  businessHoursStart: number;
-  businessHoursEnd: number;
+  // Deferral - DELAY instead of warning/rejecting when waiting would help
+  delayOutsideBusinessHours: boolean;
+  delayWhenRateLimited: boolean;
+  
+  // LLM review - how long to wait before keeping the rule-based decision
+  reasoningTimeoutMs: number;
 }
 
 const DEFAULT_CONFIG: AIEngineConfig = {
   maxSinglePayment: 1.0,
   maxDailySpending: 10.0,
+  maxTipAmount: 0.1,
+  maxTipPercent: 30,
   maxOrdersPerHour: 10,
+  maxCartItems: 50,
   minAgentBalance: 0.5,
   autoApproveThreshold: 0.8,
   autoRejectThreshold: 0.3,
-  businessHoursStart: 6,   // 6 AM
-  businessHoursEnd: 23,    // 11 PM
+  delayOutsideBusinessHours: true,
+  delayWhenRateLimited: true,
+  reasoningTimeoutMs: 3000,
+};
+
+// How strict each decision is - an LLM verdict may only move up this scale
+const DECISION_STRICTNESS: Record<AIDecision, number> = {
+  [AIDecision.APPROVE]: 0,
+  [AIDecision.CONFIRM]: 1,
+  [AIDecision.DELAY]: 1,
+  [AIDecision.REJECT]: 2,
 };
 
 /**
@@ -56,14 +84,40 @@ const DEFAULT_CONFIG: AIEngineConfig = {
 export class AIDecisionEngine {
   private config: AIEngineConfig;
   private orderHistory: Map<string, number[]> = new Map(); // userAddress → timestamps
-
-  constructor(config: Partial<AIEngineConfig> = {}) {
+  private ledger: SpendingLedger;
+  private rules: RulesEngine;
+  private registry: DecisionCheckRegistry;
+  private profiles: UserProfileService;
+  private schedule: BusinessSchedule;
+  private menu: MenuCatalog;
+  private inventory: Inventory;
+  private reasoningProvider: ReasoningProvider | null = null;
+  private logging: boolean = true;
+
+  constructor(
+    config: Partial<AIEngineConfig> = {},
+    ledger: SpendingLedger = new SpendingLedger(),
+    rules: RulesEngine = new RulesEngine(),
+    registry: DecisionCheckRegistry = createDefaultCheckRegistry(),
+    schedule: BusinessSchedule = new BusinessSchedule(),
+    menu: MenuCatalog = new MenuCatalog(),
+    inventory: Inventory = new Inventory()
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.ledger = ledger;
+    this.rules = rules;
+    this.registry = registry;
+    this.schedule = schedule;
+    this.menu = menu;
+    this.inventory = inventory;
+    this.profiles = new UserProfileService(ledger, schedule);
   }
 
   /**
    * Main entry point - Evaluate a payment request
    * Returns a decision with full reasoning chain
+   *
+   * Side-effect free (a dry run): call commit() once the order is accepted.
    */
   async evaluate(context: AIContext): Promise<AIDecisionResult> {
     const startTime = Date.now();
@@ -71,62 +125,31 @@ export class AIDecisionEngine {
     let totalScore = 0;
     let totalWeight = 0;
 
-    console.log('\n🧠 AI Decision Engine - Evaluating request...');
-    console.log(`   Intent: ${context.intent}`);
-    console.log(`   Amount: ${context.price} USDT`);
-
-    // ═══════════════════════════════════════════════════════
-    // Step 1: Intent Validation
-    // ═══════════════════════════════════════════════════════
-    const intentCheck = this.checkIntent(context);
-    reasoning.push(intentCheck);
-    totalScore += intentCheck.result === 'pass' ? intentCheck.weight : 
-                  intentCheck.result === 'warn' ? intentCheck.weight * 0.5 : 0;
-    totalWeight += intentCheck.weight;
-
-    // ═══════════════════════════════════════════════════════
-    // Step 2: Amount Validation
-    // ═══════════════════════════════════════════════════════
-    const amountCheck = this.checkAmount(context);
-    reasoning.push(amountCheck);
-    totalScore += amountCheck.result === 'pass' ? amountCheck.weight : 
-                  amountCheck.result === 'warn' ? amountCheck.weight * 0.5 : 0;
-    totalWeight += amountCheck.weight;
-
-    // ═══════════════════════════════════════════════════════
-    // Step 3: Daily Limit Check
-    // ═══════════════════════════════════════════════════════
-    const dailyCheck = this.checkDailyLimit(context);
-    reasoning.push(dailyCheck);
-    totalScore += dailyCheck.result === 'pass' ? dailyCheck.weight : 
-                  dailyCheck.result === 'warn' ? dailyCheck.weight * 0.5 : 0;
-    totalWeight += dailyCheck.weight;
-
-    // ═══════════════════════════════════════════════════════
-    // Step 4: Balance Sufficiency
-    // ═══════════════════════════════════════════════════════
-    const balanceCheck = this.checkBalance(context);
-    reasoning.push(balanceCheck);
-    totalScore += balanceCheck.result === 'pass' ? balanceCheck.weight : 0;
-    totalWeight += balanceCheck.weight;
-
-    // ═══════════════════════════════════════════════════════
-    // Step 5: Rate Limiting (Frequency Check)
-    // ═══════════════════════════════════════════════════════
-    const rateCheck = this.checkOrderFrequency(context);
-    reasoning.push(rateCheck);
-    totalScore += rateCheck.result === 'pass' ? rateCheck.weight : 
-                  rateCheck.result === 'warn' ? rateCheck.weight * 0.5 : 0;
-    totalWeight += rateCheck.weight;
+    if (this.logging) {
+      console.log('\n🧠 AI Decision Engine - Evaluating request...');
+      console.log(`   Intent: ${context.intent}`);
+      console.log(`   Amount: ${context.price} USDT`);
+    }
 
     // ═══════════════════════════════════════════════════════
-    // Step 6: Time-based Rules
+    // Run each registered check in order
     // ═══════════════════════════════════════════════════════
-    const timeCheck = this.checkBusinessHours(context);
-    reasoning.push(timeCheck);
-    totalScore += timeCheck.result === 'pass' ? timeCheck.weight : 
-                  timeCheck.result === 'warn' ? timeCheck.weight * 0.5 : 0;
-    totalWeight += timeCheck.weight;
+    const services = this.getCheckServices();
+    for (const { check, weightMultiplier } of this.registry.getActiveChecks()) {
+      const output = await check.run(context, services);
+      const steps = Array.isArray(output) ? output : [output];
+
+      for (const step of steps) {
+        const weighted: ReasoningStep = {
+          ...step,
+          checkId: check.id,
+          weight: step.weight * weightMultiplier,
+        };
+        reasoning.push(weighted);
+        totalScore += this.scoreStep(weighted, check);
+        totalWeight += weighted.weight;
+      }
+    }
 
     // ═══════════════════════════════════════════════════════
     // Calculate Final Decision
@@ -134,243 +157,140 @@ export class AIDecisionEngine {
     const confidence = totalWeight > 0 ? totalScore / totalWeight : 0;
     const riskLevel = this.assessRisk(reasoning, confidence);
     const decision = this.makeDecision(reasoning, confidence, context);
-    const summary = this.generateSummary(decision, reasoning, context);
+    const scheduledFor = decision === AIDecision.DELAY
+      ? Math.max(...reasoning.map(r => r.deferUntil || 0))
+      : undefined;
+    const summary = this.generateSummary(decision, reasoning, context, scheduledFor);
     const suggestions = this.generateSuggestions(decision, reasoning);
 
-    const result: AIDecisionResult = {
+    let result: AIDecisionResult = {
       decision,
       confidence: Math.round(confidence * 100) / 100,
       riskLevel,
       reasoning,
       summary,
       suggestions: suggestions.length > 0 ? suggestions : undefined,
+      scheduledFor,
       processingTime: Date.now() - startTime,
       timestamp: Date.now(),
     };
 
-    // Log the decision
-    this.logDecision(result);
-
-    return result;
-  }
-
-  /**
-   * Check if the user intent is valid and reasonable
-   */
-  private checkIntent(context: AIContext): ReasoningStep {
-    const { intent } = context;
-    
-    // Cancel orders can't proceed
-    if (intent === UserIntent.CANCEL_ORDER) {
-      return {
-        check: 'Intent Validation',
-        result: 'fail',
-        detail: 'Cancel requests cannot proceed to payment',
-        weight: 1.0,
-      };
+    // ═══════════════════════════════════════════════════════
+    // LLM Review - a second opinion that may only tighten
+    // ═══════════════════════════════════════════════════════
+    if (this.reasoningProvider) {
+      result = await this.applyLLMReview(result, context, this.reasoningProvider);
+      result.processingTime = Date.now() - startTime;
     }
 
-    // Bulk orders need extra scrutiny
-    if (intent === UserIntent.BULK_ORDER && context.quantity > 5) {
-      return {
-        check: 'Intent Validation',
-        result: 'warn',
-        detail: `Bulk order with ${context.quantity} items requires review`,
-        weight: 0.8,
-      };
+    // Log the decision
+    if (this.logging) {
+      this.logDecision(result);
     }
 
-    // Normal intents pass
-    return {
-      check: 'Intent Validation',
-      result: 'pass',
-      detail: `Intent "${intent}" is valid for payment processing`,
-      weight: 0.8,
-    };
+    return result;
   }
 
   /**
-   * Check if the payment amount is within acceptable limits
+   * Ask the reasoning provider to review a rule-based decision
+   * A stricter verdict replaces the decision and is added to the
+   * reasoning; anything else (including a timeout or error) keeps the
+   * rule-based decision, so hard limits are never relaxed.
    */
-  private checkAmount(context: AIContext): ReasoningStep {
-    const { price } = context;
-    const { maxSinglePayment } = this.config;
-
-    if (price <= 0) {
-      return {
-        check: 'Amount Validation',
-        result: 'fail',
-        detail: 'Payment amount must be positive',
-        weight: 1.0,
-      };
-    }
-
-    if (price > maxSinglePayment) {
-      return {
-        check: 'Amount Validation',
-        result: 'fail',
-        detail: `Amount ${price} USDT exceeds limit of ${maxSinglePayment} USDT`,
-        weight: 1.0,
-      };
-    }
-
-    if (price > maxSinglePayment * 0.8) {
+  private async applyLLMReview(
+    result: AIDecisionResult,
+    context: AIContext,
+    provider: ReasoningProvider
+  ): Promise<AIDecisionResult> {
+    const startTime = Date.now();
+    const { reasoningTimeoutMs } = this.config;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), reasoningTimeoutMs);
+
+    let verdict: ReasoningVerdict;
+    try {
+      verdict = await provider.review({ context, reasoning: result.reasoning, decision: result }, controller.signal);
+    } catch (error) {
+      const fallbackReason = controller.signal.aborted
+        ? `Timed out after ${reasoningTimeoutMs}ms`
+        : error instanceof Error ? error.message : 'Unknown error';
+      console.log(`⚠️  LLM review unavailable (${fallbackReason}) - keeping rule-based decision`);
       return {
-        check: 'Amount Validation',
-        result: 'warn',
-        detail: `Amount ${price} USDT is close to limit (${maxSinglePayment} USDT)`,
-        weight: 0.9,
+        ...result,
+        llmReview: { provider: provider.name, applied: false, fallbackReason, latencyMs: Date.now() - startTime },
       };
+    } finally {
+      clearTimeout(timer);
     }
 
-    return {
-      check: 'Amount Validation',
-      result: 'pass',
-      detail: `Amount ${price} USDT is within acceptable range`,
-      weight: 0.9,
+    // A reviewer has no time to wait until, so DELAY means "ask the user"
+    const decision = verdict.decision === AIDecision.DELAY ? AIDecision.CONFIRM : verdict.decision;
+    const applied = DECISION_STRICTNESS[decision] > DECISION_STRICTNESS[result.decision];
+    const llmReview = {
+      provider: provider.name,
+      verdict: verdict.decision,
+      explanation: verdict.explanation,
+      concerns: verdict.concerns,
+      applied,
+      latencyMs: Date.now() - startTime,
     };
-  }
 
-  /**
-   * Check if daily spending limit would be exceeded
-   */
-  private checkDailyLimit(context: AIContext): ReasoningStep {
-    const { price, totalDailySpending } = context;
-    const { maxDailySpending } = this.config;
-    const projectedTotal = totalDailySpending + price;
-
-    if (projectedTotal > maxDailySpending) {
-      return {
-        check: 'Daily Limit Check',
-        result: 'fail',
-        detail: `Would exceed daily limit: ${projectedTotal.toFixed(2)}/${maxDailySpending} USDT`,
-        weight: 0.9,
-      };
+    if (!applied) {
+      return { ...result, llmReview };
     }
 
-    if (projectedTotal > maxDailySpending * 0.9) {
-      return {
-        check: 'Daily Limit Check',
-        result: 'warn',
-        detail: `Approaching daily limit: ${projectedTotal.toFixed(2)}/${maxDailySpending} USDT`,
-        weight: 0.7,
-      };
-    }
+    console.log(`🤖 LLM review tightened decision: ${result.decision} → ${decision}`);
+    const reasoning: ReasoningStep[] = [...result.reasoning, {
+      check: 'LLM Review',
+      checkId: 'llmReview',
+      result: decision === AIDecision.REJECT ? 'fail' : 'warn',
+      detail: verdict.explanation,
+      weight: 0,  // Explains the decision without changing confidence
+    }];
 
     return {
-      check: 'Daily Limit Check',
-      result: 'pass',
-      detail: `Daily spending OK: ${projectedTotal.toFixed(2)}/${maxDailySpending} USDT`,
-      weight: 0.7,
+      ...result,
+      decision,
+      reasoning,
+      riskLevel: this.assessRisk(reasoning, result.confidence),
+      summary: this.generateSummary(decision, reasoning, context),
+      suggestions: result.suggestions,
+      scheduledFor: undefined,
+      llmReview,
     };
   }
 
   /**
-   * Check if agent has sufficient balance
+   * Score a step: full weight for a pass, the check's warn credit
+   * for a warning, nothing for a fail
    */
-  private checkBalance(context: AIContext): ReasoningStep {
-    const { price, agentBalance } = context;
-    const { minAgentBalance } = this.config;
-    const remainingAfter = agentBalance - price;
-
-    if (agentBalance < price) {
-      return {
-        check: 'Balance Check',
-        result: 'fail',
-        detail: `Insufficient balance: ${agentBalance.toFixed(2)} USDT < ${price} USDT needed`,
-        weight: 1.0,
-      };
-    }
-
-    if (remainingAfter < minAgentBalance) {
-      return {
-        check: 'Balance Check',
-        result: 'warn',
-        detail: `Low balance warning: ${remainingAfter.toFixed(2)} USDT remaining after payment`,
-        weight: 0.8,
-      };
-    }
-
-    return {
-      check: 'Balance Check',
-      result: 'pass',
-      detail: `Sufficient balance: ${agentBalance.toFixed(2)} USDT available`,
-      weight: 0.8,
-    };
+  private scoreStep(step: ReasoningStep, check: DecisionCheck): number {
+    if (step.result === 'pass') return step.weight;
+    if (step.result === 'warn') return step.weight * (check.warnCredit ?? 0.5);
+    return 0;
   }
 
   /**
-   * Check order frequency to prevent abuse
+   * Assess overall risk level based on reasoning
+   * Each failed or warning step contributes its check's risk level.
    */
-  private checkOrderFrequency(context: AIContext): ReasoningStep {
-    const { userAddress, recentOrderCount } = context;
-    const { maxOrdersPerHour } = this.config;
-
-    // Track this request
-    this.recordOrder(userAddress);
-
-    if (recentOrderCount >= maxOrdersPerHour) {
-      return {
-        check: 'Rate Limit Check',
-        result: 'fail',
-        detail: `Too many orders: ${recentOrderCount}/${maxOrdersPerHour} per hour`,
-        weight: 0.7,
-      };
-    }
-
-    if (recentOrderCount >= maxOrdersPerHour * 0.7) {
-      return {
-        check: 'Rate Limit Check',
-        result: 'warn',
-        detail: `High order frequency: ${recentOrderCount}/${maxOrdersPerHour} per hour`,
-        weight: 0.5,
-      };
-    }
-
-    return {
-      check: 'Rate Limit Check',
-      result: 'pass',
-      detail: `Order frequency OK: ${recentOrderCount}/${maxOrdersPerHour} per hour`,
-      weight: 0.5,
+  private assessRisk(reasoning: ReasoningStep[], confidence: number): RiskLevel {
+    const levels = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH, RiskLevel.CRITICAL];
+    let risk = RiskLevel.LOW;
+    const raise = (level: RiskLevel) => {
+      if (levels.indexOf(level) > levels.indexOf(risk)) risk = level;
     };
-  }
 
-  /**
-   * Check if order is during business hours
-   */
-  private checkBusinessHours(context: AIContext): ReasoningStep {
-    const hour = new Date(context.currentTime).getHours();
-    const { businessHoursStart, businessHoursEnd } = this.config;
-
-    if (hour < businessHoursStart || hour >= businessHoursEnd) {
-      return {
-        check: 'Business Hours Check',
-        result: 'warn',
-        detail: `Order placed outside business hours (${businessHoursStart}:00-${businessHoursEnd}:00)`,
-        weight: 0.3,
-      };
+    for (const step of reasoning) {
+      const check = step.checkId ? this.registry.get(step.checkId) : undefined;
+      if (step.result === 'fail') raise(check?.riskOnFail ?? RiskLevel.CRITICAL);
+      if (step.result === 'warn') raise(check?.riskOnWarn ?? RiskLevel.MEDIUM);
     }
 
-    return {
-      check: 'Business Hours Check',
-      result: 'pass',
-      detail: `Order placed during business hours`,
-      weight: 0.3,
-    };
-  }
-
-  /**
-   * Assess overall risk level based on reasoning
-   */
-  private assessRisk(reasoning: ReasoningStep[], confidence: number): RiskLevel {
-    const failCount = reasoning.filter(r => r.result === 'fail').length;
     const warnCount = reasoning.filter(r => r.result === 'warn').length;
-
-    if (failCount > 0) return RiskLevel.CRITICAL;
-    if (warnCount >= 3) return RiskLevel.HIGH;
-    if (warnCount >= 1) return RiskLevel.MEDIUM;
-    if (confidence < 0.7) return RiskLevel.MEDIUM;
-    return RiskLevel.LOW;
+    if (warnCount >= 3) raise(RiskLevel.HIGH);
+    if (confidence < 0.7) raise(RiskLevel.MEDIUM);
+    return risk;
   }
 
   /**
@@ -396,6 +316,12 @@ export class AIDecisionEngine {
       return AIDecision.REJECT;
     }
 
+    // Only issues that waiting would fix (rate limit, closed hours) → delay
+    const issues = reasoning.filter(r => r.result !== 'pass');
+    if (issues.length > 0 && issues.every(r => r.deferUntil !== undefined)) {
+      return AIDecision.DELAY;
+    }
+
     // High confidence → approve
     if (confidence >= autoApproveThreshold) {
       return AIDecision.APPROVE;
@@ -422,7 +348,8 @@ export class AIDecisionEngine {
   private generateSummary(
     decision: AIDecision, 
     reasoning: ReasoningStep[],
-    context: AIContext
+    context: AIContext,
+    scheduledFor?: number
   ): string {
     const passCount = reasoning.filter(r => r.result === 'pass').length;
     const failCount = reasoning.filter(r => r.result === 'fail').length;
@@ -445,7 +372,11 @@ export class AIDecisionEngine {
                `Please review before proceeding with ${context.price} USDT payment.`;
       
       case AIDecision.DELAY:
-        return `⏳ Payment DELAYED: Suggest waiting before processing this order.`;
+        const delayReasons = reasoning
+          .filter(r => r.result !== 'pass')
+          .map(r => r.detail)
+          .join('; ');
+        return `⏳ Payment DELAYED until ${new Date(scheduledFor || context.currentTime).toISOString()}: ${delayReasons}`;
       
       default:
         return `Decision: ${decision}`;
@@ -464,19 +395,11 @@ export class AIDecisionEngine {
     const suggestions: string[] = [];
     
     for (const step of reasoning) {
-      if (step.result === 'fail') {
-        if (step.check.includes('Amount')) {
-          suggestions.push('Try a smaller order amount');
-        }
-        if (step.check.includes('Daily')) {
-          suggestions.push('Wait until tomorrow for daily limit reset');
-        }
-        if (step.check.includes('Balance')) {
-          suggestions.push('Fund the payment agent with more USDT');
-        }
-        if (step.check.includes('Rate')) {
-          suggestions.push('Wait a few minutes before ordering again');
-        }
+      const check = step.checkId ? this.registry.get(step.checkId) : undefined;
+      if (step.result === 'pass') continue;
+      const suggestion = step.suggestion || check?.suggestions?.[step.result];
+      if (suggestion) {
+        suggestions.push(suggestion);
       }
     }
 
@@ -484,17 +407,62 @@ export class AIDecisionEngine {
   }
 
   /**
-   * Record an order for rate limiting
+   * Engine state and helpers handed to each check
    */
-  private recordOrder(userAddress: string): void {
-    const now = Date.now();
-    const oneHourAgo = now - 60 * 60 * 1000;
+  private getCheckServices(): CheckServices {
+    return {
+      config: this.config,
+      ledger: this.ledger,
+      rules: this.rules,
+      profiles: this.profiles,
+      schedule: this.schedule,
+      menu: this.menu,
+      inventory: this.inventory,
+      getNextRateLimitSlot: (userAddress, now) => this.getNextRateLimitSlot(userAddress, now),
+    };
+  }
+
+  /**
+   * Commit an accepted order - count it toward the user's rate limit
+   * evaluate() never changes engine state; the orchestrator calls this
+   * only once an order actually goes ahead, so previews, backtests and
+   * rejected or unconfirmed orders don't use up the user's allowance.
+   */
+  commit(context: AIContext, acceptedAt: number = Date.now()): void {
+    const oneHourAgo = acceptedAt - 60 * 60 * 1000;
     
-    const history = this.orderHistory.get(userAddress) || [];
+    const history = this.orderHistory.get(context.userAddress) || [];
     const recentHistory = history.filter(t => t > oneHourAgo);
-    recentHistory.push(now);
+    recentHistory.push(acceptedAt);
     
-    this.orderHistory.set(userAddress, recentHistory);
+    this.orderHistory.set(context.userAddress, recentHistory);
+  }
+
+  /**
+   * Earliest time a rate-limited user gets a free slot again
+   * (when the oldest order in the one-hour window ages out)
+   */
+  private getNextRateLimitSlot(userAddress: string, now: number): number {
+    const oneHour = 60 * 60 * 1000;
+    const history = (this.orderHistory.get(userAddress) || []).filter(t => t > now - oneHour);
+    const oldest = history.length > 0 ? Math.min(...history) : now;
+    return oldest + oneHour;
+  }
+
+  /**
+   * Get spending within the ledger's daily window
+   * Use this for AIContext.totalDailySpending so previews and the
+   * approval step see the same total.
+   */
+  async getDailySpending(now: number = Date.now()): Promise<number> {
+    return this.ledger.getTotal({ now });
+  }
+
+  /**
+   * Get a user's ordering profile, learned from their completed orders
+   */
+  async getUserProfile(userAddress: string, now: number = Date.now()): Promise<UserProfile> {
+    return this.profiles.getProfile(userAddress, now);
   }
 
   /**
@@ -535,6 +503,47 @@ export class AIDecisionEngine {
     console.log('═══════════════════════════════════════════════════════\n');
   }
 
+  /**
+   * Export a decision as a canonical record, ready to be signed
+   * Call right after evaluate(), so the snapshot is the configuration
+   * and rules the decision was actually made under.
+   */
+  exportDecision(orderId: string, context: AIContext, result: AIDecisionResult): DecisionRecord {
+    return {
+      recordVersion: DECISION_RECORD_VERSION,
+      orderId,
+      context,
+      checks: result.reasoning,
+      engine: this.getSnapshot(),
+      outcome: {
+        decision: result.decision,
+        confidence: result.confidence,
+        riskLevel: result.riskLevel,
+        summary: result.summary,
+        scheduledFor: result.scheduledFor,
+        llmReview: result.llmReview,
+      },
+      decidedAt: result.timestamp,
+    };
+  }
+
+  /**
+   * Current configuration, checks and policy rules, with a version hash
+   */
+  getSnapshot(): DecisionEngineSnapshot {
+    const config = this.getConfig();
+    const checks = this.registry.getSettings();
+    const rulesVersion = this.rules.getStatus().version;
+    const rulesDigest = hashCanonical(this.rules.getRules());
+    return {
+      config,
+      checks,
+      rulesVersion,
+      rulesDigest,
+      configVersion: hashCanonical({ config, checks, rulesVersion, rulesDigest }),
+    };
+  }
+
   /**
    * Update configuration at runtime
    */
@@ -542,6 +551,27 @@ export class AIDecisionEngine {
     this.config = { ...this.config, ...newConfig };
   }
 
+  /**
+   * Set (or clear) the LLM reasoning provider
+   */
+  setReasoningProvider(provider: ReasoningProvider | null): void {
+    this.reasoningProvider = provider;
+  }
+
+  /**
+   * Turn per-decision console logging on or off (e.g. for bulk replays)
+   */
+  setLogging(enabled: boolean): void {
+    this.logging = enabled;
+  }
+
+  /**
+   * Get the check registry, to add, remove or configure checks
+   */
+  getCheckRegistry(): DecisionCheckRegistry {
+    return this.registry;
+  }
+
   /**
    * Get current configuration
    */
@@ -0,0 +1,61 @@
+import { AIContext, ReasoningStep, RiskLevel } from './types';
+import { AIEngineConfig } from './AIDecisionEngine';
+import { SpendingLedger } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { UserProfileService } from './UserProfileService';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { Inventory } from '../inventory/Inventory';
+
+/**
+ * Engine state and helpers available to checks
+ * Read-only: checks must not change state, so an evaluation can always
+ * be a dry run.
+ */
+export interface CheckServices {
+  config: AIEngineConfig;
+  ledger: SpendingLedger;
+  rules: RulesEngine;
+  profiles: UserProfileService;
+  schedule: BusinessSchedule;
+  menu: MenuCatalog;
+  inventory: Inventory;
+  getNextRateLimitSlot(userAddress: string, now: number): number;
+}
+
+/**
+ * A single check in the AI decision chain
+ *
+ * A check returns one reasoning step (or several, or none). Scoring,
+ * risk and suggestions are driven by the metadata here, so adding a
+ * check never means touching the engine.
+ */
+export interface DecisionCheck {
+  id: string;                       // Stable id, used in CheckSetting
+  description?: string;
+
+  // Share of a step's weight a warning scores (default 0.5; fail scores 0, pass 1)
+  warnCredit?: number;
+
+  // Risk a step contributes (defaults: fail → CRITICAL, warn → MEDIUM)
+  riskOnFail?: RiskLevel;
+  riskOnWarn?: RiskLevel;
+
+  // Suggestions shown to the user when a step fails or warns
+  suggestions?: {
+    fail?: string;
+    warn?: string;
+  };
+
+  run(context: AIContext, services: CheckServices): ReasoningStep | ReasoningStep[] | Promise<ReasoningStep | ReasoningStep[]>;
+}
+
+/**
+ * Per-check configuration (AI_CHECKS)
+ * Listed checks run in the order given, before any unlisted ones.
+ */
+export interface CheckSetting {
+  id: string;
+  enabled?: boolean;                // Defaults to true
+  weightMultiplier?: number;        // Scales the check's step weights (default 1)
+}
@@ -0,0 +1,133 @@
+import { DecisionCheck, CheckSetting } from './DecisionCheck';
+import { BUILT_IN_CHECKS } from './checks';
+
+/**
+ * A check as it will run, with its configured weight multiplier
+ */
+export interface ActiveCheck {
+  check: DecisionCheck;
+  weightMultiplier: number;
+}
+
+/**
+ * Decision Check Registry - The ordered set of checks the engine runs
+ *
+ * Checks run in registration order unless settings reorder them.
+ * Settings can refer to checks registered later; they apply as soon
+ * as the check is registered.
+ */
+export class DecisionCheckRegistry {
+  private checks: DecisionCheck[] = [];
+  private settings: CheckSetting[] = [];
+
+  constructor(checks: DecisionCheck[] = []) {
+    checks.forEach(check => this.register(check));
+  }
+
+  /**
+   * Add a check (at the end, or before another check)
+   */
+  register(check: DecisionCheck, options: { before?: string } = {}): void {
+    if (this.checks.some(existing => existing.id === check.id)) {
+      throw new Error(`Decision check "${check.id}" is already registered`);
+    }
+
+    const index = options.before !== undefined
+      ? this.checks.findIndex(existing => existing.id === options.before)
+      : -1;
+    if (index >= 0) {
+      this.checks.splice(index, 0, check);
+    } else {
+      this.checks.push(check);
+    }
+  }
+
+  /**
+   * Remove a check
+   * @returns true if the check was registered
+   */
+  unregister(id: string): boolean {
+    const before = this.checks.length;
+    this.checks = this.checks.filter(check => check.id !== id);
+    return this.checks.length < before;
+  }
+
+  /**
+   * Apply per-check settings (order, enabled, weight)
+   * Replaces any previous settings.
+   */
+  configure(settings: CheckSetting[]): { valid: boolean; reason?: string } {
+    const ids = new Set<string>();
+    for (const setting of settings) {
+      if (!setting || typeof setting.id !== 'string') {
+        return { valid: false, reason: 'Every check setting needs an "id"' };
+      }
+      if (ids.has(setting.id)) {
+        return { valid: false, reason: `Duplicate check setting "${setting.id}"` };
+      }
+      ids.add(setting.id);
+      if (setting.weightMultiplier !== undefined &&
+          (typeof setting.weightMultiplier !== 'number' || setting.weightMultiplier < 0)) {
+        return { valid: false, reason: `Check "${setting.id}": weightMultiplier must be a number >= 0` };
+      }
+    }
+
+    this.settings = settings.map(setting => ({ ...setting }));
+    return { valid: true };
+  }
+
+  /**
+   * Get the checks to run, in order
+   */
+  getActiveChecks(): ActiveCheck[] {
+    const ordered: DecisionCheck[] = [];
+    for (const setting of this.settings) {
+      const check = this.get(setting.id);
+      if (check) ordered.push(check);
+    }
+    for (const check of this.checks) {
+      if (!ordered.includes(check)) ordered.push(check);
+    }
+
+    const active: ActiveCheck[] = [];
+    for (const check of ordered) {
+      const setting = this.settings.find(candidate => candidate.id === check.id);
+      if (setting?.enabled === false) continue;
+      active.push({ check, weightMultiplier: setting?.weightMultiplier ?? 1 });
+    }
+    return active;
+  }
+
+  /**
+   * Get a registered check by id
+   */
+  get(id: string): DecisionCheck | undefined {
+    return this.checks.find(check => check.id === id);
+  }
+
+  /**
+   * Get ids of all registered checks, in registration order
+   */
+  list(): string[] {
+    return this.checks.map(check => check.id);
+  }
+
+  /**
+   * Get the current settings
+   */
+  getSettings(): CheckSetting[] {
+    return this.settings.map(setting => ({ ...setting }));
+  }
+}
+
+/**
+ * Create a registry with the built-in checks, optionally configured
+ */
+export function createDefaultCheckRegistry(settings: CheckSetting[] = []): DecisionCheckRegistry {
+  const registry = new DecisionCheckRegistry(BUILT_IN_CHECKS);
+  const result = registry.configure(settings);
+  if (!result.valid) {
+    throw new Error(`Invalid AI check settings: ${result.reason}`);
+  }
+  return registry;
+}
@@ -0,0 +1,81 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { OpenAIReasoningProvider } from './OpenAIReasoningProvider';
+import { AIContext, AIDecision, AIDecisionResult, RiskLevel, UserIntent } from './types';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+
+// A local stand-in for the chat completions endpoint
+let reply = '';
+let lastPrompt: { order: Record<string, unknown> } | undefined;
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    lastPrompt = JSON.parse(JSON.parse(body).messages[1].content);
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ choices: [{ message: { content: reply } }] }));
+  });
+});
+
+const context: AIContext = {
+  userAddress: '0xUserA',
+  intent: UserIntent.BUY_COFFEE,
+  item: 'Latte',
+  price: 0.03,
+  quantity: 1,
+  recentOrderCount: 0,
+  totalDailySpending: 0,
+  agentBalance: 5,
+  currentTime: Date.parse('2026-05-04T15:30:00Z'),
+};
+
+const decision: AIDecisionResult = {
+  decision: AIDecision.APPROVE,
+  confidence: 1,
+  riskLevel: RiskLevel.LOW,
+  reasoning: [],
+  summary: 'Approved',
+  processingTime: 0,
+  timestamp: context.currentTime,
+};
+
+describe('OpenAIReasoningProvider', () => {
+  let provider: OpenAIReasoningProvider;
+
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const schedule = new BusinessSchedule({ timezone: 'Asia/Tokyo', weekly: {} });
+    provider = new OpenAIReasoningProvider({ baseUrl: `http://127.0.0.1:${port}/v1/`, model: 'test' }, schedule);
+  });
+
+  after(() => server.close());
+
+  const review = () => provider.review({ context, reasoning: [], decision }, new AbortController().signal);
+
+  it('gives the model the order time in the shop\'s timezone', async () => {
+    reply = JSON.stringify({ decision: 'approve', explanation: 'Looks routine.' });
+    await review();
+    assert.equal(lastPrompt?.order.localTime, '2026-05-05 00:30 (Asia/Tokyo)');
+    assert.equal(lastPrompt?.order.weekday, 'tuesday');
+  });
+
+  it('parses a fenced verdict with concerns', async () => {
+    reply = '```json\n{"decision": "Reject", "explanation": " Odd order. ", "concerns": ["late", 3]}\n```';
+    assert.deepEqual(await review(), { decision: AIDecision.REJECT, explanation: 'Odd order.', concerns: ['late'] });
+  });
+
+  it('accepts a delay verdict for the engine to turn into a confirmation', async () => {
+    reply = JSON.stringify({ decision: 'delay', explanation: 'Wait for the morning.' });
+    assert.equal((await review()).decision, AIDecision.DELAY);
+  });
+
+  it('rejects replies it cannot use', async () => {
+    reply = JSON.stringify({ decision: 'maybe', explanation: 'Unsure.' });
+    await assert.rejects(review(), /unknown decision "maybe"/);
+    reply = JSON.stringify({ decision: 'approve' });
+    await assert.rejects(review(), /no explanation/);
+  });
+});
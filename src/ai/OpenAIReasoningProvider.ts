@@ -0,0 +1,130 @@
+import { AIDecision } from './types';
+import { ReasoningProvider, ReasoningRequest, ReasoningVerdict } from './ReasoningProvider';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+
+/**
+ * Connection settings for an OpenAI-compatible chat endpoint
+ */
+export interface OpenAIProviderConfig {
+  baseUrl: string;              // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  apiKey?: string;
+  model: string;
+}
+
+const SYSTEM_PROMPT = [
+  'You review payment decisions made by a rule-based engine for a coffee shop payment agent.',
+  'You receive the order context, every rule check with its result, and the engine\'s decision.',
+  'Hard limits are enforced by the rules and cannot be relaxed; you may only recommend a decision',
+  'that is the same as or stricter than the engine\'s (approve < confirm < reject).',
+  'Flag anything the rules may have missed, such as an intent that does not match the item or an unusual pattern.',
+  'Reply with a JSON object only: {"decision": "approve" | "confirm" | "reject",',
+  '"explanation": "<one or two sentences for the customer>", "concerns": ["<short concern>", ...]}',
+].join(' ');
+
+// Models still answer "delay" now and then; the engine asks the user to confirm those
+const VERDICTS = [AIDecision.APPROVE, AIDecision.CONFIRM, AIDecision.DELAY, AIDecision.REJECT];
+
+/**
+ * Reasoning provider backed by an OpenAI-compatible /chat/completions API
+ */
+export class OpenAIReasoningProvider implements ReasoningProvider {
+  readonly name: string;
+  private config: OpenAIProviderConfig;
+  private schedule: BusinessSchedule;
+
+  /**
+   * @param schedule - Gives the order time in the shop's timezone
+   */
+  constructor(config: OpenAIProviderConfig, schedule: BusinessSchedule = new BusinessSchedule()) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.schedule = schedule;
+    this.name = `openai-compatible (${config.model})`;
+  }
+
+  async review(request: ReasoningRequest, signal: AbortSignal): Promise<ReasoningVerdict> {
+    const { context, reasoning, decision } = request;
+    const shopTime = this.schedule.getStatus(context.currentTime);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: this.config.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: JSON.stringify({
+              order: {
+                intent: context.intent,
+                item: context.item,
+                price: context.price,
+                quantity: context.quantity,
+                recentOrderCount: context.recentOrderCount,
+                totalDailySpending: context.totalDailySpending,
+                agentBalance: context.agentBalance,
+                localTime: `${shopTime.localTime} (${shopTime.timezone})`,
+                weekday: this.schedule.getLocalTime(context.currentTime).weekday,
+              },
+              checks: reasoning.map(step => ({
+                check: step.check,
+                result: step.result,
+                detail: step.detail,
+              })),
+              engineDecision: decision.decision,
+              engineConfidence: decision.confidence,
+            }),
+          },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM endpoint returned ${response.status}`);
+    }
+
+    const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('LLM response had no content');
+    }
+
+    return parseVerdict(content);
+  }
+}
+
+/**
+ * Parse and validate the model's JSON reply
+ */
+function parseVerdict(content: string): ReasoningVerdict {
+  let parsed: { decision?: unknown; explanation?: unknown; concerns?: unknown };
+  try {
+    // Some models wrap JSON in a code fence
+    parsed = JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error('LLM reply was not valid JSON');
+  }
+
+  const decision = String(parsed.decision || '').toLowerCase() as AIDecision;
+  if (!VERDICTS.includes(decision)) {
+    throw new Error(`LLM returned unknown decision "${parsed.decision}"`);
+  }
+  if (typeof parsed.explanation !== 'string' || parsed.explanation.trim() === '') {
+    throw new Error('LLM reply had no explanation');
+  }
+
+  return {
+    decision,
+    explanation: parsed.explanation.trim(),
+    concerns: Array.isArray(parsed.concerns)
+      ? parsed.concerns.filter((c): c is string => typeof c === 'string')
+      : undefined,
+  };
+}
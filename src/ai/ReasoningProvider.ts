@@ -0,0 +1,30 @@
+import { AIContext, AIDecision, AIDecisionResult, ReasoningStep } from './types';
+
+/**
+ * What a reasoning provider is asked to review
+ */
+export interface ReasoningRequest {
+  context: AIContext;
+  reasoning: ReasoningStep[];         // Rule-based checks, in order
+  decision: AIDecisionResult;         // Rule-based decision
+}
+
+/**
+ * A provider's structured verdict
+ */
+export interface ReasoningVerdict {
+  decision: AIDecision;
+  explanation: string;
+  concerns?: string[];
+}
+
+/**
+ * Reasoning Provider - A second opinion on rule-based decisions
+ *
+ * Implementations may call out to a model; the engine applies a
+ * timeout and only ever lets the verdict tighten the decision.
+ */
+export interface ReasoningProvider {
+  readonly name: string;
+  review(request: ReasoningRequest, signal: AbortSignal): Promise<ReasoningVerdict>;
+}
@@ -0,0 +1,134 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UserProfileService } from './UserProfileService';
+import { AIDecisionEngine } from './AIDecisionEngine';
+import { AIContext, UserIntent } from './types';
+import { SpendingLedger } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { createDefaultCheckRegistry } from './DecisionCheckRegistry';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { WEEKDAYS } from '../schedule/types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Open around the clock, in UTC+8
+const schedule = new BusinessSchedule({
+  timezone: 'Asia/Shanghai',
+  weekly: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '00:00', close: '24:00' }]])),
+});
+
+// 09:00 in Shanghai
+const NOW = Date.parse('2026-05-20T01:00:00Z');
+
+/**
+ * Six morning lattes, one a day, ending `daysAgo` days before NOW
+ */
+async function ledgerWithHabit(daysAgo: number = 1): Promise<SpendingLedger> {
+  const ledger = new SpendingLedger(null, undefined, schedule);
+  const amounts = [0.03, 0.03, 0.035, 0.025, 0.03, 0.03];
+  for (const [i, amount] of amounts.entries()) {
+    await ledger.record({
+      orderId: `order_${i}`,
+      amount,
+      userAddress: '0xUserA',
+      item: 'Latte',
+      timestamp: NOW - (daysAgo + amounts.length - 1 - i) * DAY,
+    });
+  }
+  return ledger;
+}
+
+function context(changes: Partial<AIContext> = {}): AIContext {
+  return {
+    userAddress: '0xUserA',
+    intent: UserIntent.BUY_COFFEE,
+    item: 'Latte',
+    price: 0.03,
+    quantity: 1,
+    recentOrderCount: 0,
+    totalDailySpending: 0,
+    agentBalance: 5,
+    currentTime: NOW,
+    ...changes,
+  };
+}
+
+async function anomalyStep(ledger: SpendingLedger, changes: Partial<AIContext> = {}) {
+  const registry = createDefaultCheckRegistry();
+  const engine = new AIDecisionEngine({}, ledger, new RulesEngine(), registry, schedule);
+  engine.setLogging(false);
+  const result = await engine.evaluate(context(changes));
+  return result.reasoning.find(step => step.checkId === 'anomaly')!;
+}
+
+describe('UserProfileService', () => {
+  it('profiles amounts, items, hours and gaps in the shop timezone', async () => {
+    const profile = await new UserProfileService(await ledgerWithHabit(), schedule).getProfile('0xusera', NOW);
+
+    assert.equal(profile.orderCount, 6);
+    assert.equal(Math.round(profile.amount.mean * 1e6) / 1e6, 0.03);
+    assert.equal(profile.amount.max, 0.035);
+    assert.deepEqual(profile.items, { Latte: 6 });
+    assert.equal(profile.hours[9], 6);
+    assert.equal(profile.medianGapMs, DAY);
+    assert.equal(profile.ordersLastHour, 0);
+  });
+
+  it('only sees orders inside the lookback, as of the given time', async () => {
+    const service = new UserProfileService(await ledgerWithHabit(), schedule, 3 * DAY);
+    assert.equal((await service.getProfile('0xUserA', NOW)).orderCount, 2);
+    assert.equal((await service.getProfile('0xUserA', NOW - 4 * DAY)).orderCount, 3);
+  });
+});
+
+describe('anomaly check', () => {
+  it('passes without weight until there is enough history', async () => {
+    const step = await anomalyStep(new SpendingLedger(null, undefined, schedule), { price: 0.9 });
+    assert.equal(step.result, 'pass');
+    assert.equal(step.weight, 0);
+  });
+
+  it('passes an order in line with the habit', async () => {
+    const step = await anomalyStep(await ledgerWithHabit());
+    assert.equal(step.result, 'pass');
+    assert.match(step.detail, /In line with 6 past orders/);
+  });
+
+  it('warns on an amount far above the usual spread and fails at 20x', async () => {
+    const warn = await anomalyStep(await ledgerWithHabit(), { price: 0.06 });
+    assert.equal(warn.result, 'warn');
+    assert.match(warn.detail, /Amount z-score/);
+
+    const fail = await anomalyStep(await ledgerWithHabit(), { item: 'Premium Gold Coffee', price: 0.6 });
+    assert.equal(fail.result, 'fail');
+    assert.match(fail.detail, /20\.0x the usual amount/);
+  });
+
+  it('lets a repeat at about the price paid before through', async () => {
+    const step = await anomalyStep(await ledgerWithHabit(), {
+      price: 0.6,
+      repeat: { orderId: 'order_big', completedAt: NOW - DAY, previousPrice: 0.6, sameItems: true },
+    });
+    assert.notEqual(step.result, 'fail');
+  });
+
+  it('warns on a first-time item at an hour the account never orders at', async () => {
+    const step = await anomalyStep(await ledgerWithHabit(), { item: 'Mocha', currentTime: NOW + 18 * HOUR });
+    assert.equal(step.result, 'warn');
+    assert.match(step.detail, /First Mocha order, at 3:00/);
+
+    const usualHour = await anomalyStep(await ledgerWithHabit(), { item: 'Mocha' });
+    assert.equal(usualHour.result, 'pass');
+  });
+
+  it('warns on a burst of orders after a long dormancy', async () => {
+    const ledger = await ledgerWithHabit(30);
+    await ledger.record({ orderId: 'burst_1', amount: 0.03, userAddress: '0xUserA', item: 'Latte', timestamp: NOW - 20 * 60 * 1000 });
+    await ledger.record({ orderId: 'burst_2', amount: 0.03, userAddress: '0xUserA', item: 'Latte', timestamp: NOW - 10 * 60 * 1000 });
+
+    const step = await anomalyStep(ledger);
+    assert.equal(step.result, 'warn');
+    assert.match(step.detail, /3 orders within an hour after 30 days of inactivity/);
+  });
+});
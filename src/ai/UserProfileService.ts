@@ -0,0 +1,104 @@
+import { SpendingLedger } from '../store/SpendingLedger';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+
+/**
+ * What an address's completed orders look like
+ */
+export interface UserProfile {
+  userAddress: string;
+  orderCount: number;
+  amount: {
+    mean: number;
+    stdDev: number;
+    max: number;
+  };
+  items: Record<string, number>;    // item → completed orders
+  hours: number[];                  // Orders per shop-local hour of day (24 buckets)
+  firstOrderAt?: number;
+  lastOrderAt?: number;
+  medianGapMs?: number;             // Typical time between orders
+  ordersLastHour: number;
+  idleBeforeLastHourMs?: number;    // Quiet time before the current burst of activity
+}
+
+const DEFAULT_LOOKBACK_MS = 90 * 24 * 60 * 60 * 1000;
+const ONE_HOUR = 60 * 60 * 1000;
+
+/**
+ * User Profile Service - Learns each address's ordering habits
+ *
+ * Profiles are built from the spending ledger (completed payments
+ * only) over a lookback window ending at the given time, so replaying
+ * an old request sees the profile as it was then.
+ */
+export class UserProfileService {
+  private ledger: SpendingLedger;
+  private schedule: BusinessSchedule;
+  private lookbackMs: number;
+
+  constructor(
+    ledger: SpendingLedger,
+    schedule: BusinessSchedule = new BusinessSchedule(),
+    lookbackMs: number = DEFAULT_LOOKBACK_MS
+  ) {
+    this.ledger = ledger;
+    this.schedule = schedule;
+    this.lookbackMs = lookbackMs;
+  }
+
+  /**
+   * Build the profile of an address as of `now`
+   */
+  async getProfile(userAddress: string, now: number = Date.now()): Promise<UserProfile> {
+    const entries = await this.ledger.getEntries({
+      window: { type: 'rolling', durationMs: this.lookbackMs },
+      userAddress,
+      now,
+    });
+
+    const amounts = entries.map(entry => entry.amount);
+    const times = entries.map(entry => entry.timestamp).sort((a, b) => a - b);
+    const mean = amounts.length > 0 ? amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length : 0;
+    const variance = amounts.length > 1
+      ? amounts.reduce((sum, amount) => sum + (amount - mean) ** 2, 0) / (amounts.length - 1)
+      : 0;
+
+    const items: Record<string, number> = {};
+    const hours: number[] = new Array(24).fill(0);
+    for (const entry of entries) {
+      const entryItems = entry.lines ? [...new Set(entry.lines.map(line => line.item))] : [entry.item];
+      for (const item of entryItems) {
+        if (item) items[item] = (items[item] || 0) + 1;
+      }
+      hours[this.schedule.getLocalTime(entry.timestamp).hour]++;
+    }
+
+    const gaps = times.slice(1).map((time, i) => time - times[i]);
+    const recent = times.filter(time => time > now - ONE_HOUR);
+    const previous = times.filter(time => time <= now - ONE_HOUR).pop();
+    const activityStart = recent.length > 0 ? recent[0] : now;
+
+    return {
+      userAddress,
+      orderCount: entries.length,
+      amount: {
+        mean,
+        stdDev: Math.sqrt(variance),
+        max: amounts.length > 0 ? Math.max(...amounts) : 0,
+      },
+      items,
+      hours,
+      firstOrderAt: times[0],
+      lastOrderAt: times[times.length - 1],
+      medianGapMs: gaps.length > 0 ? median(gaps) : undefined,
+      ordersLastHour: recent.length,
+      idleBeforeLastHourMs: previous !== undefined ? activityStart - previous : undefined,
+    };
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -0,0 +1,594 @@
+/**
+ * Built-in Decision Checks
+ *
+ * The standard checks the AI Decision Engine runs, in their default
+ * order. Each can be disabled, reordered or re-weighted via AI_CHECKS.
+ */
+
+import { AIContext, UserIntent } from './types';
+import { DecisionCheck } from './DecisionCheck';
+import { buildCartRuleFacts } from '../rules/facts';
+import { describeLine, roundAmount } from '../cart/pricing';
+import { getStockRequests } from '../inventory/Inventory';
+import { checkPriceBreakdown } from '../promotions/PromotionsEngine';
+import { checkTipLimits, getOrderTotal, getTipPercent } from '../tips/tips';
+
+/**
+ * Check if the user intent is valid and reasonable
+ */
+export const intentCheck: DecisionCheck = {
+  id: 'intent',
+  run(context) {
+    const { intent } = context;
+    
+    // Cancel orders can't proceed
+    if (intent === UserIntent.CANCEL_ORDER) {
+      return {
+        check: 'Intent Validation',
+        result: 'fail',
+        detail: 'Cancel requests cannot proceed to payment',
+        weight: 1.0,
+      };
+    }
+
+    // Bulk orders need extra scrutiny
+    if (intent === UserIntent.BULK_ORDER && context.quantity > 5) {
+      return {
+        check: 'Intent Validation',
+        result: 'warn',
+        detail: `Bulk order with ${context.quantity} items requires review`,
+        weight: 0.8,
+      };
+    }
+
+    // Normal intents pass
+    return {
+      check: 'Intent Validation',
+      result: 'pass',
+      detail: `Intent "${intent}" is valid for payment processing`,
+      weight: 0.8,
+    };
+  },
+};
+
+/**
+ * Check a repeat order against the order it repeats
+ * A repeat the orchestrator matched to the user's own completed order is
+ * lower risk - the same items were paid for before. Other intents
+ * produce no step.
+ */
+export const repeatCheck: DecisionCheck = {
+  id: 'repeat',
+  suggestions: { warn: 'Place it as a new order instead' },
+  run(context) {
+    if (context.intent !== UserIntent.REPEAT_ORDER) {
+      return [];
+    }
+
+    const { repeat } = context;
+    if (!repeat) {
+      return {
+        check: 'Repeat Order',
+        result: 'warn',
+        detail: 'Repeat order does not match a completed order of this user',
+        weight: 0.6,
+      };
+    }
+
+    const listPrice = context.pricing ? context.pricing.listPrice : context.price;
+    const price = Math.abs(listPrice - repeat.previousPrice) > 1e-6
+      ? `${listPrice} USDT today, was ${repeat.previousPrice} USDT`
+      : `same price (${listPrice} USDT)`;
+    return {
+      check: 'Repeat Order',
+      result: 'pass',
+      detail: `Repeats order ${repeat.orderId} completed ${new Date(repeat.completedAt).toISOString()}: ` +
+        `${repeat.sameItems ? 'same items' : 'part of the same items'}, ${price}`,
+      weight: 1.0,
+      metrics: { previousPrice: repeat.previousPrice },
+    };
+  },
+};
+
+/**
+ * Check if the payment amount is within acceptable limits
+ * A tip is paid out of the same wallet, so it counts towards the limit.
+ */
+export const amountCheck: DecisionCheck = {
+  id: 'amount',
+  suggestions: { fail: 'Try a smaller order amount' },
+  run(context, services) {
+    const { price } = context;
+    const { maxSinglePayment } = services.config;
+    const total = getOrderTotal(price, context.tip);
+    const amount = describeAmount(context);
+
+    if (price <= 0) {
+      return {
+        check: 'Amount Validation',
+        result: 'fail',
+        detail: 'Payment amount must be positive',
+        weight: 1.0,
+      };
+    }
+
+    const pricingCheck = context.pricing ? checkPriceBreakdown(context.pricing, price) : { valid: true };
+    if (!pricingCheck.valid) {
+      return {
+        check: 'Amount Validation',
+        result: 'fail',
+        detail: `Price breakdown does not add up: ${pricingCheck.reason}`,
+        weight: 1.0,
+      };
+    }
+
+    if (total > maxSinglePayment) {
+      return {
+        check: 'Amount Validation',
+        result: 'fail',
+        detail: `Amount ${amount} exceeds limit of ${maxSinglePayment} USDT`,
+        weight: 1.0,
+      };
+    }
+
+    if (total > maxSinglePayment * 0.8) {
+      return {
+        check: 'Amount Validation',
+        result: 'warn',
+        detail: `Amount ${amount} is close to limit (${maxSinglePayment} USDT)`,
+        weight: 0.9,
+      };
+    }
+
+    return {
+      check: 'Amount Validation',
+      result: 'pass',
+      detail: `Amount ${amount} is within acceptable range`,
+      weight: 0.9,
+    };
+  },
+};
+
+/**
+ * An order amount with the share added by drink modifiers, the
+ * discounts taken off and the tip on top, if any
+ * e.g. "0.055 USDT (0.012 USDT from modifiers, 0.01 USDT off: Happy hour, 0.005 USDT tip)"
+ */
+function describeAmount(context: AIContext): string {
+  const fromModifiers = roundAmount((context.cart || []).reduce((sum, line) =>
+    sum + (line.modifiers || []).reduce((lineSum, modifier) => lineSum + modifier.price, 0) * line.quantity, 0));
+  const discounts = context.pricing?.discounts || [];
+
+  const notes = [
+    ...(fromModifiers !== 0 ? [`${fromModifiers} USDT from modifiers`] : []),
+    ...(discounts.length > 0
+      ? [`${context.pricing!.discountTotal} USDT off: ${discounts.map(discount => discount.name).join(', ')}`]
+      : []),
+    ...(context.tip ? [`${context.tip.amount} USDT tip`] : []),
+  ];
+  const total = getOrderTotal(context.price, context.tip);
+  return notes.length === 0
+    ? `${total} USDT`
+    : `${total} USDT (${notes.join(', ')})`;
+}
+
+/**
+ * Reason over the lines of a cart order
+ * Each line's modifiers must add up to its unit price and the lines to
+ * the order's list price; carts far beyond a normal team order are
+ * flagged for review. Single-item orders have no
+ * cart and produce no step.
+ */
+export const cartCheck: DecisionCheck = {
+  id: 'cart',
+  suggestions: {
+    fail: 'Rebuild the cart from the menu and try again',
+    warn: 'Split very large team orders into smaller ones',
+  },
+  run(context, services) {
+    const { cart, pricing } = context;
+    if (!cart || cart.length === 0) {
+      return [];
+    }
+
+    // Lines are menu-priced; discounts are checked with the amount
+    const price = pricing ? pricing.listPrice : context.price;
+
+    const itemCount = cart.reduce((sum, line) => sum + line.quantity, 0);
+    const linesTotal = cart.reduce((sum, line) => sum + line.lineTotal, 0);
+    const breakdown = cart.map(line => `${describeLine(line)} ×${line.quantity} (${line.lineTotal} USDT)`).join(', ');
+    const mispriced = cart.find(line =>
+      Math.abs(line.unitPrice * line.quantity - line.lineTotal) > 1e-6 ||
+      Math.abs(line.basePrice + (line.modifiers || []).reduce((sum, modifier) => sum + modifier.price, 0) - line.unitPrice) > 1e-6
+    );
+
+    if (mispriced || Math.abs(linesTotal - price) > 1e-6) {
+      return {
+        check: 'Cart Check',
+        result: 'fail',
+        detail: mispriced
+          ? `Cart line ${mispriced.item} ×${mispriced.quantity} does not add up (${mispriced.lineTotal} USDT)`
+          : `Cart lines total ${linesTotal.toFixed(6)} USDT but the order list price is ${price} USDT`,
+        weight: 1.0,
+      };
+    }
+
+    if (itemCount > services.config.maxCartItems) {
+      return {
+        check: 'Cart Check',
+        result: 'warn',
+        detail: `${itemCount} items is more than a usual team order (${services.config.maxCartItems}): ${breakdown}`,
+        weight: 0.6,
+      };
+    }
+
+    return {
+      check: 'Cart Check',
+      result: 'pass',
+      detail: `${itemCount} item(s) in ${cart.length} line(s): ${breakdown}`,
+      weight: 0.4,
+    };
+  },
+};
+
+/**
+ * Check that the shop has the stock for the order
+ * A sold-out item rejects the order and suggests what is still in
+ * stock instead. Orders of untracked items produce no step.
+ */
+export const inventoryCheck: DecisionCheck = {
+  id: 'inventory',
+  suggestions: { fail: 'Choose another item from the menu' },
+  async run(context, services) {
+    const { inventory, menu } = services;
+    const requests = getStockRequests(menu, { item: context.item, quantity: context.quantity, lines: context.cart });
+    const levels = (await Promise.all(requests.map(request => inventory.getLevel(request.itemId))))
+      .filter(level => level !== undefined);
+    if (levels.length === 0) {
+      return [];
+    }
+
+    const shortages = await inventory.check(requests);
+    if (shortages.length > 0) {
+      const shortage = shortages[0];
+      const alternatives = await inventory.findAlternatives(shortage.itemId, menu);
+      return {
+        check: 'Inventory Check',
+        result: 'fail',
+        detail: shortages.map(({ item, quantity, available }) => available === 0
+          ? `${item} is sold out`
+          : `Only ${available} ${item} left, ${quantity} requested`).join('; '),
+        weight: 1.0,
+        suggestion: alternatives.length > 0
+          ? `Try ${alternatives.map(entry => entry.item).join(', ')} instead`
+          : undefined,
+      };
+    }
+
+    return {
+      check: 'Inventory Check',
+      result: 'pass',
+      detail: `In stock: ${levels.map(level =>
+        `${requests.find(request => request.itemId === level.itemId)!.item} (${level.available} left)`).join(', ')}`,
+      weight: 0.3,
+    };
+  },
+};
+
+/**
+ * Check a tip against the tip caps
+ * The tip is shown separately from the order price with where it goes;
+ * orders without a tip produce no step.
+ */
+export const tipCheck: DecisionCheck = {
+  id: 'tip',
+  suggestions: { fail: 'Lower the tip' },
+  run(context, services) {
+    const { tip, price } = context;
+    if (!tip) {
+      return [];
+    }
+
+    const { maxTipAmount, maxTipPercent } = services.config;
+    const percent = getTipPercent(tip, price);
+    const recipient = `${tip.recipient.slice(0, 6)}…${tip.recipient.slice(-4)}`;
+    const limitCheck = checkTipLimits(tip, price, { maxTipAmount, maxTipPercent });
+
+    if (!limitCheck.valid) {
+      return {
+        check: 'Tip Check',
+        result: 'fail',
+        detail: limitCheck.reason!,
+        weight: 1.0,
+        metrics: { tip: tip.amount, tipPercent: percent },
+      };
+    }
+
+    return {
+      check: 'Tip Check',
+      result: 'pass',
+      detail: `Tip ${tip.amount} USDT (${percent}% of ${price} USDT) to ${recipient}, ` +
+        `within caps of ${maxTipAmount} USDT / ${maxTipPercent}%`,
+      weight: 0.3,
+      metrics: { tip: tip.amount, tipPercent: percent },
+    };
+  },
+};
+
+/**
+ * Check if daily spending limit would be exceeded
+ */
+export const dailyLimitCheck: DecisionCheck = {
+  id: 'dailyLimit',
+  suggestions: { fail: 'Wait until tomorrow for daily limit reset' },
+  run(context, services) {
+    const { totalDailySpending } = context;
+    const { maxDailySpending } = services.config;
+    const projectedTotal = totalDailySpending + getOrderTotal(context.price, context.tip);
+
+    if (projectedTotal > maxDailySpending) {
+      return {
+        check: 'Daily Limit Check',
+        result: 'fail',
+        detail: `Would exceed daily limit: ${projectedTotal.toFixed(2)}/${maxDailySpending} USDT`,
+        weight: 0.9,
+      };
+    }
+
+    if (projectedTotal > maxDailySpending * 0.9) {
+      return {
+        check: 'Daily Limit Check',
+        result: 'warn',
+        detail: `Approaching daily limit: ${projectedTotal.toFixed(2)}/${maxDailySpending} USDT`,
+        weight: 0.7,
+      };
+    }
+
+    return {
+      check: 'Daily Limit Check',
+      result: 'pass',
+      detail: `Daily spending OK: ${projectedTotal.toFixed(2)}/${maxDailySpending} USDT`,
+      weight: 0.7,
+    };
+  },
+};
+
+/**
+ * Check if agent has sufficient balance
+ */
+export const balanceCheck: DecisionCheck = {
+  id: 'balance',
+  warnCredit: 0,   // A low balance warning earns no score
+  suggestions: { fail: 'Fund the payment agent with more USDT' },
+  run(context, services) {
+    const { agentBalance } = context;
+    const { minAgentBalance } = services.config;
+    const price = getOrderTotal(context.price, context.tip);
+    const remainingAfter = agentBalance - price;
+
+    if (agentBalance < price) {
+      return {
+        check: 'Balance Check',
+        result: 'fail',
+        detail: `Insufficient balance: ${agentBalance.toFixed(2)} USDT < ${price} USDT needed`,
+        weight: 1.0,
+      };
+    }
+
+    if (remainingAfter < minAgentBalance) {
+      return {
+        check: 'Balance Check',
+        result: 'warn',
+        detail: `Low balance warning: ${remainingAfter.toFixed(2)} USDT remaining after payment`,
+        weight: 0.8,
+      };
+    }
+
+    return {
+      check: 'Balance Check',
+      result: 'pass',
+      detail: `Sufficient balance: ${agentBalance.toFixed(2)} USDT available`,
+      weight: 0.8,
+    };
+  },
+};
+
+/**
+ * Check order frequency to prevent abuse
+ */
+export const orderFrequencyCheck: DecisionCheck = {
+  id: 'orderFrequency',
+  suggestions: { fail: 'Wait a few minutes before ordering again' },
+  run(context, services) {
+    const { userAddress, recentOrderCount } = context;
+    const { maxOrdersPerHour } = services.config;
+
+    if (recentOrderCount >= maxOrdersPerHour) {
+      return {
+        check: 'Rate Limit Check',
+        result: 'fail',
+        detail: `Too many orders: ${recentOrderCount}/${maxOrdersPerHour} per hour`,
+        weight: 0.7,
+        deferUntil: services.config.delayWhenRateLimited
+          ? services.getNextRateLimitSlot(userAddress, context.currentTime)
+          : undefined,
+      };
+    }
+
+    if (recentOrderCount >= maxOrdersPerHour * 0.7) {
+      return {
+        check: 'Rate Limit Check',
+        result: 'warn',
+        detail: `High order frequency: ${recentOrderCount}/${maxOrdersPerHour} per hour`,
+        weight: 0.5,
+      };
+    }
+
+    return {
+      check: 'Rate Limit Check',
+      result: 'pass',
+      detail: `Order frequency OK: ${recentOrderCount}/${maxOrdersPerHour} per hour`,
+      weight: 0.5,
+    };
+  },
+};
+
+// Anomaly detection thresholds
+const MIN_PROFILE_ORDERS = 5;                     // Orders needed before a profile is trusted
+const AMOUNT_WARN_Z_SCORE = 3;                    // Standard deviations above the usual amount
+const AMOUNT_FAIL_RATIO = 20;                     // Multiple of the usual amount
+const DORMANCY_MIN_MS = 14 * 24 * 60 * 60 * 1000; // Quiet period that counts as dormant
+const BURST_ORDERS = 3;                           // Orders within an hour that count as a burst
+const REPEAT_PRICE_TOLERANCE = 1.1;               // A repeat up to this multiple of what was paid before is usual
+
+/**
+ * Compare the request with the user's ordering profile
+ * Flags amounts far above their usual, a never-ordered item at an hour
+ * they never order, and a burst of orders after a long dormancy.
+ */
+export const anomalyCheck: DecisionCheck = {
+  id: 'anomaly',
+  suggestions: {
+    fail: 'This order is far outside your usual spending - contact the shop if it is intended',
+    warn: 'This order is unusual for your account - please double-check it',
+  },
+  async run(context, services) {
+    const profile = await services.profiles.getProfile(context.userAddress, context.currentTime);
+
+    if (profile.orderCount < MIN_PROFILE_ORDERS) {
+      return {
+        check: 'Anomaly Detection',
+        result: 'pass',
+        detail: `Not enough history to profile (${profile.orderCount}/${MIN_PROFILE_ORDERS} completed orders)`,
+        weight: 0,
+      };
+    }
+
+    const findings: string[] = [];
+    let result: 'pass' | 'warn' | 'fail' = 'pass';
+
+    // Amount: how far above this user's usual spend (std dev floored at 10% of the mean)
+    // A verified repeat at about the price paid before is not unusual for this user
+    const { mean, stdDev } = profile.amount;
+    const spread = Math.max(stdDev, mean * 0.1);
+    const zScore = (context.price - mean) / spread;
+    const amountRatio = context.price / mean;
+    const listPrice = context.pricing ? context.pricing.listPrice : context.price;
+    const repeatedAmount = context.repeat !== undefined &&
+      listPrice <= context.repeat.previousPrice * REPEAT_PRICE_TOLERANCE;
+    if (!repeatedAmount && amountRatio >= AMOUNT_FAIL_RATIO) {
+      result = 'fail';
+      findings.push(`${amountRatio.toFixed(1)}x the usual amount (${mean.toFixed(3)} USDT, z=${zScore.toFixed(1)})`);
+    } else if (!repeatedAmount && zScore >= AMOUNT_WARN_Z_SCORE) {
+      result = 'warn';
+      findings.push(`Amount z-score ${zScore.toFixed(1)} (usual ${mean.toFixed(3)} ± ${spread.toFixed(3)} USDT)`);
+    }
+
+    // A first-time item at an hour (±1) this user has never ordered at
+    const { hour } = services.schedule.getLocalTime(context.currentTime);
+    const usualHour = [hour - 1, hour, hour + 1].some(h => profile.hours[(h + 24) % 24] > 0);
+    const items = context.cart ? [...new Set(context.cart.map(line => line.item))] : [context.item];
+    const newItems = items.filter(item => !profile.items[item]);
+    if (newItems.length > 0 && !usualHour) {
+      if (result === 'pass') result = 'warn';
+      findings.push(`First ${newItems.join(', ')} order, at ${hour}:00 - an hour this account never orders at`);
+    }
+
+    // A burst of orders after a long quiet period
+    const dormancy = Math.max(DORMANCY_MIN_MS, (profile.medianGapMs || 0) * 10);
+    const burst = Math.max(profile.ordersLastHour, context.recentOrderCount) + 1;
+    const idleDays = (profile.idleBeforeLastHourMs || 0) / (24 * 60 * 60 * 1000);
+    if (profile.idleBeforeLastHourMs !== undefined && profile.idleBeforeLastHourMs >= dormancy && burst >= BURST_ORDERS) {
+      if (result === 'pass') result = 'warn';
+      findings.push(`${burst} orders within an hour after ${idleDays.toFixed(0)} days of inactivity`);
+    }
+
+    return {
+      check: 'Anomaly Detection',
+      result,
+      detail: findings.length > 0
+        ? findings.join('; ')
+        : `In line with ${profile.orderCount} past orders (z=${zScore.toFixed(1)})`,
+      weight: result === 'fail' ? 0.9 : 0.6,   // A fail is critical: reject
+      metrics: {
+        zScore: Math.round(zScore * 100) / 100,
+        amountRatio: Math.round(amountRatio * 100) / 100,
+        profileOrders: profile.orderCount,
+        idleDays: Math.round(idleDays * 10) / 10,
+      },
+    };
+  },
+};
+
+/**
+ * Check if order is during business hours
+ */
+export const businessHoursCheck: DecisionCheck = {
+  id: 'businessHours',
+  run(context, services) {
+    const status = services.schedule.getStatus(context.currentTime);
+
+    if (!status.open) {
+      return {
+        check: 'Business Hours Check',
+        result: 'warn',
+        detail: `Order placed while the shop is closed (${status.localTime} ${status.timezone}): ${status.message}`,
+        weight: 0.3,
+        deferUntil: services.config.delayOutsideBusinessHours ? status.opensAt : undefined,
+      };
+    }
+
+    return {
+      check: 'Business Hours Check',
+      result: 'pass',
+      detail: `Order placed during business hours (${status.message}${status.event ? `, ${status.event}` : ''})`,
+      weight: 0.3,
+    };
+  },
+};
+
+/**
+ * Evaluate the shop's policy rules - one step per matching rule
+ */
+export const policyRulesCheck: DecisionCheck = {
+  id: 'policyRules',
+  async run(context, services) {
+    const facts = buildCartRuleFacts({
+      amount: context.price,
+      quantity: context.quantity,
+      intent: context.intent,
+      item: context.item,
+      category: services.menu.getCategory(context.item),
+      userAddress: context.userAddress,
+      recentOrderCount: context.recentOrderCount,
+      dailySpending: context.totalDailySpending,
+      userDailySpending: await services.ledger.getTotal({ userAddress: context.userAddress, now: context.currentTime }),
+      agentBalance: context.agentBalance,
+    }, context.cart, context.currentTime, services.schedule);
+
+    return services.rules.evaluate(facts, 'ai').map(match => ({
+      check: match.rule.name || match.rule.id,
+      result: match.result,
+      detail: match.message,
+      weight: match.weight,
+    }));
+  },
+};
+
+/**
+ * Built-in checks in default order
+ */
+export const BUILT_IN_CHECKS: DecisionCheck[] = [
+  intentCheck,
+  repeatCheck,
+  amountCheck,
+  tipCheck,
+  cartCheck,
+  inventoryCheck,
+  dailyLimitCheck,
+  balanceCheck,
+  orderFrequencyCheck,
+  anomalyCheck,
+  businessHoursCheck,
+  policyRulesCheck,
+];
@@ -0,0 +1,23 @@
+import { config } from '../config';
+import { ReasoningProvider } from './ReasoningProvider';
+import { OpenAIReasoningProvider } from './OpenAIReasoningProvider';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+
+/**
+ * Create the LLM reasoning provider from LLM_BASE_URL
+ * Returns null (rule-based decisions only) when it isn't set.
+ */
+export function createReasoningProvider(schedule: BusinessSchedule): ReasoningProvider | null {
+  if (!config.llm.baseUrl) {
+    console.log('🧠 LLM review: off (rule-based decisions only)');
+    return null;
+  }
+
+  const provider = new OpenAIReasoningProvider({
+    baseUrl: config.llm.baseUrl,
+    apiKey: config.llm.apiKey || undefined,
+    model: config.llm.model,
+  }, schedule);
+  console.log(`🧠 LLM review: ${provider.name} at ${config.llm.baseUrl}`);
+  return provider;
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { AIContext, AIDecision, LLMReview, ReasoningStep, RiskLevel } from './types';
+import { CheckSetting } from './DecisionCheck';
+import { AIEngineConfig } from './AIDecisionEngine';
+
+/**
+ * Decision Records - Canonical, hash-stable exports of AI decisions
+ *
+ * A record captures everything that went into a decision: the context
+ * the engine saw, every check it ran, the engine configuration and the
+ * policy rules in force, and the outcome. Serialized canonically (keys
+ * sorted, undefined dropped), the same record always hashes to the same
+ * digest, so it can be signed now and verified by anyone later.
+ */
+
+export const DECISION_RECORD_VERSION = 1;
+
+/**
+ * The engine configuration a decision was made under
+ */
+export interface DecisionEngineSnapshot {
+  config: AIEngineConfig;
+  checks: CheckSetting[];             // Check order, enabled state and weights
+  rulesVersion: number;               // "version" of the policy rules file
+  rulesDigest: string;                // sha256 of the canonical policy rules
+  configVersion: string;              // sha256 of all of the above
+}
+
+/**
+ * Everything needed to explain and verify one AI decision
+ */
+export interface DecisionRecord {
+  recordVersion: number;
+  orderId: string;
+  context: AIContext;
+  checks: ReasoningStep[];
+  engine: DecisionEngineSnapshot;
+  outcome: {
+    decision: AIDecision;
+    confidence: number;
+    riskLevel: RiskLevel;
+    summary: string;
+    scheduledFor?: number;
+    llmReview?: LLMReview;
+  };
+  decidedAt: number;
+}
+
+/**
+ * Serialize a value with sorted object keys
+ * Like JSON.stringify, undefined properties are left out.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+/**
+ * sha256 of a value's canonical serialization, 0x-prefixed hex
+ */
+export function hashCanonical(value: unknown): string {
+  return '0x' + crypto.createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+/**
+ * Digest of a decision record - this is what gets signed
+ */
+export function hashDecisionRecord(record: DecisionRecord): string {
+  return hashCanonical(record);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    const source = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(source)
+        .filter(key => source[key] !== undefined)
+        .sort()
+        .map(key => [key, sortKeys(source[key])])
+    );
+  }
+  return value;
+}
@@ -6,3 +6,11 @@
 
 export * from './types';
 export * from './AIDecisionEngine';
+export * from './DecisionCheck';
+export * from './DecisionCheckRegistry';
+export * from './checks';
+export * from './UserProfileService';
+export * from './decisionRecord';
+export * from './ReasoningProvider';
+export * from './OpenAIReasoningProvider';
+export { createReasoningProvider } from './createReasoningProvider';
@@ -5,6 +5,11 @@
  * that evaluates user intents and determines payment actions.
  */
 
+import { CartLine } from '../cart/types';
+import { PriceBreakdown } from '../promotions/types';
+import { OrderTip } from '../tips/types';
+import { RepeatContext, RepeatOrderPlan } from '../repeat/types';
+
 /**
  * User intent types - what the user wants to do
  */
@@ -47,8 +52,12 @@ export interface AIContext {
   // Order details
   intent: UserIntent;
   item: string;
-  price: number;
+  price: number;                      // What the order pays, after discounts
   quantity: number;
+  cart?: CartLine[];                  // Line items of a cart order (priced from the menu)
+  pricing?: PriceBreakdown;           // List price and the discounts taken off it
+  tip?: OrderTip;                     // Paid on top of price
+  repeat?: RepeatContext;             // Set when a REPEAT_ORDER matches the user's completed order
   
   // Historical context
   recentOrderCount: number;           // Orders in last hour
@@ -68,9 +77,26 @@ export interface AIContext {
  */
 export interface ReasoningStep {
   check: string;                      // What was checked
+  checkId?: string;                   // Id of the DecisionCheck that produced this step
   result: 'pass' | 'fail' | 'warn';   // Check result
   detail: string;                     // Human-readable explanation
   weight: number;                     // Importance (0-1)
+  deferUntil?: number;                // Time at which this check would pass (deferrable checks)
+  metrics?: Record<string, number>;   // Numbers behind the result (e.g. zScore)
+  suggestion?: string;                // Overrides the check's own suggestion for this step
+}
+
+/**
+ * Outcome of an LLM review of a rule-based decision
+ */
+export interface LLMReview {
+  provider: string;                   // e.g. "openai-compatible (gpt-4o-mini)"
+  verdict?: AIDecision;               // What the model recommended
+  explanation?: string;               // Model's natural-language explanation
+  concerns?: string[];
+  applied: boolean;                   // true if the verdict tightened the decision
+  fallbackReason?: string;            // Why the rule-based decision was kept as-is (timeout, error)
+  latencyMs: number;
 }
 
 /**
@@ -95,6 +121,12 @@ export interface AIDecisionResult {
   // Suggestions if not approved
   suggestions?: string[];
   
+  // When to retry (DELAY decisions)
+  scheduledFor?: number;
+  
+  // Review by the LLM reasoning provider, if one is configured
+  llmReview?: LLMReview;
+  
   // Processing metadata
   processingTime: number;
   timestamp: number;
@@ -108,12 +140,18 @@ export interface IntentOrderRequest {
   item: string;
   price: number;
   quantity?: number;
+  cart?: CartLine[];                  // Priced lines; item, price and quantity then describe the whole cart
+  couponCode?: string;                // As entered by the customer
+  pricing?: PriceBreakdown;           // How price was reached from the menu
+  tip?: OrderTip;                     // Resolved from the customer's tip request
+  repeatOf?: string;                  // REPEAT_ORDER: id of the completed order being repeated
   userAddress: string;
+  scheduledFor?: number;              // Run the order at this time instead of now
+  idempotencyKey?: string;            // Client key that deduplicates retries
   metadata?: {
     simulateHighPrice?: boolean;
     simulateLowBalance?: boolean;
     customMessage?: string;
-    userConfirmed?: boolean;
   };
 }
 
@@ -124,9 +162,19 @@ export interface IntentOrderRequest {
 export interface AIEnhancedOrderResponse {
   success: boolean;
   orderId: string;
+  dryRun?: boolean;                   // Decision preview only - nothing was placed
   
   // AI Decision details (transparent)
   aiDecision: AIDecisionResult;
+
+  // Price breakdown: list price, discounts, final price
+  pricing?: PriceBreakdown;
+
+  // Tip paid on top of the price (see pipeline.payment for a tip jar transfer)
+  tip?: OrderTip;
+
+  // REPEAT_ORDER: the last completed order rebuilt at today's prices, with what changed
+  repeat?: RepeatOrderPlan;
   
   // Transaction details (if approved)
   transaction?: {
@@ -135,6 +183,19 @@ export interface AIEnhancedOrderResponse {
     status: 'pending' | 'confirmed' | 'failed';
   };
   
+  // Schedule (when the order was deferred by DELAY or requested for later)
+  schedule?: {
+    scheduledFor: number;
+    reason: string;
+  };
+  
+  // Confirmation handle (when aiDecision is CONFIRM)
+  confirmation?: {
+    token?: string;                   // Only in responses to the submitter
+    expiresAt: number;
+    warnings: string[];
+  };
+  
   // Pipeline details - using any for flexibility with ProcessingPipeline
   pipeline?: {
     reception?: unknown;
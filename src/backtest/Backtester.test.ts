@@ -0,0 +1,140 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Backtester } from './Backtester';
+import { loadCasesFromFile } from './sources';
+import { BacktestCase, EngineSetup } from './types';
+import { AIContext, AIDecision, UserIntent } from '../ai/types';
+import { SpendingLedger } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { MenuCatalog } from '../menu/MenuCatalog';
+
+// Monday 10:00 UTC; the default schedule opens 06:00-23:00 UTC
+const MORNING = Date.parse('2026-05-04T10:00:00Z');
+const NIGHT = Date.parse('2026-05-04T02:00:00Z');
+
+function context(item: string, price: number, currentTime: number = MORNING): AIContext {
+  return {
+    userAddress: '0xUserA',
+    intent: UserIntent.BUY_COFFEE,
+    item,
+    price,
+    quantity: 1,
+    recentOrderCount: 0,
+    totalDailySpending: 0,
+    agentBalance: 5,
+    currentTime,
+  };
+}
+
+const cases: BacktestCase[] = [
+  { orderId: 'order_3', context: context('Premium Gold Coffee', 0.9, MORNING + 3000) },
+  { orderId: 'order_1', context: context('Latte', 0.03, MORNING + 1000), recordedDecision: AIDecision.APPROVE },
+  { orderId: 'order_2', context: context('Special Blend', 0.6, MORNING + 2000) },
+];
+
+const baseline: EngineSetup = { config: {} };
+
+function createBacktester(): Backtester {
+  return new Backtester(new SpendingLedger(), new RulesEngine(), new BusinessSchedule(), new MenuCatalog());
+}
+
+describe('Backtester', () => {
+  it('reports the orders a lower limit would newly reject', async () => {
+    const report = await createBacktester().run(cases, baseline, { config: { maxSinglePayment: 0.5 } });
+
+    assert.equal(report.total, 3);
+    assert.deepEqual(report.decisions.baseline, { approve: 3, confirm: 0, delay: 0, reject: 0 });
+    assert.deepEqual(report.decisions.candidate, { approve: 1, confirm: 0, delay: 0, reject: 2 });
+    assert.deepEqual(report.approvalRate, { baseline: 1, candidate: 0.3333, change: -0.6667 });
+    assert.deepEqual(report.newlyRejected.map(diff => diff.orderId), ['order_2', 'order_3']);
+    assert.deepEqual(report.newlyRejected[0].reasons, ['[Amount Validation] Amount 0.6 USDT exceeds limit of 0.5 USDT']);
+  });
+
+  it('lets the candidate inherit baseline settings it does not override', async () => {
+    const report = await createBacktester().run(cases, { config: { maxSinglePayment: 0.5 } }, { config: { autoApproveThreshold: 0.9 } });
+    assert.deepEqual(report.candidate.config, { maxSinglePayment: 0.5, autoApproveThreshold: 0.9 });
+    assert.equal(report.decisions.candidate.reject, 2);
+  });
+
+  it('replays check settings', async () => {
+    const night = [{ orderId: 'order_night', context: context('Latte', 0.03, NIGHT) }];
+    const report = await createBacktester().run(night, baseline, { config: {}, checks: [{ id: 'businessHours', enabled: false }] });
+
+    assert.equal(report.changed.length, 1);
+    assert.deepEqual([report.changed[0].baseline.decision, report.changed[0].candidate.decision], [AIDecision.DELAY, AIDecision.APPROVE]);
+  });
+
+  describe('validate', () => {
+    it('types a valid candidate', () => {
+      assert.deepEqual(createBacktester().validate({ config: { maxSinglePayment: 0.5 }, checks: [{ id: 'orderFrequency' }] }, baseline), {
+        valid: true,
+        setup: { config: { maxSinglePayment: 0.5 }, checks: [{ id: 'orderFrequency' }] },
+      });
+    });
+
+    it('rejects candidates that could not be applied', () => {
+      const backtester = createBacktester();
+      const reasons = [
+        backtester.validate({}, baseline).reason,
+        backtester.validate({ config: [0.5] }, baseline).reason,
+        backtester.validate({ config: { maxSinglePayment: -1 } }, baseline).reason,
+        backtester.validate({ config: { maxSinglePayment: 20 } }, baseline).reason,
+        backtester.validate({ checks: { id: 'orderFrequency' } }, baseline).reason,
+        backtester.validate({ checks: [{ id: 'orderFrequency', weightMultiplier: -1 }] }, baseline).reason,
+      ];
+      assert.deepEqual(reasons, [
+        'Give a candidate config and/or checks',
+        'config must be a JSON object',
+        'maxSinglePayment must be a positive number',
+        'maxSinglePayment cannot exceed maxDailySpending',
+        'checks must be an array of check settings',
+        'Check "orderFrequency": weightMultiplier must be a number >= 0',
+      ]);
+    });
+  });
+});
+
+describe('loadCasesFromFile', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'));
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const writeLines = (name: string, lines: unknown[]) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    return filePath;
+  };
+
+  it('reads order records, cases and bare contexts, keeping the latest record of an order', async () => {
+    const filePath = writeLines('mixed.jsonl', [
+      { orderId: 'order_1', statusHistory: [], aiContext: context('Latte', 0.03) },
+      { orderId: 'order_1', statusHistory: [], aiContext: context('Latte', 0.03), aiDecision: { decision: 'approve' } },
+      { orderId: 'order_2', statusHistory: [] },
+      { orderId: 'case_1', context: context('Espresso', 0.02), recordedDecision: 'confirm' },
+      context('Mocha', 0.04, NIGHT),
+    ]);
+
+    const loaded = await loadCasesFromFile(filePath);
+    assert.deepEqual(loaded.map(testCase => [testCase.orderId, testCase.context.item, testCase.recordedDecision]), [
+      ['order_1', 'Latte', AIDecision.APPROVE],
+      ['case_1', 'Espresso', AIDecision.CONFIRM],
+      [undefined, 'Mocha', undefined],
+    ]);
+
+    const inMorning = await loadCasesFromFile(filePath, { from: MORNING - 1000 });
+    assert.equal(inMorning.length, 2);
+  });
+
+  it('names the line it cannot read', async () => {
+    const filePath = writeLines('bad.jsonl', [context('Latte', 0.03), { item: 'Latte' }]);
+    await assert.rejects(loadCasesFromFile(filePath), /bad.jsonl line 2: not an order record, backtest case or AI context/);
+  });
+});
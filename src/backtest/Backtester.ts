@@ -0,0 +1,169 @@
+import { AIDecision, AIDecisionResult } from '../ai/types';
+import { AIDecisionEngine, AIEngineConfig } from '../ai/AIDecisionEngine';
+import { CheckSetting } from '../ai/DecisionCheck';
+import { DecisionCheckRegistry, createDefaultCheckRegistry } from '../ai/DecisionCheckRegistry';
+import { validateAIConfigUpdate } from '../admin/validation';
+import { SpendingLedger } from '../store/SpendingLedger';
+import { RulesEngine } from '../rules/RulesEngine';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import {
+  BacktestCase,
+  BacktestDiff,
+  BacktestReport,
+  CandidateInput,
+  CandidateValidation,
+  DecisionCounts,
+  EngineSetup,
+} from './types';
+
+/**
+ * Backtester - Replays recorded requests through engine configurations
+ *
+ * Each run builds two fresh engines (baseline and candidate) that share
+ * the ledger, rules, schedule and menu read-only, so replaying never touches live state.
+ * Both see exactly the same contexts, so every difference in the report
+ * comes from the configuration change alone.
+ */
+export class Backtester {
+  private ledger: SpendingLedger;
+  private rules: RulesEngine;
+  private schedule: BusinessSchedule;
+  private menu: MenuCatalog;
+
+  constructor(ledger: SpendingLedger, rules: RulesEngine, schedule: BusinessSchedule, menu: MenuCatalog) {
+    this.ledger = ledger;
+    this.rules = rules;
+    this.schedule = schedule;
+    this.menu = menu;
+  }
+
+  /**
+   * Replay cases (oldest first) and compare the two configurations
+   * The candidate inherits any baseline setting it doesn't override.
+   */
+  async run(cases: BacktestCase[], baseline: EngineSetup, candidate: EngineSetup): Promise<BacktestReport> {
+    const startTime = Date.now();
+    const candidateSetup: EngineSetup = {
+      config: { ...baseline.config, ...candidate.config },
+      checks: candidate.checks ?? baseline.checks,
+    };
+    const baselineEngine = this.createEngine(baseline);
+    const candidateEngine = this.createEngine(candidateSetup);
+
+    const ordered = [...cases].sort((a, b) => a.context.currentTime - b.context.currentTime);
+    const baselineCounts = emptyCounts();
+    const candidateCounts = emptyCounts();
+    const changed: BacktestDiff[] = [];
+
+    for (const testCase of ordered) {
+      const before = await baselineEngine.evaluate(testCase.context);
+      const after = await candidateEngine.evaluate(testCase.context);
+      baselineCounts[before.decision]++;
+      candidateCounts[after.decision]++;
+
+      if (before.decision !== after.decision) {
+        changed.push(createDiff(testCase, before, after));
+      }
+    }
+
+    const baselineRate = approvalRate(baselineCounts, ordered.length);
+    const candidateRate = approvalRate(candidateCounts, ordered.length);
+
+    return {
+      total: ordered.length,
+      baseline,
+      candidate: candidateSetup,
+      decisions: {
+        baseline: baselineCounts,
+        candidate: candidateCounts,
+      },
+      approvalRate: {
+        baseline: baselineRate,
+        candidate: candidateRate,
+        change: Math.round((candidateRate - baselineRate) * 10000) / 10000,
+      },
+      changed,
+      newlyRejected: changed.filter(diff => diff.candidate.decision === AIDecision.REJECT),
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Check a candidate before running it, and type it
+   * Uses the same validation as PUT /admin/ai-config, so anything that
+   * backtests cleanly can be applied as-is.
+   */
+  validate(candidate: CandidateInput, baseline: EngineSetup): CandidateValidation {
+    const { config = {}, checks } = candidate;
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      return { valid: false, reason: 'config must be a JSON object' };
+    }
+
+    const hasConfig = Object.keys(config).length > 0;
+    if (!hasConfig && checks === undefined) {
+      return { valid: false, reason: 'Give a candidate config and/or checks' };
+    }
+
+    let changes: Partial<AIEngineConfig> = {};
+    if (hasConfig) {
+      const current = this.createEngine(baseline).getConfig();
+      const result = validateAIConfigUpdate(config, current);
+      if (!result.valid) {
+        return { valid: false, reason: result.reason };
+      }
+      changes = result.changes || {};
+    }
+
+    let settings: CheckSetting[] | undefined;
+    if (checks !== undefined) {
+      if (!Array.isArray(checks)) {
+        return { valid: false, reason: 'checks must be an array of check settings' };
+      }
+      // configure() checks each entry's shape at runtime
+      const result = new DecisionCheckRegistry().configure(checks as CheckSetting[]);
+      if (!result.valid) {
+        return { valid: false, reason: result.reason };
+      }
+      settings = checks as CheckSetting[];
+    }
+
+    return { valid: true, setup: { config: changes, checks: settings } };
+  }
+
+  private createEngine(setup: EngineSetup): AIDecisionEngine {
+    const engine = new AIDecisionEngine(setup.config, this.ledger, this.rules, createDefaultCheckRegistry(setup.checks), this.schedule, this.menu);
+    engine.setLogging(false);
+    return engine;
+  }
+}
+
+function createDiff(testCase: BacktestCase, before: AIDecisionResult, after: AIDecisionResult): BacktestDiff {
+  const { context } = testCase;
+  return {
+    orderId: testCase.orderId,
+    userAddress: context.userAddress,
+    item: context.item,
+    price: context.price,
+    currentTime: context.currentTime,
+    recordedDecision: testCase.recordedDecision,
+    baseline: { decision: before.decision, confidence: before.confidence },
+    candidate: { decision: after.decision, confidence: after.confidence },
+    reasons: after.reasoning
+      .filter(step => step.result !== 'pass')
+      .map(step => `[${step.check}] ${step.detail}`),
+  };
+}
+
+function emptyCounts(): DecisionCounts {
+  return {
+    [AIDecision.APPROVE]: 0,
+    [AIDecision.CONFIRM]: 0,
+    [AIDecision.DELAY]: 0,
+    [AIDecision.REJECT]: 0,
+  };
+}
+
+function approvalRate(counts: DecisionCounts, total: number): number {
+  return total === 0 ? 0 : Math.round((counts[AIDecision.APPROVE] / total) * 10000) / 10000;
+}
@@ -0,0 +1,168 @@
+import { config } from '../config';
+import { AIDecision } from '../ai/types';
+import { createOrderRepository, createSpendingLedger } from '../store';
+import { createRulesEngine } from '../rules';
+import { createBusinessSchedule } from '../schedule';
+import { createMenuCatalog } from '../menu';
+import { Backtester } from './Backtester';
+import { loadCasesFromFile, loadCasesFromRepository } from './sources';
+import { BacktestReport, EngineSetup } from './types';
+
+/**
+ * Backtest command - What would a config change have done to past orders?
+ *
+ * Usage:
+ *   npm run backtest -- --config '{"autoApproveThreshold": 0.85}'
+ *   npm run backtest -- --checks '[{"id": "businessHours", "enabled": false}]' --from 2026-01-01
+ *   npm run backtest -- --file ./contexts.jsonl --config '{"maxSinglePayment": 0.5}' --json
+ *
+ * Without --file, replays the order store (ORDER_STORE / DATA_DIR).
+ * The baseline is the configuration from .env.
+ */
+
+const USAGE = 'Usage: npm run backtest -- [--config <json>] [--checks <json>] [--file <jsonl>] [--from <date>] [--to <date>] [--json]';
+
+interface CliOptions {
+  config?: unknown;
+  checks?: unknown;
+  file?: string;
+  from?: number;
+  to?: number;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    const value = args[i + 1];
+
+    switch (flag) {
+      case '--json':
+        options.json = true;
+        continue;
+      case '--config':
+        options.config = parseJson(flag, value);
+        break;
+      case '--checks':
+        options.checks = parseJson(flag, value);
+        break;
+      case '--file':
+        options.file = value;
+        break;
+      case '--from':
+      case '--to': {
+        const time = /^\d+$/.test(value || '') ? Number(value) : Date.parse(value || '');
+        if (Number.isNaN(time)) {
+          throw new Error(`${flag} needs epoch milliseconds or an ISO date`);
+        }
+        options[flag === '--from' ? 'from' : 'to'] = time;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option "${flag}"\n${USAGE}`);
+    }
+
+    if (value === undefined) {
+      throw new Error(`${flag} needs a value\n${USAGE}`);
+    }
+    i++;
+  }
+
+  return options;
+}
+
+function parseJson(flag: string, value: string | undefined): unknown {
+  try {
+    return JSON.parse(value || '');
+  } catch {
+    throw new Error(`${flag} must be valid JSON`);
+  }
+}
+
+function printReport(report: BacktestReport): void {
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+  console.log('\n═══════════════════════════════════════════════════════');
+  console.log('  📊 Backtest Report');
+  console.log('═══════════════════════════════════════════════════════');
+  console.log(`\n  Orders replayed: ${report.total}`);
+  console.log(`  Candidate config: ${JSON.stringify(report.candidate.config)}`);
+  if (report.candidate.checks && report.candidate.checks.length > 0) {
+    console.log(`  Candidate checks: ${JSON.stringify(report.candidate.checks)}`);
+  }
+
+  console.log('\n  Decision      Baseline  Candidate');
+  for (const decision of Object.values(AIDecision)) {
+    const before = report.decisions.baseline[decision];
+    const after = report.decisions.candidate[decision];
+    console.log(`  ${decision.padEnd(12)}  ${String(before).padStart(8)}  ${String(after).padStart(9)}`);
+  }
+
+  const sign = report.approvalRate.change > 0 ? '+' : '';
+  console.log(`\n  Approval rate: ${percent(report.approvalRate.baseline)} → ${percent(report.approvalRate.candidate)}` +
+    ` (${sign}${(report.approvalRate.change * 100).toFixed(1)} pts)`);
+  console.log(`  Decisions changed: ${report.changed.length}`);
+
+  if (report.newlyRejected.length > 0) {
+    console.log(`\n  ❌ Newly rejected (${report.newlyRejected.length}):`);
+    for (const diff of report.newlyRejected) {
+      console.log(`    ${diff.orderId || new Date(diff.currentTime).toISOString()} ${diff.item} ${diff.price} USDT` +
+        ` (was ${diff.baseline.decision})`);
+      diff.reasons.forEach(reason => console.log(`      → ${reason}`));
+    }
+  }
+
+  const otherChanges = report.changed.filter(diff => diff.candidate.decision !== AIDecision.REJECT);
+  if (otherChanges.length > 0) {
+    console.log(`\n  🔄 Other changes (${otherChanges.length}):`);
+    for (const diff of otherChanges) {
+      console.log(`    ${diff.orderId || new Date(diff.currentTime).toISOString()} ${diff.item} ${diff.price} USDT:` +
+        ` ${diff.baseline.decision} → ${diff.candidate.decision}`);
+    }
+  }
+
+  console.log('═══════════════════════════════════════════════════════\n');
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const range = { from: options.from, to: options.to };
+
+  const baseline: EngineSetup = {
+    config: {
+      maxSinglePayment: config.multiAgent.maxSinglePayment,
+      maxDailySpending: config.multiAgent.maxDailySpending,
+    },
+    checks: config.multiAgent.aiChecks,
+  };
+  const schedule = createBusinessSchedule();
+  const ledger = createSpendingLedger(schedule);
+  const rules = createRulesEngine();
+  rules.stop();
+  const backtester = new Backtester(ledger, rules, schedule, createMenuCatalog());
+
+  const validation = backtester.validate({ config: options.config, checks: options.checks }, baseline);
+  if (!validation.valid || !validation.setup) {
+    throw new Error(validation.reason);
+  }
+  const candidate = validation.setup;
+
+  const cases = options.file
+    ? await loadCasesFromFile(options.file, range)
+    : await loadCasesFromRepository(createOrderRepository(), range);
+  console.log(`📼 Replaying ${cases.length} recorded request(s)...`);
+
+  const report = await backtester.run(cases, baseline, candidate);
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ Backtest failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,10 @@
+/**
+ * Backtest Exports
+ *
+ * Replays recorded AI contexts through a candidate engine configuration
+ * to see how a threshold or check change would have affected past traffic.
+ */
+
+export * from './types';
+export { Backtester } from './Backtester';
+export { loadCasesFromRepository, loadCasesFromFile, BacktestRange } from './sources';
@@ -0,0 +1,101 @@
+import { AIContext, AIDecision } from '../ai/types';
+import { OrderRecord, OrderRepository } from '../store/types';
+import { readJsonl } from '../store/jsonl';
+import { BacktestCase } from './types';
+
+/**
+ * Time range of recorded requests to replay
+ */
+export interface BacktestRange {
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Collect the AI contexts recorded with stored orders
+ * Orders stopped before the AI step (no context) are skipped.
+ */
+export async function loadCasesFromRepository(
+  repository: OrderRepository,
+  range: BacktestRange = {}
+): Promise<BacktestCase[]> {
+  const records = await repository.findAll();
+  return records
+    .filter(record => record.aiContext && inRange(record.aiContext.currentTime, range))
+    .map(record => ({
+      orderId: record.orderId,
+      context: record.aiContext!,
+      recordedDecision: record.aiDecision?.decision,
+    }));
+}
+
+/**
+ * Read cases from a JSONL file
+ * Each line is an order record (as in orders.jsonl), a
+ * { orderId?, context, recordedDecision? } case, or a bare AIContext.
+ */
+export async function loadCasesFromFile(
+  filePath: string,
+  range: BacktestRange = {}
+): Promise<BacktestCase[]> {
+  const lines = await readJsonl<Record<string, unknown>>(filePath);
+  const cases: BacktestCase[] = [];
+
+  lines.forEach((line, index) => {
+    // Order records that never reached the AI step have nothing to replay
+    if ('statusHistory' in line && !line.aiContext) return;
+
+    const testCase = toCase(line);
+    if (!testCase) {
+      throw new Error(`${filePath} line ${index + 1}: not an order record, backtest case or AI context`);
+    }
+    if (inRange(testCase.context.currentTime, range)) {
+      cases.push(testCase);
+    }
+  });
+
+  // The order store's log repeats a record on every update - keep the latest
+  const byOrder = new Map<string, BacktestCase>();
+  const unkeyed: BacktestCase[] = [];
+  for (const testCase of cases) {
+    if (testCase.orderId) {
+      byOrder.set(testCase.orderId, testCase);
+    } else {
+      unkeyed.push(testCase);
+    }
+  }
+  return [...byOrder.values(), ...unkeyed];
+}
+
+function toCase(line: Record<string, unknown>): BacktestCase | null {
+  if (isContext(line.aiContext)) {
+    const record = line as unknown as OrderRecord;
+    return { orderId: record.orderId, context: record.aiContext!, recordedDecision: record.aiDecision?.decision };
+  }
+  if (isContext(line.context)) {
+    return {
+      orderId: typeof line.orderId === 'string' ? line.orderId : undefined,
+      context: line.context,
+      recordedDecision: line.recordedDecision as AIDecision | undefined,
+    };
+  }
+  if (isContext(line)) {
+    return { context: line };
+  }
+  return null;
+}
+
+function isContext(value: unknown): value is AIContext {
+  if (!value || typeof value !== 'object') return false;
+  const context = value as Partial<AIContext>;
+  return typeof context.intent === 'string' &&
+    typeof context.item === 'string' &&
+    typeof context.price === 'number' &&
+    typeof context.userAddress === 'string' &&
+    typeof context.currentTime === 'number';
+}
+
+function inRange(time: number, range: BacktestRange): boolean {
+  return (range.from === undefined || time >= range.from) &&
+    (range.to === undefined || time <= range.to);
+}
@@ -0,0 +1,83 @@
+/**
+ * Backtest Types
+ */
+
+import { AIContext, AIDecision } from '../ai/types';
+import { AIEngineConfig } from '../ai/AIDecisionEngine';
+import { CheckSetting } from '../ai/DecisionCheck';
+
+/**
+ * One recorded request to replay
+ */
+export interface BacktestCase {
+  orderId?: string;
+  context: AIContext;
+  recordedDecision?: AIDecision;    // What the engine decided at the time
+}
+
+/**
+ * An engine configuration to replay through
+ */
+export interface EngineSetup {
+  config: Partial<AIEngineConfig>;
+  checks?: CheckSetting[];
+}
+
+/**
+ * A candidate as given on the command line or in a request body,
+ * before validation
+ */
+export interface CandidateInput {
+  config?: unknown;
+  checks?: unknown;
+}
+
+/**
+ * Result of validating a candidate; setup is set when valid
+ */
+export interface CandidateValidation {
+  valid: boolean;
+  reason?: string;
+  setup?: EngineSetup;
+}
+
+/**
+ * Count of each decision over a replay
+ */
+export type DecisionCounts = Record<AIDecision, number>;
+
+/**
+ * An order whose decision differs between baseline and candidate
+ */
+export interface BacktestDiff {
+  orderId?: string;
+  userAddress: string;
+  item: string;
+  price: number;
+  currentTime: number;
+  recordedDecision?: AIDecision;
+  baseline: { decision: AIDecision; confidence: number };
+  candidate: { decision: AIDecision; confidence: number };
+  reasons: string[];                // Candidate's failing and warning steps
+}
+
+/**
+ * Result of replaying recorded traffic through a candidate configuration
+ */
+export interface BacktestReport {
+  total: number;
+  baseline: EngineSetup;
+  candidate: EngineSetup;
+  decisions: {
+    baseline: DecisionCounts;
+    candidate: DecisionCounts;
+  };
+  approvalRate: {
+    baseline: number;
+    candidate: number;
+    change: number;
+  };
+  changed: BacktestDiff[];          // Every order whose decision changed
+  newlyRejected: BacktestDiff[];    // Orders the candidate rejects that the baseline didn't
+  durationMs: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * Cart Exports
+ *
+ * Multi-item orders: cart lines priced server-side from the menu.
+ */
+
+export * from './types';
+export {
+  buildCart,
+  createCartLine,
+  summarizeCart,
+  describeCart,
+  describeLine,
+  roundAmount,
+  MAX_CART_LINES,
+  MAX_LINE_QUANTITY,
+} from './pricing';
@@ -0,0 +1,121 @@
+import { MenuItem } from '../menu/types';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { Cart, CartLine, CartLineRequest, CartModifier } from './types';
+
+export const MAX_CART_LINES = 20;
+export const MAX_LINE_QUANTITY = 100;
+const MAX_MODIFIERS = 10;
+
+/**
+ * Price a cart against the menu
+ * The client only says what it wants; every price, including each
+ * modifier's, is the menu's.
+ */
+export function buildCart(
+  input: unknown,
+  menu: MenuCatalog
+): { valid: boolean; reason?: string; cart?: Cart } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { valid: false, reason: 'cart must be a non-empty array of { itemId, quantity }' };
+  }
+  if (input.length > MAX_CART_LINES) {
+    return { valid: false, reason: `cart can have at most ${MAX_CART_LINES} lines` };
+  }
+
+  const lines: CartLine[] = [];
+  for (const [index, raw] of input.entries()) {
+    const request = raw as Partial<CartLineRequest>;
+    const label = `cart[${index}]`;
+    if (!request || typeof request.itemId !== 'string') {
+      return { valid: false, reason: `${label} needs an itemId` };
+    }
+
+    const entry = menu.getItem(request.itemId);
+    if (!entry) {
+      return { valid: false, reason: `${label}: unknown item "${request.itemId}"` };
+    }
+    if (!entry.available) {
+      return { valid: false, reason: `${label}: ${entry.item} is not available right now` };
+    }
+
+    const quantity = request.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      return { valid: false, reason: `${label}: quantity must be an integer from 1 to ${MAX_LINE_QUANTITY}` };
+    }
+
+    const { modifiers = [] } = request;
+    if (!Array.isArray(modifiers) || modifiers.length > MAX_MODIFIERS ||
+        modifiers.some(modifier => typeof modifier !== 'string')) {
+      return { valid: false, reason: `${label}: modifiers must be a list of up to ${MAX_MODIFIERS} modifier ids` };
+    }
+    const resolved = menu.resolveModifiers(entry, modifiers);
+    if (!resolved.valid) {
+      return { valid: false, reason: `${label}: ${resolved.reason}` };
+    }
+
+    lines.push(createCartLine(entry, quantity, resolved.modifiers));
+  }
+
+  return { valid: true, cart: summarizeCart(lines) };
+}
+
+/**
+ * Build a priced line for a menu item and its modifiers
+ */
+export function createCartLine(entry: MenuItem, quantity: number, modifiers: CartModifier[] = []): CartLine {
+  const unitPrice = roundAmount(entry.price + modifiers.reduce((sum, modifier) => sum + modifier.price, 0));
+  return {
+    itemId: entry.id,
+    item: entry.item,
+    category: entry.category,
+    quantity,
+    basePrice: entry.price,
+    modifiers: modifiers.length > 0 ? modifiers : undefined,
+    unitPrice,
+    lineTotal: roundAmount(unitPrice * quantity),
+  };
+}
+
+/**
+ * Totals for a set of priced lines
+ */
+export function summarizeCart(lines: CartLine[]): Cart {
+  return {
+    lines,
+    itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+    total: roundAmount(lines.reduce((sum, line) => sum + line.lineTotal, 0)),
+    currency: 'USDT',
+  };
+}
+
+/**
+ * Short description of a cart, e.g. "Latte" or "Latte (Large, Oat milk) ×3, Espresso ×2"
+ */
+export function describeCart(lines: CartLine[]): string {
+  if (lines.length === 1 && lines[0].quantity === 1) {
+    return describeLine(lines[0]);
+  }
+  return lines.map(line => `${describeLine(line)} ×${line.quantity}`).join(', ');
+}
+
+/**
+ * A line's item and modifiers, e.g. "Latte (Large, Oat milk, Extra shot ×2)"
+ */
+export function describeLine(line: CartLine): string {
+  if (!line.modifiers || line.modifiers.length === 0) {
+    return line.item;
+  }
+  const counts = new Map<string, number>();
+  for (const modifier of line.modifiers) {
+    counts.set(modifier.name, (counts.get(modifier.name) || 0) + 1);
+  }
+  const names = [...counts].map(([name, count]) => count > 1 ? `${name} ×${count}` : name);
+  return `${line.item} (${names.join(', ')})`;
+}
+
+/**
+ * Round a USDT amount to 6 decimals
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
@@ -0,0 +1,46 @@
+/**
+ * Cart Types
+ */
+
+/**
+ * A cart line as the client sends it - prices come from the menu
+ */
+export interface CartLineRequest {
+  itemId: string;
+  quantity?: number;            // Defaults to 1
+  modifiers?: string[];         // Modifier option ids, e.g. ["large", "oat-milk", "extra-shot"]
+}
+
+/**
+ * A modifier applied to a cart line, priced from the menu
+ */
+export interface CartModifier {
+  id: string;                   // Option id
+  name: string;                 // e.g. "Oat milk"
+  group: string;                // Group id, e.g. "milk"
+  price: number;                // Per-unit price change
+}
+
+/**
+ * A priced cart line
+ */
+export interface CartLine {
+  itemId: string;
+  item: string;                 // Menu name
+  category: string;
+  quantity: number;
+  basePrice: number;            // Menu price of the item
+  modifiers?: CartModifier[];
+  unitPrice: number;            // basePrice + modifier prices
+  lineTotal: number;            // unitPrice × quantity
+}
+
+/**
+ * A priced cart - the total is what the order pays
+ */
+export interface Cart {
+  lines: CartLine[];
+  itemCount: number;            // Units across all lines
+  total: number;
+  currency: string;
+}
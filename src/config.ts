@@ -1,9 +1,46 @@
 import dotenv from 'dotenv';
-import { MultiAgentConfig, AgentRole } from './agents/types';
+import { MultiAgentConfig, AgentRole, SpendingLimit } from './agents/types';
+import { CheckSetting } from './ai/DecisionCheck';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Parse an optional number from the environment
+ */
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  return value ? parseFloat(value) : undefined;
+}
+
+/**
+ * Parse a JSON map of limits from the environment,
+ * e.g. MERCHANT_LIMITS='{"0xabc...": {"maxDailySpending": 5}}'
+ */
+function parseLimitMap(name: string): Record<string, SpendingLimit> | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as Record<string, SpendingLimit>;
+  } catch {
+    throw new Error(`${name} must be a JSON object of limits`);
+  }
+}
+
+/**
+ * Parse AI_CHECKS, e.g. '[{"id": "businessHours", "enabled": false}]'
+ */
+function parseCheckSettings(): CheckSetting[] {
+  const value = process.env.AI_CHECKS;
+  if (!value) return [];
+  try {
+    const settings = JSON.parse(value);
+    if (!Array.isArray(settings)) throw new Error('not an array');
+    return settings as CheckSetting[];
+  } catch {
+    throw new Error('AI_CHECKS must be a JSON array of { id, enabled?, weightMultiplier? }');
+  }
+}
+
 /**
  * Application configuration
  * All sensitive values are loaded from environment variables
@@ -36,6 +73,8 @@ export const config = {
   payment: {
     // Default merchant address (can be overridden in orders)
     defaultMerchantAddress: process.env.MERCHANT_ADDRESS || '',
+    // Tip jar - tips are paid here in their own transfer (empty: tips go to the merchant)
+    tipRecipientAddress: process.env.TIP_RECIPIENT_ADDRESS || '',
     // Token decimals for USDT (Kite Testnet Test USD uses 18 decimals)
     tokenDecimals: 18,
   },
@@ -50,6 +89,74 @@ export const config = {
     approvalThreshold: parseFloat(process.env.APPROVAL_THRESHOLD || '0.5'),
     maxSinglePayment: parseFloat(process.env.MAX_SINGLE_PAYMENT || '1.0'),
     maxDailySpending: parseFloat(process.env.MAX_DAILY_SPENDING || '10.0'),
+    // Tip caps - a fixed amount and a share of the order price
+    maxTipAmount: parseFloat(process.env.MAX_TIP_AMOUNT || '0.1'),
+    maxTipPercent: parseFloat(process.env.MAX_TIP_PERCENT || '30'),
+    // Daily limit window: 'rolling' (last 24h) or 'calendar_day' (since the shop's midnight)
+    spendingWindow: process.env.SPENDING_WINDOW || 'rolling',
+    // Scoped limits - per user, per merchant address, per item category
+    userLimit: {
+      maxSinglePayment: parseOptionalNumber(process.env.MAX_USER_SINGLE_PAYMENT),
+      maxDailySpending: parseOptionalNumber(process.env.MAX_USER_DAILY_SPENDING),
+    } as SpendingLimit,
+    userLimitOverrides: parseLimitMap('USER_LIMITS'),
+    merchantLimits: parseLimitMap('MERCHANT_LIMITS'),
+    categoryLimits: parseLimitMap('CATEGORY_LIMITS'),
+    // AI decision checks - order, enable/disable, re-weight
+    aiChecks: parseCheckSettings(),
+    // Confirmation tokens for orders the AI holds for review
+    confirmationTtlSeconds: parseInt(process.env.CONFIRMATION_TTL_SECONDS || '300', 10),
+    confirmationSecret: process.env.CONFIRMATION_SECRET || '',
+  },
+
+  // Policy rules file (JSON), reloaded when it changes
+  rules: {
+    filePath: process.env.POLICY_RULES_FILE || './rules/policy.json',
+    reloadIntervalMs: parseInt(process.env.POLICY_RULES_RELOAD_MS || '2000', 10),
+  },
+
+  // Menu catalog (JSON) - item ids, prices, categories, availability
+  menu: {
+    filePath: process.env.MENU_FILE || './rules/menu.json',
+  },
+
+  // Promotions (JSON) - coupon codes, discounts and happy hours
+  promotions: {
+    filePath: process.env.PROMOTIONS_FILE || './rules/promotions.json',
+  },
+
+  // Shop opening hours (JSON); SHOP_TIMEZONE overrides the file's timezone
+  schedule: {
+    filePath: process.env.SHOP_SCHEDULE_FILE || './rules/schedule.json',
+    timezone: process.env.SHOP_TIMEZONE || '',
+  },
+
+  // LLM review of AI decisions (OpenAI-compatible API; empty baseUrl disables it)
+  llm: {
+    baseUrl: process.env.LLM_BASE_URL || '',
+    apiKey: process.env.LLM_API_KEY || '',
+    model: process.env.LLM_MODEL || 'gpt-4o-mini',
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '3000', 10),
+  },
+
+  // Natural-language ordering (POST /order/nl): 'grammar' or 'llm'
+  nl: {
+    parser: process.env.ORDER_PARSER || 'grammar',
+  },
+
+  // Admin API - "name:token" pairs, comma separated (empty disables the API)
+  admin: {
+    tokens: process.env.ADMIN_TOKENS || '',
+  },
+
+  // Persistence configuration
+  storage: {
+    // Order store driver: 'file' (JSONL under dataDir) or 'memory'
+    driver: process.env.ORDER_STORE || 'file',
+    // Directory for persisted data files
+    dataDir: process.env.DATA_DIR || './data',
+    // How long an Idempotency-Key protects against duplicate orders
+    idempotencyTtlSeconds: parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10),
   },
 };
 
@@ -76,6 +183,16 @@ export function getMultiAgentConfig(): MultiAgentConfig {
     approvalThreshold: config.multiAgent.approvalThreshold,
     maxSinglePayment: config.multiAgent.maxSinglePayment,
     maxDailySpending: config.multiAgent.maxDailySpending,
+    maxTipAmount: config.multiAgent.maxTipAmount,
+    maxTipPercent: config.multiAgent.maxTipPercent,
+    userLimit: config.multiAgent.userLimit,
+    userLimitOverrides: config.multiAgent.userLimitOverrides,
+    merchantLimits: config.multiAgent.merchantLimits,
+    categoryLimits: config.multiAgent.categoryLimits,
+    aiChecks: config.multiAgent.aiChecks,
+    reasoningTimeoutMs: config.llm.timeoutMs,
+    confirmationTtlSeconds: config.multiAgent.confirmationTtlSeconds,
+    confirmationSecret: config.multiAgent.confirmationSecret || undefined,
   };
 }
 
@@ -0,0 +1,113 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Inventory, getStockRequests } from './Inventory';
+import { StockRequest } from './types';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { createCartLine } from '../cart/pricing';
+
+const menu = new MenuCatalog({
+  items: [
+    { id: 'pour-over', item: 'Pour Over', price: 0.04, currency: 'USDT', category: 'coffee', available: true, stock: 3 },
+    { id: 'latte', item: 'Latte', price: 0.03, currency: 'USDT', category: 'coffee', available: true },
+    { id: 'mocha', item: 'Mocha', price: 0.04, currency: 'USDT', category: 'coffee', available: false },
+    { id: 'croissant', item: 'Croissant', price: 0.02, currency: 'USDT', category: 'food', available: true, stock: 0 },
+    { id: 'muffin', item: 'Muffin', price: 0.02, currency: 'USDT', category: 'food', available: true },
+  ],
+});
+
+const pourOver = (quantity: number): StockRequest[] => [{ itemId: 'pour-over', item: 'Pour Over', quantity }];
+
+describe('Inventory', () => {
+  it('holds stock for an order until it commits or releases', async () => {
+    const inventory = new Inventory({ 'pour-over': 3 });
+
+    assert.deepEqual(await inventory.reserve('order_1', pourOver(2)), []);
+    assert.deepEqual(await inventory.getLevel('pour-over'), { itemId: 'pour-over', onHand: 3, reserved: 2, available: 1 });
+    assert.deepEqual(await inventory.check(pourOver(2)), [{ itemId: 'pour-over', item: 'Pour Over', quantity: 2, available: 1 }]);
+
+    await inventory.commit('order_1');
+    assert.deepEqual(await inventory.getLevel('pour-over'), { itemId: 'pour-over', onHand: 1, reserved: 0, available: 1 });
+
+    assert.deepEqual(await inventory.reserve('order_2', pourOver(1)), []);
+    inventory.release('order_2');
+    assert.deepEqual(await inventory.getLevel('pour-over'), { itemId: 'pour-over', onHand: 1, reserved: 0, available: 1 });
+  });
+
+  it('reserves all of an order or none of it', async () => {
+    const inventory = new Inventory({ 'pour-over': 3, croissant: 1 });
+    const shortages = await inventory.reserve('order_1', [
+      ...pourOver(1),
+      { itemId: 'croissant', item: 'Croissant', quantity: 2 },
+    ]);
+
+    assert.deepEqual(shortages, [{ itemId: 'croissant', item: 'Croissant', quantity: 2, available: 1 }]);
+    assert.deepEqual((await inventory.getLevels()).map(level => level.reserved), [0, 0]);
+  });
+
+  it('replaces an order\'s reservation when it reserves again', async () => {
+    const inventory = new Inventory({ 'pour-over': 3 });
+    await inventory.reserve('order_1', pourOver(3));
+    assert.deepEqual(await inventory.reserve('order_1', pourOver(1)), []);
+    assert.equal((await inventory.getLevel('pour-over'))?.available, 2);
+  });
+
+  it('never runs out of untracked items, and commits nothing for them', async () => {
+    const inventory = new Inventory({ 'pour-over': 3 });
+    assert.deepEqual(await inventory.reserve('order_1', [{ itemId: 'latte', item: 'Latte', quantity: 100 }]), []);
+    await inventory.commit('order_1');
+    assert.equal(await inventory.getLevel('latte'), undefined);
+  });
+
+  it('offers available, in-stock alternatives from the same category first', async () => {
+    const inventory = new Inventory({ 'pour-over': 3, croissant: 0 });
+    const alternatives = await inventory.findAlternatives('croissant', menu);
+    assert.deepEqual(alternatives.map(entry => entry.id), ['muffin', 'pour-over', 'latte']);
+  });
+
+  describe('with a movement log', () => {
+    let dir: string;
+
+    // The load message would interleave with the test runner's own output
+    before(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'inventory-'));
+      mock.method(console, 'log', () => undefined);
+    });
+
+    after(() => {
+      mock.restoreAll();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps sales and adjustments across restarts, but not reservations', async () => {
+      const filePath = path.join(dir, 'stock.jsonl');
+      const inventory = new Inventory({ 'pour-over': 3 }, filePath);
+      await inventory.reserve('order_1', pourOver(1));
+      await inventory.commit('order_1');
+      assert.deepEqual(await inventory.setStock('croissant', 5), { from: undefined, to: 5 });
+      await inventory.reserve('order_2', pourOver(1));
+
+      const restarted = new Inventory({ 'pour-over': 3 }, filePath);
+      assert.deepEqual(await restarted.getLevels(), [
+        { itemId: 'pour-over', onHand: 2, reserved: 0, available: 2 },
+        { itemId: 'croissant', onHand: 5, reserved: 0, available: 5 },
+      ]);
+    });
+  });
+});
+
+describe('getStockRequests', () => {
+  it('adds up cart lines of the same item and skips items not on the menu', () => {
+    const entry = menu.getItem('pour-over')!;
+    const lines = [createCartLine(entry, 1), createCartLine(menu.getItem('latte')!, 2), createCartLine(entry, 2)];
+
+    assert.deepEqual(getStockRequests(menu, { item: 'Pour Over', quantity: 5, lines }), [
+      { itemId: 'pour-over', item: 'Pour Over', quantity: 3 },
+      { itemId: 'latte', item: 'Latte', quantity: 2 },
+    ]);
+    assert.deepEqual(getStockRequests(menu, { item: 'pour over', quantity: 2 }), pourOver(2));
+    assert.deepEqual(getStockRequests(menu, { item: 'Flat White', quantity: 1 }), []);
+  });
+});
@@ -0,0 +1,213 @@
+import { appendJsonl, readJsonl } from '../store/jsonl';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { MenuItem } from '../menu/types';
+import { CartLine } from '../cart/types';
+import { StockLevel, StockMovement, StockRequest, StockShortage } from './types';
+
+/**
+ * Inventory - Stock on hand, and stock held by orders in the pipeline
+ *
+ * Only items with a stock level are tracked; the rest never run out.
+ * Stock on hand is the opening stock plus every movement since: sales
+ * of completed orders and admin adjustments. With a file path the
+ * movements are appended to a JSONL log and replayed on first use, so
+ * sales survive restarts; without one the inventory is in-memory.
+ *
+ * Reservations are in-memory only - they live as long as the pipeline
+ * run that made them. An order reserves before Reception and either
+ * commits (payment completed) or releases (rejected or failed).
+ */
+export class Inventory {
+  private filePath: string | null;
+  private onHand: Map<string, number>;
+  private reservations: Map<string, StockRequest[]> = new Map();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(openingStock: Record<string, number> = {}, filePath: string | null = null) {
+    this.onHand = new Map(Object.entries(openingStock));
+    this.filePath = filePath;
+  }
+
+  /**
+   * Replay the movement log into memory (once)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        if (!this.filePath) return;
+        const movements = await readJsonl<StockMovement>(this.filePath);
+        for (const movement of movements) {
+          this.apply(movement);
+        }
+        console.log(`📦 Loaded ${movements.length} stock movement(s) from ${this.filePath}`);
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Stock of an item (undefined if the item is not tracked)
+   */
+  async getLevel(itemId: string): Promise<StockLevel | undefined> {
+    await this.load();
+    return this.toLevel(itemId);
+  }
+
+  /**
+   * Stock of every tracked item
+   */
+  async getLevels(): Promise<StockLevel[]> {
+    await this.load();
+    return [...this.onHand.keys()].map(itemId => this.toLevel(itemId)!);
+  }
+
+  /**
+   * What an order would be short of, if it ran now (empty if nothing)
+   */
+  async check(requests: StockRequest[]): Promise<StockShortage[]> {
+    await this.load();
+    return this.findShortages(requests);
+  }
+
+  /**
+   * Hold stock for an order - all of it or none
+   * Returns the shortages that stopped the reservation (empty on success).
+   * Reserving again for the same order replaces its reservation.
+   */
+  async reserve(orderId: string, requests: StockRequest[]): Promise<StockShortage[]> {
+    await this.load();
+    this.reservations.delete(orderId);
+
+    const shortages = this.findShortages(requests);
+    if (shortages.length > 0) {
+      return shortages;
+    }
+
+    const tracked = requests.filter(request => this.onHand.has(request.itemId));
+    if (tracked.length > 0) {
+      this.reservations.set(orderId, tracked);
+    }
+    return [];
+  }
+
+  /**
+   * Give an order's reserved stock back
+   */
+  release(orderId: string): void {
+    this.reservations.delete(orderId);
+  }
+
+  /**
+   * Turn an order's reservation into sales
+   */
+  async commit(orderId: string): Promise<void> {
+    const reserved = this.reservations.get(orderId);
+    if (!reserved) return;
+    this.reservations.delete(orderId);
+
+    const timestamp = Date.now();
+    await this.record(reserved.map(request => ({
+      itemId: request.itemId,
+      change: -request.quantity,
+      reason: 'sale' as const,
+      orderId,
+      timestamp,
+    })));
+  }
+
+  /**
+   * Set an item's stock on hand (e.g. after a delivery or a count)
+   * Starts tracking the item if it wasn't tracked.
+   */
+  async setStock(itemId: string, onHand: number): Promise<{ from?: number; to: number }> {
+    await this.load();
+    const from = this.onHand.get(itemId);
+    await this.record([{
+      itemId,
+      change: onHand - (from || 0),
+      reason: 'adjustment',
+      timestamp: Date.now(),
+    }]);
+    return { from, to: onHand };
+  }
+
+  /**
+   * Menu items to offer instead of a sold-out one
+   * Available, in stock and not the item itself; same category first.
+   */
+  async findAlternatives(itemId: string, menu: MenuCatalog, limit: number = 3): Promise<MenuItem[]> {
+    await this.load();
+    const category = menu.getItem(itemId)?.category;
+    const candidates = menu.getItems().filter(entry =>
+      entry.id !== itemId &&
+      entry.available &&
+      (this.toLevel(entry.id)?.available ?? Infinity) > 0
+    );
+    return [
+      ...candidates.filter(entry => entry.category === category),
+      ...candidates.filter(entry => entry.category !== category),
+    ].slice(0, limit);
+  }
+
+  private async record(movements: StockMovement[]): Promise<void> {
+    movements.forEach(movement => this.apply(movement));
+
+    if (this.filePath) {
+      const filePath = this.filePath;
+      const write = this.writeQueue.then(async () => {
+        for (const movement of movements) {
+          await appendJsonl(filePath, movement);
+        }
+      });
+      this.writeQueue = write.catch(() => undefined);
+      await write;
+    }
+  }
+
+  private apply(movement: StockMovement): void {
+    this.onHand.set(movement.itemId, (this.onHand.get(movement.itemId) || 0) + movement.change);
+  }
+
+  private findShortages(requests: StockRequest[]): StockShortage[] {
+    return requests
+      .map(request => ({ ...request, available: this.toLevel(request.itemId)?.available ?? Infinity }))
+      .filter(request => request.quantity > request.available);
+  }
+
+  private toLevel(itemId: string): StockLevel | undefined {
+    const onHand = this.onHand.get(itemId);
+    if (onHand === undefined) return undefined;
+
+    let reserved = 0;
+    for (const requests of this.reservations.values()) {
+      reserved += requests
+        .filter(request => request.itemId === itemId)
+        .reduce((sum, request) => sum + request.quantity, 0);
+    }
+    return { itemId, onHand, reserved, available: Math.max(0, onHand - reserved) };
+  }
+}
+
+/**
+ * Stock an order needs, one request per menu item
+ * Cart lines of the same item (e.g. with different modifiers) add up.
+ * Items that aren't on the menu are left to the menu checks.
+ */
+export function getStockRequests(
+  menu: MenuCatalog,
+  order: { item: string; quantity: number; lines?: CartLine[] }
+): StockRequest[] {
+  const wanted = order.lines
+    ? order.lines.map(line => ({ entry: menu.getItem(line.itemId), quantity: line.quantity }))
+    : [{ entry: menu.findItem(order.item), quantity: order.quantity }];
+
+  const requests = new Map<string, StockRequest>();
+  for (const { entry, quantity } of wanted) {
+    if (!entry) continue;
+    const request = requests.get(entry.id) || { itemId: entry.id, item: entry.item, quantity: 0 };
+    request.quantity += quantity;
+    requests.set(entry.id, request);
+  }
+  return [...requests.values()];
+}
@@ -0,0 +1,27 @@
+import path from 'path';
+import { config } from '../config';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { Inventory } from './Inventory';
+
+/**
+ * Create the inventory from the menu's opening stock
+ * Stock movements are kept next to the spending ledger unless
+ * ORDER_STORE=memory.
+ */
+export function createInventory(menu: MenuCatalog): Inventory {
+  const openingStock = Object.fromEntries(
+    menu.getItems()
+      .filter(entry => entry.stock !== undefined)
+      .map(entry => [entry.id, entry.stock as number])
+  );
+  const tracked = Object.keys(openingStock).length;
+
+  if (config.storage.driver === 'memory') {
+    console.log(`📦 Inventory: in-memory, ${tracked} tracked item(s) (stock resets on restart)`);
+    return new Inventory(openingStock, null);
+  }
+
+  const filePath = path.join(config.storage.dataDir, 'inventory.jsonl');
+  console.log(`📦 Inventory: ${filePath}, ${tracked} tracked item(s)`);
+  return new Inventory(openingStock, filePath);
+}
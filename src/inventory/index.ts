@@ -0,0 +1,10 @@
+/**
+ * Inventory Exports
+ *
+ * Stock levels for menu items, held while an order is in the pipeline
+ * and taken when it completes.
+ */
+
+export * from './types';
+export { Inventory, getStockRequests } from './Inventory';
+export { createInventory } from './createInventory';
@@ -0,0 +1,42 @@
+/**
+ * Inventory Types
+ */
+
+/**
+ * A change to an item's stock on hand
+ * - sale: a completed order took the stock
+ * - adjustment: an admin counted or restocked
+ */
+export interface StockMovement {
+  itemId: string;
+  change: number;               // Negative for sales
+  reason: 'sale' | 'adjustment';
+  orderId?: string;             // Set for sales
+  timestamp: number;
+}
+
+/**
+ * Stock of one tracked item
+ */
+export interface StockLevel {
+  itemId: string;
+  onHand: number;
+  reserved: number;             // Held by orders in the pipeline
+  available: number;            // onHand - reserved
+}
+
+/**
+ * Units of one item an order needs
+ */
+export interface StockRequest {
+  itemId: string;
+  item: string;                 // Menu name, for messages
+  quantity: number;
+}
+
+/**
+ * An item an order wants more of than is available
+ */
+export interface StockShortage extends StockRequest {
+  available: number;
+}
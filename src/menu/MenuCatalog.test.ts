@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MenuCatalog, validateMenu } from './MenuCatalog';
+import { MenuFile } from './types';
+import { buildCart, createCartLine, describeCart } from '../cart/pricing';
+import { CartLine } from '../cart/types';
+
+const menuFile: MenuFile = {
+  items: [
+    { id: 'latte', item: 'Latte', price: 0.03, currency: 'USDT', category: 'coffee', available: true, modifiers: ['size', 'milk', 'shots'] },
+    { id: 'espresso', item: 'Espresso', price: 0.02, currency: 'USDT', category: 'coffee', available: true, modifiers: ['shots'] },
+    { id: 'seasonal', item: 'Seasonal Special', price: 0.05, currency: 'USDT', category: 'specialty', available: false },
+  ],
+  modifierGroups: [
+    { id: 'size', name: 'Size', max: 1, options: [
+      { id: 'small', name: 'Small', price: -0.005 },
+      { id: 'large', name: 'Large', price: 0.01 },
+    ] },
+    { id: 'milk', name: 'Milk', max: 1, options: [{ id: 'oat-milk', name: 'Oat milk', price: 0.005 }] },
+    { id: 'shots', name: 'Extra shots', max: 3, options: [{ id: 'extra-shot', name: 'Extra shot', price: 0.008 }] },
+  ],
+};
+
+const menu = new MenuCatalog(menuFile);
+const latte = menu.getItem('latte')!;
+
+describe('MenuCatalog', () => {
+  it('finds items by name in any case, or by id', () => {
+    assert.equal(menu.findItem('  LATTE ')?.id, 'latte');
+    assert.equal(menu.findItem('espresso')?.item, 'Espresso');
+    assert.equal(menu.getCategory('Seasonal Special'), 'specialty');
+    assert.equal(menu.getCategory('Muffin'), 'other');
+  });
+
+  describe('checkItem', () => {
+    it('accepts the menu price for the quantity', () => {
+      assert.deepEqual(menu.checkItem('Latte', 0.09, 3), { valid: true });
+    });
+
+    it('rejects a price the client made up', () => {
+      assert.deepEqual(menu.checkItem('Latte', 0.01, 3), {
+        valid: false,
+        reason: 'Price 0.01 USDT does not match the menu price of 0.09 USDT for Latte ×3',
+      });
+    });
+
+    it('rejects unknown and unavailable items and bad quantities', () => {
+      assert.equal(menu.checkItem('Muffin', 0.03).reason, '"Muffin" is not on the menu');
+      assert.equal(menu.checkItem('Seasonal Special', 0.05).reason, 'Seasonal Special is not available right now');
+      assert.equal(menu.checkItem('Latte', 0.045, 1.5).reason, 'Quantity must be a positive integer');
+    });
+  });
+
+  describe('modifiers', () => {
+    it('prices choices and returns them in menu order', () => {
+      const resolved = menu.resolveModifiers(latte, ['extra-shot', 'oat-milk', 'large', 'extra-shot']);
+      assert.deepEqual(resolved.modifiers?.map(modifier => modifier.id), ['large', 'oat-milk', 'extra-shot', 'extra-shot']);
+      assert.equal(createCartLine(latte, 2, resolved.modifiers).lineTotal, 0.122);
+    });
+
+    it('rejects choices the item does not take, or too many from a group', () => {
+      assert.equal(menu.resolveModifiers(menu.getItem('espresso')!, ['oat-milk']).reason, '"oat-milk" is not a modifier for Espresso');
+      assert.equal(menu.resolveModifiers(latte, ['small', 'large']).reason, 'Latte: choose at most 1 from Size');
+    });
+  });
+
+  describe('checkLine', () => {
+    const line = createCartLine(latte, 1, menu.resolveModifiers(latte, ['large', 'oat-milk']).modifiers);
+
+    it('accepts a line priced from the menu', () => {
+      assert.deepEqual(menu.checkLine(line), { valid: true });
+    });
+
+    it('rejects a line whose prices or category were changed', () => {
+      const tampered: Array<[Partial<CartLine>, string]> = [
+        [{ basePrice: 0.01 }, 'Price 0.01 USDT does not match the menu price of 0.03 USDT for Latte'],
+        [{ unitPrice: 0.03 }, 'Unit price 0.03 USDT does not match the menu price of 0.045 USDT for Latte'],
+        [{ category: 'tea' }, 'Latte is in category "coffee", not "tea"'],
+        [{ item: 'Flat White' }, '"Flat White" is not on the menu'],
+        [{ modifiers: [{ ...line.modifiers![0], price: 0 }, line.modifiers![1]] }, 'Large on Latte does not match the menu'],
+      ];
+      for (const [changes, reason] of tampered) {
+        assert.deepEqual(menu.checkLine({ ...line, ...changes }), { valid: false, reason });
+      }
+    });
+  });
+
+  it('refuses an invalid menu', () => {
+    assert.equal(validateMenu({ items: [] }).reason, 'Menu has no items');
+    assert.throws(() => new MenuCatalog({ items: 'latte' } as unknown as MenuFile), /Invalid menu/);
+  });
+});
+
+describe('buildCart', () => {
+  it('prices every line from the menu', () => {
+    const result = buildCart([
+      { itemId: 'latte', quantity: 2, modifiers: ['small'] },
+      { itemId: 'espresso' },
+    ], menu);
+
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.cart?.lines.map(line => [line.itemId, line.quantity, line.unitPrice, line.lineTotal]), [
+      ['latte', 2, 0.025, 0.05],
+      ['espresso', 1, 0.02, 0.02],
+    ]);
+    assert.equal(result.cart?.itemCount, 3);
+    assert.equal(result.cart?.total, 0.07);
+    assert.equal(describeCart(result.cart!.lines), 'Latte (Small) ×2, Espresso ×1');
+  });
+
+  it('ignores any price the client sends', () => {
+    const result = buildCart([{ itemId: 'latte', price: 0.001, unitPrice: 0.001 }], menu);
+    assert.equal(result.cart?.total, 0.03);
+  });
+
+  it('says which line is wrong', () => {
+    assert.equal(buildCart([], menu).reason, 'cart must be a non-empty array of { itemId, quantity }');
+    assert.equal(buildCart([{ itemId: 'latte' }, { itemId: 'muffin' }], menu).reason, 'cart[1]: unknown item "muffin"');
+    assert.equal(buildCart([{ itemId: 'seasonal' }], menu).reason, 'cart[0]: Seasonal Special is not available right now');
+    assert.equal(buildCart([{ itemId: 'latte', quantity: 0 }], menu).reason, 'cart[0]: quantity must be an integer from 1 to 100');
+    assert.equal(buildCart([{ itemId: 'latte', modifiers: ['large', 'large'] }], menu).reason, 'cart[0]: Latte: choose at most 1 from Size');
+  });
+});
@@ -0,0 +1,335 @@
+import { MenuFile, MenuItem, ModifierGroup } from './types';
+import { CartLine, CartModifier } from '../cart/types';
+import { roundAmount } from '../cart/pricing';
+
+/**
+ * The built-in menu, used when there is no menu file
+ */
+export const DEFAULT_MENU: MenuFile = {
+  items: [
+    {
+      id: 'espresso', item: 'Espresso', price: 0.02, category: 'coffee',
+      description: 'Strong concentrated coffee', modifiers: ['shots', 'syrups'],
+    },
+    {
+      id: 'latte', item: 'Latte', price: 0.03, category: 'coffee',
+      description: 'Espresso with steamed milk', modifiers: ['size', 'milk', 'shots', 'syrups'],
+    },
+    {
+      id: 'cappuccino', item: 'Cappuccino', price: 0.04, category: 'coffee',
+      description: 'Espresso with foamed milk', modifiers: ['size', 'milk', 'shots', 'syrups'],
+    },
+    {
+      id: 'americano', item: 'Americano', price: 0.025, category: 'coffee',
+      description: 'Espresso with hot water', modifiers: ['size', 'shots', 'syrups'],
+    },
+    {
+      id: 'special-blend', item: 'Special Blend', price: 0.6, category: 'specialty',
+      description: 'Single-origin pour-over', modifiers: ['size'], stock: 20,
+    },
+    { id: 'premium-gold-coffee', item: 'Premium Gold Coffee', price: 1.5, category: 'premium', description: 'Gold-leaf espresso' },
+  ],
+  modifierGroups: [
+    {
+      id: 'size', name: 'Size', max: 1, options: [
+        { id: 'small', name: 'Small', price: -0.005 },
+        { id: 'medium', name: 'Medium', price: 0 },
+        { id: 'large', name: 'Large', price: 0.01 },
+      ],
+    },
+    {
+      id: 'milk', name: 'Milk', max: 1, options: [
+        { id: 'whole-milk', name: 'Whole milk', price: 0 },
+        { id: 'skim-milk', name: 'Skim milk', price: 0 },
+        { id: 'oat-milk', name: 'Oat milk', price: 0.005 },
+        { id: 'almond-milk', name: 'Almond milk', price: 0.005 },
+      ],
+    },
+    {
+      id: 'shots', name: 'Extra shots', max: 3, options: [
+        { id: 'extra-shot', name: 'Extra shot', price: 0.008 },
+      ],
+    },
+    {
+      id: 'syrups', name: 'Syrups', max: 2, options: [
+        { id: 'vanilla', name: 'Vanilla syrup', price: 0.004 },
+        { id: 'caramel', name: 'Caramel syrup', price: 0.004 },
+        { id: 'hazelnut', name: 'Hazelnut syrup', price: 0.004 },
+      ],
+    },
+  ],
+};
+
+/**
+ * Menu Catalog - The server's own list of items, modifiers and prices
+ *
+ * Clients only say what they want. Carts are priced from the catalog,
+ * /menu serves it, and the reception agent rejects any order whose item
+ * or modifier is not on it or whose price is not the catalog's.
+ */
+export class MenuCatalog {
+  private items: MenuItem[];
+  private modifierGroups: ModifierGroup[];
+
+  constructor(menu: MenuFile = DEFAULT_MENU) {
+    const validation = validateMenu(menu);
+    if (!validation.valid) {
+      throw new Error(`Invalid menu: ${validation.reason}`);
+    }
+    this.items = menu.items.map(entry => ({
+      ...entry,
+      currency: entry.currency || 'USDT',
+      available: entry.available ?? true,
+    }));
+    this.modifierGroups = menu.modifierGroups || [];
+  }
+
+  /**
+   * Every item on the menu, including unavailable ones
+   */
+  getItems(): MenuItem[] {
+    return this.items;
+  }
+
+  /**
+   * Every modifier group, in menu order
+   */
+  getModifierGroups(): ModifierGroup[] {
+    return this.modifierGroups;
+  }
+
+  /**
+   * Look up an item by id
+   */
+  getItem(id: string): MenuItem | undefined {
+    return this.items.find(entry => entry.id === id);
+  }
+
+  /**
+   * Look up an item by display name (case-insensitive) or id
+   */
+  findItem(name: string): MenuItem | undefined {
+    const wanted = name.trim().toLowerCase();
+    return this.items.find(entry => entry.item.toLowerCase() === wanted) || this.getItem(name.trim());
+  }
+
+  /**
+   * Category of an item (unknown items → "other")
+   */
+  getCategory(name: string): string {
+    return this.findItem(name)?.category || 'other';
+  }
+
+  /**
+   * Price a line's modifier choices for an item
+   * Choices come back in menu order, so the same choices in any order
+   * describe the same drink.
+   */
+  resolveModifiers(entry: MenuItem, optionIds: string[]): { valid: boolean; reason?: string; modifiers?: CartModifier[] } {
+    const groups = this.modifierGroups.filter(group => entry.modifiers?.includes(group.id));
+    const unknown = optionIds.find(id => !groups.some(group => group.options.some(option => option.id === id)));
+    if (unknown !== undefined) {
+      return { valid: false, reason: `"${unknown}" is not a modifier for ${entry.item}` };
+    }
+
+    const modifiers: CartModifier[] = [];
+    for (const group of groups) {
+      const picked = optionIds.filter(id => group.options.some(option => option.id === id));
+      if (picked.length > group.max) {
+        return { valid: false, reason: `${entry.item}: choose at most ${group.max} from ${group.name}` };
+      }
+      for (const option of group.options) {
+        for (const id of picked.filter(id => id === option.id)) {
+          modifiers.push({ id, name: option.name, group: group.id, price: option.price });
+        }
+      }
+    }
+
+    const unitPrice = roundAmount(entry.price + modifiers.reduce((sum, modifier) => sum + modifier.price, 0));
+    if (unitPrice <= 0) {
+      return { valid: false, reason: `${entry.item} with these modifiers has no price` };
+    }
+
+    return { valid: true, modifiers };
+  }
+
+  /**
+   * Check a single-item order (item name, total price, quantity) against the menu
+   */
+  checkItem(name: string, price: number, quantity: number = 1): { valid: boolean; reason?: string } {
+    const entry = typeof name === 'string' ? this.findItem(name) : undefined;
+    if (!entry) {
+      return { valid: false, reason: `"${name}" is not on the menu` };
+    }
+    if (!entry.available) {
+      return { valid: false, reason: `${entry.item} is not available right now` };
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return { valid: false, reason: 'Quantity must be a positive integer' };
+    }
+
+    const expected = roundAmount(entry.price * quantity);
+    if (typeof price !== 'number' || Math.abs(price - expected) > 1e-6) {
+      return {
+        valid: false,
+        reason: `Price ${price} USDT does not match the menu price of ${expected} USDT for ${entry.item} ×${quantity}`,
+      };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Check a cart line's item, category, modifiers and prices against the menu
+   */
+  checkLine(line: CartLine): { valid: boolean; reason?: string } {
+    const entry = this.getItem(line.itemId);
+    if (!entry || entry.item !== line.item) {
+      return { valid: false, reason: `"${line.item}" is not on the menu` };
+    }
+    if (!entry.available) {
+      return { valid: false, reason: `${entry.item} is not available right now` };
+    }
+    if (line.category !== entry.category) {
+      return { valid: false, reason: `${entry.item} is in category "${entry.category}", not "${line.category}"` };
+    }
+    if (Math.abs(line.basePrice - entry.price) > 1e-6) {
+      return {
+        valid: false,
+        reason: `Price ${line.basePrice} USDT does not match the menu price of ${entry.price} USDT for ${entry.item}`,
+      };
+    }
+
+    const modifiers = line.modifiers || [];
+    const resolved = this.resolveModifiers(entry, modifiers.map(modifier => modifier.id));
+    if (!resolved.valid) {
+      return resolved;
+    }
+    const changed = modifiers.find(modifier => {
+      const expected = resolved.modifiers!.find(candidate => candidate.id === modifier.id)!;
+      return modifier.name !== expected.name || modifier.group !== expected.group ||
+        Math.abs(modifier.price - expected.price) > 1e-6;
+    });
+    if (changed) {
+      return { valid: false, reason: `${changed.name} on ${entry.item} does not match the menu` };
+    }
+
+    const unitPrice = roundAmount(entry.price + modifiers.reduce((sum, modifier) => sum + modifier.price, 0));
+    if (Math.abs(line.unitPrice - unitPrice) > 1e-6) {
+      return {
+        valid: false,
+        reason: `Unit price ${line.unitPrice} USDT does not match the menu price of ${unitPrice} USDT for ${entry.item}`,
+      };
+    }
+    return { valid: true };
+  }
+}
+
+/**
+ * Validate a menu (e.g. one read from the menu file)
+ */
+export function validateMenu(raw: unknown): { valid: boolean; reason?: string } {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as MenuFile).items)) {
+    return { valid: false, reason: 'Menu must be a JSON object with an "items" array' };
+  }
+
+  const { items, modifierGroups = [] } = raw as MenuFile;
+  if (items.length === 0) {
+    return { valid: false, reason: 'Menu has no items' };
+  }
+
+  const groupValidation = validateModifierGroups(modifierGroups);
+  if (!groupValidation.valid) {
+    return groupValidation;
+  }
+  const groupIds = modifierGroups.map(group => group.id);
+
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  for (const [index, entry] of items.entries()) {
+    if (!entry || typeof entry.id !== 'string' || !/^[a-z0-9-]+$/.test(entry.id)) {
+      return { valid: false, reason: `items[${index}] needs an "id" of lowercase letters, digits and dashes` };
+    }
+    const label = `Item "${entry.id}"`;
+    if (ids.has(entry.id)) {
+      return { valid: false, reason: `${label} is listed twice` };
+    }
+    if (typeof entry.item !== 'string' || entry.item.trim() === '') {
+      return { valid: false, reason: `${label} needs a display name in "item"` };
+    }
+    if (names.has(entry.item.toLowerCase())) {
+      return { valid: false, reason: `Two items are named "${entry.item}"` };
+    }
+    if (typeof entry.price !== 'number' || !Number.isFinite(entry.price) || entry.price <= 0) {
+      return { valid: false, reason: `${label} needs a positive "price"` };
+    }
+    if (entry.currency !== undefined && entry.currency !== 'USDT') {
+      return { valid: false, reason: `${label}: only USDT prices are supported` };
+    }
+    if (typeof entry.category !== 'string' || entry.category.trim() === '') {
+      return { valid: false, reason: `${label} needs a "category"` };
+    }
+    if (entry.available !== undefined && typeof entry.available !== 'boolean') {
+      return { valid: false, reason: `${label}: "available" must be true or false` };
+    }
+    if (entry.description !== undefined && typeof entry.description !== 'string') {
+      return { valid: false, reason: `${label}: "description" must be a string` };
+    }
+    if (entry.stock !== undefined && (!Number.isInteger(entry.stock) || entry.stock < 0)) {
+      return { valid: false, reason: `${label}: "stock" must be a whole number of at least 0` };
+    }
+    if (entry.modifiers !== undefined && (
+      !Array.isArray(entry.modifiers) || entry.modifiers.some(id => !groupIds.includes(id))
+    )) {
+      return { valid: false, reason: `${label}: "modifiers" must list modifier group ids (${groupIds.join(', ') || 'none defined'})` };
+    }
+    ids.add(entry.id);
+    names.add(entry.item.toLowerCase());
+  }
+
+  return { valid: true };
+}
+
+function validateModifierGroups(groups: unknown): { valid: boolean; reason?: string } {
+  if (!Array.isArray(groups)) {
+    return { valid: false, reason: '"modifierGroups" must be an array' };
+  }
+
+  const groupIds = new Set<string>();
+  const optionIds = new Set<string>();
+  for (const [index, group] of groups.entries()) {
+    if (!group || typeof group.id !== 'string' || !/^[a-z0-9-]+$/.test(group.id)) {
+      return { valid: false, reason: `modifierGroups[${index}] needs an "id" of lowercase letters, digits and dashes` };
+    }
+    const label = `Modifier group "${group.id}"`;
+    if (groupIds.has(group.id)) {
+      return { valid: false, reason: `${label} is listed twice` };
+    }
+    if (typeof group.name !== 'string' || group.name.trim() === '') {
+      return { valid: false, reason: `${label} needs a "name"` };
+    }
+    if (!Number.isInteger(group.max) || group.max < 1) {
+      return { valid: false, reason: `${label} needs "max" as a positive integer` };
+    }
+    if (!Array.isArray(group.options) || group.options.length === 0) {
+      return { valid: false, reason: `${label} needs "options"` };
+    }
+    for (const option of group.options) {
+      if (!option || typeof option.id !== 'string' || !/^[a-z0-9-]+$/.test(option.id)) {
+        return { valid: false, reason: `${label}: every option needs an "id" of lowercase letters, digits and dashes` };
+      }
+      if (optionIds.has(option.id)) {
+        return { valid: false, reason: `Modifier option "${option.id}" is listed twice` };
+      }
+      if (typeof option.name !== 'string' || option.name.trim() === '') {
+        return { valid: false, reason: `Modifier option "${option.id}" needs a "name"` };
+      }
+      if (typeof option.price !== 'number' || !Number.isFinite(option.price)) {
+        return { valid: false, reason: `Modifier option "${option.id}" needs a "price" (0 for no change)` };
+      }
+      optionIds.add(option.id);
+    }
+    groupIds.add(group.id);
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import { config } from '../config';
+import { MenuCatalog, DEFAULT_MENU } from './MenuCatalog';
+import { MenuFile } from './types';
+
+/**
+ * Create the menu catalog from MENU_FILE
+ * A missing file means the built-in menu; an invalid one stops startup.
+ */
+export function createMenuCatalog(): MenuCatalog {
+  const { filePath } = config.menu;
+  let menu: MenuFile = DEFAULT_MENU;
+
+  try {
+    menu = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Could not parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    console.log(`☕ No menu file at ${filePath} - using the built-in menu`);
+  }
+
+  const catalog = new MenuCatalog(menu);
+  const available = catalog.getItems().filter(entry => entry.available).length;
+  console.log(`☕ Menu: ${catalog.getItems().length} item(s), ${available} available`);
+  return catalog;
+}
@@ -0,0 +1,9 @@
+/**
+ * Menu Catalog Exports
+ *
+ * The server-side menu: item ids, prices, categories and availability.
+ */
+
+export * from './types';
+export { MenuCatalog, DEFAULT_MENU, validateMenu } from './MenuCatalog';
+export { createMenuCatalog } from './createMenuCatalog';
@@ -0,0 +1,46 @@
+/**
+ * Menu Types
+ */
+
+/**
+ * A menu item and its unit price
+ */
+export interface MenuItem {
+  id: string;                   // Stable id, used by cart lines
+  item: string;                 // Display name
+  price: number;                // Unit price
+  currency: string;
+  category: string;             // e.g. "coffee" - used by category limits and policy rules
+  available: boolean;           // Unavailable items can't be ordered
+  description?: string;
+  modifiers?: string[];         // Ids of the modifier groups this item accepts
+  stock?: number;               // Opening stock; leave out for items that never run out
+}
+
+/**
+ * One choice in a modifier group, e.g. "Oat milk" for +0.005 USDT
+ */
+export interface ModifierOption {
+  id: string;                   // Unique across all groups, e.g. "oat-milk"
+  name: string;
+  price: number;                // Added to the item's unit price (may be negative)
+}
+
+/**
+ * A set of related customizations, e.g. size, milk, extra shots, syrups
+ */
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  max: number;                  // Most options a line may pick from this group (repeats count)
+  options: ModifierOption[];
+}
+
+/**
+ * The menu file: { "items": [...], "modifierGroups": [...] }
+ * Items may leave out currency (USDT) and available (true).
+ */
+export interface MenuFile {
+  items: Array<Omit<MenuItem, 'currency' | 'available'> & Partial<Pick<MenuItem, 'currency' | 'available'>>>;
+  modifierGroups?: ModifierGroup[];
+}
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GrammarOrderParser, parseOrderText, detectIntent } from './GrammarOrderParser';
+import { UserIntent } from '../ai/types';
+import { MenuItem } from '../menu/types';
+
+function menuItem(id: string, item: string, price: number): MenuItem {
+  return { id, item, price, currency: 'USDT', category: 'coffee', available: true };
+}
+
+const menu = [
+  menuItem('latte', 'Latte', 0.03),
+  menuItem('americano', 'Americano', 0.02),
+  menuItem('espresso', 'Espresso', 0.025),
+  menuItem('premium-gold', 'Premium Gold Coffee', 0.6),
+];
+
+const quantities = (text: string) => parseOrderText(text, menu).orders.map(line => [line.itemId, line.quantity]);
+
+describe('parseOrderText', () => {
+  describe('quantities', () => {
+    it('reads number words and plurals', () => {
+      const parse = parseOrderText('two lattes and an americano please', menu);
+      assert.deepEqual(parse.orders, [
+        { itemId: 'latte', item: 'Latte', quantity: 2, unitPrice: 0.03, price: 0.06, source: 'two lattes' },
+        { itemId: 'americano', item: 'Americano', quantity: 1, unitPrice: 0.02, price: 0.02, source: 'an americano' },
+      ]);
+      assert.equal(parse.subtotal, 0.08);
+    });
+
+    it('reads digits before and "x" counts after an item', () => {
+      assert.deepEqual(quantities('3 espressos'), [['espresso', 3]]);
+      assert.deepEqual(quantities('latte x2, americano × 3'), [['latte', 2], ['americano', 3]]);
+    });
+
+    it('names an item by a word only it uses', () => {
+      assert.deepEqual(quantities('a gold coffee'), [['premium-gold', 1]]);
+      assert.deepEqual(quantities('premium gold coffee'), [['premium-gold', 1]]);
+    });
+  });
+
+  it('merges repeats of the same item into one line', () => {
+    const parse = parseOrderText('a latte, an espresso and two more lattes', menu);
+    assert.deepEqual(parse.orders.map(line => [line.itemId, line.quantity, line.price]), [
+      ['latte', 3, 0.09],
+      ['espresso', 1, 0.025],
+    ]);
+    assert.equal(parse.orders[0].source, 'a latte, two more lattes');
+  });
+
+  describe('tips', () => {
+    it('works out a percentage tip from the subtotal', () => {
+      const parse = parseOrderText('two lattes with a 10% tip', menu);
+      assert.deepEqual(parse.tip, { percent: 10, amount: 0.006 });
+      assert.equal(parse.total, 0.066);
+    });
+
+    it('takes an absolute tip as written', () => {
+      const parse = parseOrderText('latte, tip 0.005 usdt', menu);
+      assert.deepEqual(parse.tip, { amount: 0.005 });
+      assert.equal(parse.total, 0.035);
+    });
+
+    it('does not read the tip as a quantity', () => {
+      assert.deepEqual(quantities('tip 2 usdt latte'), [['latte', 1]]);
+    });
+  });
+
+  describe('intent', () => {
+    it('detects repeat, urgent, bulk and tip orders', () => {
+      assert.equal(parseOrderText('my usual latte again', menu).intent, UserIntent.REPEAT_ORDER);
+      assert.equal(parseOrderText('a latte, quickly', menu).intent, UserIntent.URGENT_ORDER);
+      assert.equal(parseOrderText('six espressos', menu).intent, UserIntent.BULK_ORDER);
+      assert.equal(parseOrderText('latte and a 15% tip', menu).intent, UserIntent.CUSTOM_TIP);
+      assert.equal(parseOrderText('a latte', menu).intent, UserIntent.BUY_COFFEE);
+    });
+
+    it('ranks repeat over urgency over bulk over a tip', () => {
+      assert.equal(detectIntent('same again, asap', 10, true), UserIntent.REPEAT_ORDER);
+      assert.equal(detectIntent('asap', 10, true), UserIntent.URGENT_ORDER);
+      assert.equal(detectIntent('', 5, true), UserIntent.BULK_ORDER);
+      assert.equal(detectIntent('', 4, true), UserIntent.CUSTOM_TIP);
+    });
+  });
+
+  it('reports words it could not place', () => {
+    assert.deepEqual(parseOrderText('three lattes and a muffin with oat milk', menu).unmatched, ['muffin oat milk']);
+
+    const parse = parseOrderText('a croissant', menu);
+    assert.deepEqual(parse.orders, []);
+    assert.equal(parse.total, 0);
+    assert.deepEqual(parse.unmatched, ['croissant']);
+  });
+
+  it('is what the grammar parser returns', async () => {
+    const parse = await new GrammarOrderParser().parse('a latte', menu);
+    assert.deepEqual(parse, parseOrderText('a latte', menu));
+    assert.equal(parse.parser, 'grammar');
+  });
+});
@@ -0,0 +1,241 @@
+import { UserIntent } from '../ai/types';
+import { MenuItem } from '../menu/types';
+import { roundAmount } from '../cart/pricing';
+import { OrderParser, OrderTextParse, ParsedOrderLine, ParsedTip } from './types';
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, single: 1, two: 2, couple: 2, pair: 2, three: 3, four: 4,
+  five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, dozen: 12,
+};
+
+const URGENT_WORDS = ['quick', 'quickly', 'asap', 'urgent', 'urgently', 'hurry', 'fast', 'rush', 'now'];
+const REPEAT_WORDS = ['again', 'repeat', 'usual', 'same'];
+
+// Words that carry no order information on their own
+const FILLER_WORDS = [
+  'i', 'id', 'me', 'my', 'we', 'us', 'please', 'pls', 'can', 'could', 'would', 'like', 'want',
+  'get', 'have', 'give', 'make', 'order', 'add', 'and', 'plus', 'with', 'of', 'the', 'some', 'for',
+  'to', 'it', 'them', 'also', 'another', 'more', 'then', 'as', 'last', 'time', 'before', 'x',
+  'in', 'a', 'an', 'usdt', 'usd',
+];
+
+// Words too common in item names to identify an item alone
+const GENERIC_WORDS = ['coffee'];
+
+// Total quantity from which an order counts as bulk
+const BULK_ORDER_QUANTITY = 5;
+
+const TIP_PATTERNS: Array<{ pattern: RegExp; percent: boolean }> = [
+  { pattern: /(\d+(?:\.\d+)?)\s*(?:%|percent)\s*(?:tip|gratuity)/, percent: true },
+  { pattern: /(?:tip|gratuity)\s*(?:of\s*)?(\d+(?:\.\d+)?)\s*(?:%|percent)/, percent: true },
+  { pattern: /(?:tip|gratuity)\s*(?:of\s*)?\$?(\d+(?:\.\d+)?)(?:\s*(?:usdt|usd))?/, percent: false },
+  { pattern: /\$?(\d+(?:\.\d+)?)\s*(?:usdt|usd)?\s*(?:tip|gratuity)/, percent: false },
+];
+
+/**
+ * Grammar Order Parser - Rule-based parsing of order sentences
+ *
+ * Understands quantities ("two", "3", "latte x2"), menu items and their
+ * plurals or distinctive words ("gold" → Premium Gold Coffee), tips
+ * ("10% tip", "tip 0.01") and intent words ("quick", "again").
+ * Deterministic and offline, so it is also the LLM parser's fallback.
+ */
+export class GrammarOrderParser implements OrderParser {
+  readonly name = 'grammar';
+
+  async parse(text: string, menu: MenuItem[]): Promise<OrderTextParse> {
+    return parseOrderText(text, menu);
+  }
+}
+
+/**
+ * Parse an order sentence against the menu
+ */
+export function parseOrderText(text: string, menu: MenuItem[]): OrderTextParse {
+  let remaining = text.toLowerCase().replace(/[’']/g, '');
+
+  // Tip - taken out first so its number isn't read as a quantity
+  let tipRequest: { value: number; percent: boolean } | undefined;
+  for (const { pattern, percent } of TIP_PATTERNS) {
+    const match = remaining.match(pattern);
+    if (match) {
+      tipRequest = { value: parseFloat(match[1]), percent };
+      remaining = remaining.replace(match[0], ' ');
+      break;
+    }
+  }
+
+  // Items, each with the quantity written just before (or "x2" just after) it
+  const lines: ParsedOrderLine[] = [];
+  const leftovers: string[] = [];
+  const itemPattern = buildItemPattern(menu);
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = itemPattern.regex.exec(remaining)) !== null) {
+    const entry = itemPattern.aliases.get(match[1])!;
+    const before = remaining.slice(position, match.index);
+    const after = remaining.slice(itemPattern.regex.lastIndex).match(/^\s*(?:x|×)\s*(\d+)/);
+
+    const quantityMatch = after ? undefined : findQuantity(before);
+    const quantity = after ? parseInt(after[1], 10) : quantityMatch?.quantity ?? 1;
+    if (after) {
+      itemPattern.regex.lastIndex += after[0].length;
+    }
+
+    if (quantityMatch) {
+      leftovers.push(before.slice(0, quantityMatch.index) + before.slice(quantityMatch.index + quantityMatch.length));
+    } else {
+      leftovers.push(before);
+    }
+    const sourceStart = quantityMatch ? position + quantityMatch.index : match.index;
+    const source = remaining.slice(sourceStart, itemPattern.regex.lastIndex).trim();
+    addLine(lines, entry, quantity, source);
+    position = itemPattern.regex.lastIndex;
+  }
+  leftovers.push(remaining.slice(position));
+
+  const unmatched = leftovers
+    .map(part => part
+      .split(/[^a-z0-9.%]+/)
+      .filter(word => word && !isKnownWord(word))
+      .join(' '))
+    .filter(part => part !== '');
+
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const intent = detectIntent(text, totalQuantity, tipRequest !== undefined);
+
+  return buildOrderParse(text, 'grammar', intent, lines, tipRequest, unmatched);
+}
+
+/**
+ * Pick the intent an order sentence expresses
+ * Repeat beats urgency, which beats bulk, which beats a tip.
+ */
+export function detectIntent(text: string, totalQuantity: number, hasTip: boolean): UserIntent {
+  const words = text.toLowerCase().split(/[^a-z]+/);
+  if (words.some(word => REPEAT_WORDS.includes(word))) {
+    return UserIntent.REPEAT_ORDER;
+  }
+  if (words.some(word => URGENT_WORDS.includes(word))) {
+    return UserIntent.URGENT_ORDER;
+  }
+  if (totalQuantity >= BULK_ORDER_QUANTITY) {
+    return UserIntent.BULK_ORDER;
+  }
+  if (hasTip) {
+    return UserIntent.CUSTOM_TIP;
+  }
+  return UserIntent.BUY_COFFEE;
+}
+
+/**
+ * Assemble a parse result, working out prices and the tip
+ */
+export function buildOrderParse(
+  text: string,
+  parser: string,
+  intent: UserIntent,
+  lines: ParsedOrderLine[],
+  tipRequest: { value: number; percent: boolean } | undefined,
+  unmatched: string[]
+): OrderTextParse {
+  const subtotal = roundAmount(lines.reduce((sum, line) => sum + line.price, 0));
+
+  let tip: ParsedTip | undefined;
+  if (tipRequest && tipRequest.value > 0) {
+    tip = tipRequest.percent
+      ? { percent: tipRequest.value, amount: roundAmount(subtotal * tipRequest.value / 100) }
+      : { amount: roundAmount(tipRequest.value) };
+  }
+
+  return {
+    text,
+    parser,
+    intent,
+    orders: lines,
+    tip,
+    subtotal,
+    total: roundAmount(subtotal + (tip?.amount || 0)),
+    unmatched,
+  };
+}
+
+/**
+ * Add a line, merging repeats of the same item
+ */
+export function addLine(lines: ParsedOrderLine[], entry: MenuItem, quantity: number, source: string): void {
+  const existing = lines.find(line => line.item === entry.item);
+  if (existing) {
+    existing.quantity += quantity;
+    existing.price = roundAmount(existing.unitPrice * existing.quantity);
+    existing.source = `${existing.source}, ${source}`;
+    return;
+  }
+  lines.push({
+    itemId: entry.id,
+    item: entry.item,
+    quantity,
+    unitPrice: entry.price,
+    price: roundAmount(entry.price * quantity),
+    source,
+  });
+}
+
+/**
+ * Build one regex matching every way an item can be named
+ */
+function buildItemPattern(menu: MenuItem[]): { regex: RegExp; aliases: Map<string, MenuItem> } {
+  const aliases = new Map<string, MenuItem>();
+
+  for (const entry of menu) {
+    const name = entry.item.toLowerCase();
+    aliases.set(name, entry);
+    aliases.set(`${name}s`, entry);
+    aliases.set(`${name}es`, entry);
+
+    // A word that only appears in this item's name also identifies it
+    for (const word of name.split(/\s+/)) {
+      if (GENERIC_WORDS.includes(word)) continue;
+      const shared = menu.some(other => other !== entry && other.item.toLowerCase().split(/\s+/).includes(word));
+      if (!shared) {
+        aliases.set(word, entry);
+        aliases.set(`${word}s`, entry);
+      }
+    }
+  }
+
+  // Longest first, so "premium gold coffee" wins over "gold"
+  const alternatives = [...aliases.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(alias => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return {
+    regex: new RegExp(`\\b(${alternatives.join('|')})\\b`, 'g'),
+    aliases,
+  };
+}
+
+/**
+ * Find the last quantity in the text before an item
+ */
+function findQuantity(text: string): { quantity: number; index: number; length: number } | undefined {
+  const pattern = /\b(\d+|[a-z]+)\b/g;
+  let found: { quantity: number; index: number; length: number } | undefined;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const word = match[1];
+    const quantity = /^\d+$/.test(word) ? parseInt(word, 10) : NUMBER_WORDS[word];
+    if (quantity !== undefined && quantity > 0) {
+      found = { quantity, index: match.index, length: word.length };
+    }
+  }
+  return found;
+}
+
+function isKnownWord(word: string): boolean {
+  return FILLER_WORDS.includes(word) ||
+    URGENT_WORDS.includes(word) ||
+    REPEAT_WORDS.includes(word) ||
+    NUMBER_WORDS[word] !== undefined;
+}
@@ -0,0 +1,144 @@
+import { MenuItem } from '../menu/types';
+import { UserIntent } from '../ai/types';
+import { OpenAIProviderConfig } from '../ai/OpenAIReasoningProvider';
+import { OrderParser, OrderTextParse, ParsedOrderLine } from './types';
+import { addLine, buildOrderParse, detectIntent } from './GrammarOrderParser';
+
+const SYSTEM_PROMPT = [
+  'You turn a coffee shop customer\'s message into structured orders.',
+  'Only use item names from the menu you are given, spelled exactly as on the menu.',
+  'Reply with a JSON object only: {"orders": [{"item": "<menu item>", "quantity": <integer>}],',
+  '"tipPercent": <number or null>, "tipAmount": <USDT number or null>,',
+  '"urgent": <true if the customer is in a hurry>, "repeat": <true if they ask for the same as before>,',
+  '"unmatched": ["<parts of the message you could not map to the menu>"]}',
+].join(' ');
+
+const MAX_QUANTITY = 99;
+
+/**
+ * LLM Order Parser - Parses order sentences with an OpenAI-compatible API
+ *
+ * The model only picks items, quantities and the tip; prices always come
+ * from the menu. If the call fails, times out or names an item that isn't
+ * on the menu, the fallback (grammar) parse is returned instead.
+ */
+export class LLMOrderParser implements OrderParser {
+  readonly name: string;
+  private config: OpenAIProviderConfig;
+  private timeoutMs: number;
+  private fallback: OrderParser;
+
+  constructor(config: OpenAIProviderConfig, timeoutMs: number, fallback: OrderParser) {
+    this.config = { ...config, baseUrl: config.baseUrl.replace(/\/+$/, '') };
+    this.timeoutMs = timeoutMs;
+    this.fallback = fallback;
+    this.name = `llm (${config.model})`;
+  }
+
+  async parse(text: string, menu: MenuItem[]): Promise<OrderTextParse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const reply = await this.complete(text, menu, controller.signal);
+      return toOrderParse(text, this.name, reply, menu);
+    } catch (error) {
+      const fallbackReason = controller.signal.aborted
+        ? `Timed out after ${this.timeoutMs}ms`
+        : error instanceof Error ? error.message : 'Unknown error';
+      console.log(`⚠️  LLM order parsing unavailable (${fallbackReason}) - using ${this.fallback.name} parser`);
+      const parse = await this.fallback.parse(text, menu);
+      return { ...parse, fallbackReason };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async complete(text: string, menu: MenuItem[], signal: AbortSignal): Promise<unknown> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: this.config.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: JSON.stringify({ menu: menu.map(entry => entry.item), message: text }) },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM endpoint returned ${response.status}`);
+    }
+
+    const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('LLM response had no content');
+    }
+
+    try {
+      return JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch {
+      throw new Error('LLM reply was not valid JSON');
+    }
+  }
+}
+
+/**
+ * Check the model's reply against the menu and price it
+ */
+function toOrderParse(text: string, parser: string, reply: unknown, menu: MenuItem[]): OrderTextParse {
+  const { orders, tipPercent, tipAmount, urgent, repeat, unmatched } = (reply || {}) as {
+    orders?: unknown; tipPercent?: unknown; tipAmount?: unknown;
+    urgent?: unknown; repeat?: unknown; unmatched?: unknown;
+  };
+  if (!Array.isArray(orders)) {
+    throw new Error('LLM reply had no orders list');
+  }
+
+  const lines: ParsedOrderLine[] = [];
+  for (const order of orders as Array<{ item?: unknown; quantity?: unknown }>) {
+    const entry = menu.find(candidate =>
+      typeof order?.item === 'string' && candidate.item.toLowerCase() === order.item.toLowerCase()
+    );
+    if (!entry) {
+      throw new Error(`LLM returned an item that isn't on the menu: "${order?.item}"`);
+    }
+    const quantity = order.quantity ?? 1;
+    if (!Number.isInteger(quantity) || (quantity as number) < 1 || (quantity as number) > MAX_QUANTITY) {
+      throw new Error(`LLM returned an invalid quantity for ${entry.item}`);
+    }
+    addLine(lines, entry, quantity as number, entry.item.toLowerCase());
+  }
+
+  const tipRequest = isPositiveNumber(tipPercent)
+    ? { value: tipPercent, percent: true }
+    : isPositiveNumber(tipAmount) ? { value: tipAmount, percent: false } : undefined;
+
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  let intent = detectIntent('', totalQuantity, tipRequest !== undefined);
+  if (urgent === true) intent = UserIntent.URGENT_ORDER;
+  if (repeat === true) intent = UserIntent.REPEAT_ORDER;
+
+  return buildOrderParse(
+    text,
+    parser,
+    intent,
+    lines,
+    tipRequest,
+    Array.isArray(unmatched) ? unmatched.filter((part): part is string => typeof part === 'string') : []
+  );
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,28 @@
+import { config } from '../config';
+import { OrderParser } from './types';
+import { GrammarOrderParser } from './GrammarOrderParser';
+import { LLMOrderParser } from './LLMOrderParser';
+
+/**
+ * Create the order text parser from ORDER_PARSER
+ * 'llm' needs LLM_BASE_URL and falls back to the grammar parser.
+ */
+export function createOrderParser(): OrderParser {
+  const grammar = new GrammarOrderParser();
+
+  if (config.nl.parser !== 'llm') {
+    return grammar;
+  }
+  if (!config.llm.baseUrl) {
+    console.log('⚠️  ORDER_PARSER=llm but LLM_BASE_URL is not set - using grammar parser');
+    return grammar;
+  }
+
+  const parser = new LLMOrderParser({
+    baseUrl: config.llm.baseUrl,
+    apiKey: config.llm.apiKey || undefined,
+    model: config.llm.model,
+  }, config.llm.timeoutMs, grammar);
+  console.log(`💬 Order text parser: ${parser.name}`);
+  return parser;
+}
@@ -0,0 +1,10 @@
+/**
+ * Natural-Language Ordering Exports
+ *
+ * Turns order sentences into orders for confirmation before they run.
+ */
+
+export * from './types';
+export { GrammarOrderParser, parseOrderText, detectIntent } from './GrammarOrderParser';
+export { LLMOrderParser } from './LLMOrderParser';
+export { createOrderParser } from './createOrderParser';
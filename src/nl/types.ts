@@ -0,0 +1,50 @@
+/**
+ * Natural-Language Ordering Types
+ */
+
+import { UserIntent } from '../ai/types';
+import { MenuItem } from '../menu/types';
+
+/**
+ * One menu item resolved from the text
+ */
+export interface ParsedOrderLine {
+  itemId: string;
+  item: string;
+  quantity: number;
+  unitPrice: number;
+  price: number;                // unitPrice × quantity
+  source: string;               // The part of the text it came from
+}
+
+/**
+ * A tip asked for in the text
+ */
+export interface ParsedTip {
+  percent?: number;             // Set for "10% tip"
+  amount: number;               // USDT, worked out from the subtotal for percentages
+}
+
+/**
+ * Result of parsing an order sentence
+ * Nothing is executed - the caller confirms, then submits the cart.
+ */
+export interface OrderTextParse {
+  text: string;
+  parser: string;               // Which parser produced this
+  intent: UserIntent;
+  orders: ParsedOrderLine[];
+  tip?: ParsedTip;
+  subtotal: number;
+  total: number;                // subtotal + tip
+  unmatched: string[];          // Parts of the text that weren't understood
+  fallbackReason?: string;      // Why the LLM parser fell back to the grammar
+}
+
+/**
+ * Turns free text into orders against a menu
+ */
+export interface OrderParser {
+  readonly name: string;
+  parse(text: string, menu: MenuItem[]): Promise<OrderTextParse>;
+}
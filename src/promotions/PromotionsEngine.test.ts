@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PromotionsEngine, checkPriceBreakdown } from './PromotionsEngine';
+import { Promotion } from './types';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { WEEKDAYS } from '../schedule/types';
+import { CartLine } from '../cart/types';
+
+// UTC+8 all year, open 08:00-20:00 every day
+const schedule = new BusinessSchedule({
+  timezone: 'Asia/Shanghai',
+  weekly: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '08:00', close: '20:00' }]])),
+});
+
+// Monday 2026-05-04, shop-local times
+const MORNING = Date.parse('2026-05-04T02:00:00Z');        // 10:00
+const HAPPY_HOUR = Date.parse('2026-05-04T09:30:00Z');     // 17:30
+const NEAR_CLOSE = Date.parse('2026-05-04T11:30:00Z');     // 19:30
+
+function line(itemId: string, category: string, unitPrice: number, quantity: number = 1): CartLine {
+  return {
+    itemId,
+    item: itemId,
+    category,
+    quantity,
+    basePrice: unitPrice,
+    unitPrice,
+    lineTotal: Math.round(unitPrice * quantity * 1e6) / 1e6,
+  };
+}
+
+const latte = (quantity: number = 1) => line('latte', 'coffee', 0.03, quantity);
+const blend = (quantity: number = 1) => line('special-blend', 'specialty', 0.6, quantity);
+
+function engine(promotions: Promotion[]): PromotionsEngine {
+  return new PromotionsEngine({ promotions }, schedule);
+}
+
+describe('PromotionsEngine', () => {
+  it('charges the list price without promotions', () => {
+    const result = engine([]).apply([latte(3)], undefined, MORNING);
+    assert.deepEqual(result.pricing, {
+      listPrice: 0.09,
+      discounts: [],
+      discountTotal: 0,
+      finalPrice: 0.09,
+      currency: 'USDT',
+    });
+  });
+
+  it('takes a percentage off only the lines a promotion covers', () => {
+    const result = engine([
+      { id: 'specialty-10', name: 'Specialty week', type: 'percent', value: 10, categories: ['specialty'] },
+    ]).apply([latte(), blend()], undefined, MORNING);
+
+    assert.equal(result.pricing?.discountTotal, 0.06);
+    assert.equal(result.pricing?.finalPrice, 0.57);
+  });
+
+  it('caps a fixed discount at the lines it covers', () => {
+    const result = engine([
+      { id: 'latte-off', name: 'Latte deal', type: 'fixed', value: 1, items: ['latte'] },
+    ]).apply([latte(), blend()], undefined, MORNING);
+
+    assert.equal(result.pricing?.discountTotal, 0.03);
+    assert.equal(result.pricing?.finalPrice, 0.6);
+  });
+
+  it('gives the cheapest units away in buy-N-get-one', () => {
+    const result = engine([
+      { id: 'b2g1', name: 'Buy 2 get 1', type: 'buy_n_get_one', buy: 2, categories: ['coffee'] },
+    ]).apply([line('latte-large', 'coffee', 0.04), latte(3)], undefined, MORNING);
+
+    assert.equal(result.pricing?.listPrice, 0.13);
+    assert.equal(result.pricing?.discountTotal, 0.03);
+    assert.match(result.pricing!.discounts[0].detail, /\(1 free\)/);
+  });
+
+  describe('stacking', () => {
+    it('applies automatic promotions and the coupon together, each off the list price', () => {
+      const result = engine([
+        { id: 'spring', name: 'Spring sale', type: 'percent', value: 10 },
+        { id: 'save', name: 'Coupon', type: 'fixed', value: 0.01, code: 'SAVE' },
+      ]).apply([blend()], 'SAVE', MORNING);
+
+      assert.equal(result.valid, true);
+      assert.deepEqual(result.pricing?.discounts.map(discount => [discount.promotionId, discount.amount, discount.code]), [
+        ['spring', 0.06, undefined],
+        ['save', 0.01, 'SAVE'],
+      ]);
+      assert.equal(result.pricing?.discountTotal, 0.07);
+      assert.equal(result.pricing?.finalPrice, 0.53);
+    });
+
+    it('caps each discount at what is left to pay', () => {
+      const result = engine([
+        { id: 'first', name: 'First', type: 'percent', value: 60 },
+        { id: 'second', name: 'Second', type: 'percent', value: 30 },
+      ]).apply([blend()], undefined, MORNING);
+
+      assert.equal(result.pricing?.discountTotal, 0.54);
+      assert.equal(result.pricing?.finalPrice, 0.06);
+    });
+
+    it('never makes an order free', () => {
+      const result = engine([
+        { id: 'first', name: 'First', type: 'percent', value: 60 },
+        { id: 'second', name: 'Second', type: 'percent', value: 60 },
+      ]).apply([blend()], undefined, MORNING);
+
+      assert.deepEqual(result, { valid: false, reason: 'Discounts cannot cover the whole order' });
+    });
+  });
+
+  describe('coupons', () => {
+    const coupons: Promotion[] = [
+      { id: 'save', name: 'Coupon', type: 'fixed', value: 0.01, code: 'SAVE' },
+      { id: 'premium-only', name: 'Premium coupon', type: 'percent', value: 20, code: 'GOLD', categories: ['premium'] },
+      { id: 'big-orders', name: 'Big order coupon', type: 'fixed', value: 0.05, code: 'BIG', minTotal: 1 },
+      { id: 'expired', name: 'April coupon', type: 'fixed', value: 0.01, code: 'APRIL', validUntil: '2026-05-03' },
+      { id: 'off', name: 'Disabled coupon', type: 'fixed', value: 0.01, code: 'OFF', enabled: false },
+    ];
+
+    it('matches codes regardless of case and spacing', () => {
+      const result = engine(coupons).apply([latte()], '  save ', MORNING);
+      assert.equal(result.pricing?.finalPrice, 0.02);
+    });
+
+    it('rejects codes that are unknown or disabled', () => {
+      assert.deepEqual(engine(coupons).apply([latte()], 'NOPE', MORNING), {
+        valid: false,
+        reason: 'Unknown coupon code "NOPE"',
+      });
+      assert.equal(engine(coupons).apply([latte()], 'OFF', MORNING).valid, false);
+    });
+
+    it('rejects a coupon that does not cover any line', () => {
+      const result = engine(coupons).apply([latte()], 'GOLD', MORNING);
+      assert.deepEqual(result, { valid: false, reason: 'Coupon GOLD does not apply to this order' });
+    });
+
+    it('rejects a coupon below its minimum spend', () => {
+      const result = engine(coupons).apply([blend()], 'BIG', MORNING);
+      assert.deepEqual(result, { valid: false, reason: 'Coupon BIG needs at least 1 USDT of eligible items' });
+      assert.equal(engine(coupons).apply([blend(2)], 'BIG', MORNING).valid, true);
+    });
+
+    it('rejects a coupon outside its dates', () => {
+      const result = engine(coupons).apply([latte()], 'APRIL', MORNING);
+      assert.deepEqual(result, { valid: false, reason: 'Coupon APRIL is not valid right now' });
+    });
+  });
+
+  describe('time windows', () => {
+    it('runs a happy hour in shop-local time', () => {
+      const promotions: Promotion[] = [
+        { id: 'happy', name: 'Happy hour', type: 'percent', value: 50, window: { days: ['monday'], start: '17:00', end: '19:00' } },
+      ];
+      assert.equal(engine(promotions).apply([latte(2)], undefined, HAPPY_HOUR).pricing?.finalPrice, 0.03);
+      assert.equal(engine(promotions).apply([latte(2)], undefined, MORNING).pricing?.finalPrice, 0.06);
+      assert.equal(engine(promotions).apply([latte(2)], undefined, HAPPY_HOUR + 24 * 60 * 60 * 1000).pricing?.finalPrice, 0.06);
+    });
+
+    it('runs a closing promotion only in the last minutes before closing', () => {
+      const promotions: Promotion[] = [
+        { id: 'closing', name: 'Closing time', type: 'percent', value: 50, window: { beforeClose: 60 } },
+      ];
+      assert.equal(engine(promotions).apply([latte(2)], undefined, NEAR_CLOSE).pricing?.finalPrice, 0.03);
+      assert.equal(engine(promotions).apply([latte(2)], undefined, HAPPY_HOUR).pricing?.finalPrice, 0.06);
+    });
+
+    it('lists only the automatic promotions running now', () => {
+      const promotions: Promotion[] = [
+        { id: 'happy', name: 'Happy hour', type: 'percent', value: 50, window: { start: '17:00', end: '19:00' } },
+        { id: 'save', name: 'Coupon', type: 'fixed', value: 0.01, code: 'SAVE' },
+      ];
+      assert.deepEqual(engine(promotions).getActive(HAPPY_HOUR).map(promotion => promotion.id), ['happy']);
+      assert.deepEqual(engine(promotions).getActive(MORNING), []);
+    });
+  });
+
+  it('refuses an invalid promotions file', () => {
+    assert.throws(
+      () => engine([{ id: 'broken', name: 'Broken', type: 'percent', value: 150 }]),
+      /Invalid promotions: Promotion broken: "value" must be a percentage between 0 and 100/
+    );
+  });
+});
+
+describe('checkPriceBreakdown', () => {
+  const pricing = engine([{ id: 'spring', name: 'Spring sale', type: 'percent', value: 10 }])
+    .apply([blend()], undefined, MORNING).pricing!;
+
+  it('accepts a breakdown that adds up to the price paid', () => {
+    assert.equal(checkPriceBreakdown(pricing, 0.54).valid, true);
+  });
+
+  it('rejects a breakdown that does not add up', () => {
+    assert.equal(checkPriceBreakdown(pricing, 0.5).valid, false);
+    assert.equal(checkPriceBreakdown({ ...pricing, discountTotal: 0.1 }, 0.54).valid, false);
+  });
+});
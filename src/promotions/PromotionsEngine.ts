@@ -0,0 +1,328 @@
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { WEEKDAYS, Weekday } from '../schedule/types';
+import { CartLine } from '../cart/types';
+import { describeCart, roundAmount } from '../cart/pricing';
+import {
+  AppliedDiscount,
+  PriceBreakdown,
+  Promotion,
+  PromotionType,
+  PromotionsFile,
+} from './types';
+
+const PROMOTION_TYPES: PromotionType[] = ['percent', 'fixed', 'buy_n_get_one'];
+
+/**
+ * Promotions Engine - Discounts, coupon codes and happy hours
+ *
+ * Orders are priced from the menu first; the engine then takes off
+ * every automatic promotion running at the order's time plus the
+ * coupon the customer entered, if any. Time windows are read in the
+ * shop's timezone from the same schedule as business hours, so a
+ * closing happy hour follows the opening hours of the day.
+ *
+ * The result is the price breakdown the AI evaluates and the order pays.
+ */
+export class PromotionsEngine {
+  private promotions: Promotion[];
+  private schedule: BusinessSchedule;
+
+  constructor(file: PromotionsFile = { promotions: [] }, schedule: BusinessSchedule = new BusinessSchedule()) {
+    const validation = validatePromotions(file);
+    if (!validation.valid) {
+      throw new Error(`Invalid promotions: ${validation.reason}`);
+    }
+    this.promotions = file.promotions;
+    this.schedule = schedule;
+  }
+
+  /**
+   * Every promotion, including coupons and disabled ones
+   */
+  getPromotions(): Promotion[] {
+    return this.promotions;
+  }
+
+  /**
+   * Automatic promotions running at this time (coupons are left out)
+   */
+  getActive(time: number = Date.now()): Promotion[] {
+    return this.promotions.filter(promotion => !promotion.code && this.isRunning(promotion, time));
+  }
+
+  /**
+   * Price priced lines after promotions
+   * An unknown coupon, or one that doesn't apply, makes the result
+   * invalid rather than being silently ignored.
+   */
+  apply(
+    lines: CartLine[],
+    couponCode?: string,
+    time: number = Date.now()
+  ): { valid: boolean; reason?: string; pricing?: PriceBreakdown } {
+    const listPrice = roundAmount(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+    const applicable = this.getActive(time);
+
+    let coupon: Promotion | undefined;
+    if (couponCode !== undefined) {
+      const wanted = couponCode.trim().toLowerCase();
+      coupon = this.promotions.find(promotion =>
+        promotion.code?.toLowerCase() === wanted && promotion.enabled !== false);
+      if (!coupon) {
+        return { valid: false, reason: `Unknown coupon code "${couponCode}"` };
+      }
+      if (!this.isRunning(coupon, time)) {
+        return { valid: false, reason: `Coupon ${coupon.code} is not valid right now` };
+      }
+      const eligible = getEligibleLines(coupon, lines);
+      if (coupon.minTotal !== undefined && eligible.length > 0 && subtotal(eligible) < coupon.minTotal) {
+        return { valid: false, reason: `Coupon ${coupon.code} needs at least ${coupon.minTotal} USDT of eligible items` };
+      }
+      applicable.push(coupon);
+    }
+
+    const discounts: AppliedDiscount[] = [];
+    let remaining = listPrice;
+    for (const promotion of applicable) {
+      const eligible = getEligibleLines(promotion, lines);
+      if (eligible.length === 0 || (promotion.minTotal !== undefined && subtotal(eligible) < promotion.minTotal)) {
+        continue;
+      }
+
+      const discount = computeDiscount(promotion, eligible, eligible.length === lines.length);
+      const amount = roundAmount(Math.min(discount.amount, remaining));
+      if (amount <= 0) continue;
+
+      remaining = roundAmount(remaining - amount);
+      discounts.push({
+        promotionId: promotion.id,
+        name: promotion.name,
+        code: promotion.code,
+        amount,
+        detail: discount.detail,
+      });
+    }
+
+    if (coupon && !discounts.some(discount => discount.promotionId === coupon!.id)) {
+      return { valid: false, reason: `Coupon ${coupon.code} does not apply to this order` };
+    }
+    if (remaining <= 0) {
+      return { valid: false, reason: 'Discounts cannot cover the whole order' };
+    }
+
+    return {
+      valid: true,
+      pricing: {
+        listPrice,
+        discounts,
+        discountTotal: roundAmount(listPrice - remaining),
+        finalPrice: remaining,
+        currency: 'USDT',
+      },
+    };
+  }
+
+  /**
+   * Is a promotion enabled, in its date range and in its time window?
+   */
+  private isRunning(promotion: Promotion, time: number): boolean {
+    if (promotion.enabled === false) return false;
+
+    const local = this.schedule.getLocalTime(time);
+    if (promotion.validFrom && local.date < promotion.validFrom) return false;
+    if (promotion.validUntil && local.date > promotion.validUntil) return false;
+
+    const { window } = promotion;
+    if (!window) return true;
+
+    const minutes = local.hour * 60 + local.minute;
+    if (window.days && !window.days.includes(local.weekday)) return false;
+    if (window.start && minutes < toMinutes(window.start)) return false;
+    if (window.end && minutes >= toMinutes(window.end)) return false;
+
+    if (window.beforeClose !== undefined) {
+      const status = this.schedule.getStatus(time);
+      if (!status.open || status.closesAt === undefined ||
+          status.closesAt - time > window.beforeClose * 60 * 1000) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * Check that a price breakdown adds up to the amount being paid
+ * Used downstream of pricing, which can't be re-run later (promotions
+ * depend on the time the order was priced).
+ */
+export function checkPriceBreakdown(pricing: PriceBreakdown, price: number): { valid: boolean; reason?: string } {
+  if (!Array.isArray(pricing.discounts) || pricing.discounts.some(discount => !(discount.amount > 0))) {
+    return { valid: false, reason: 'Every discount must be a positive amount' };
+  }
+  const discountTotal = pricing.discounts.reduce((sum, discount) => sum + discount.amount, 0);
+  if (Math.abs(discountTotal - pricing.discountTotal) > 1e-6) {
+    return { valid: false, reason: `Discounts add up to ${roundAmount(discountTotal)} USDT, not ${pricing.discountTotal} USDT` };
+  }
+  if (Math.abs(pricing.listPrice - pricing.discountTotal - pricing.finalPrice) > 1e-6) {
+    return {
+      valid: false,
+      reason: `${pricing.listPrice} USDT less ${pricing.discountTotal} USDT off is not ${pricing.finalPrice} USDT`,
+    };
+  }
+  if (Math.abs(pricing.finalPrice - price) > 1e-6) {
+    return { valid: false, reason: `Price breakdown comes to ${pricing.finalPrice} USDT but the order is for ${price} USDT` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate promotions (e.g. ones read from the promotions file)
+ */
+export function validatePromotions(raw: unknown): { valid: boolean; reason?: string } {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as PromotionsFile).promotions)) {
+    return { valid: false, reason: 'Promotions file needs a "promotions" array' };
+  }
+
+  const ids = new Set<string>();
+  const codes = new Set<string>();
+  for (const promotion of (raw as PromotionsFile).promotions) {
+    if (!promotion || typeof promotion.id !== 'string' || promotion.id === '') {
+      return { valid: false, reason: 'Every promotion needs an "id"' };
+    }
+    const label = `Promotion ${promotion.id}`;
+    if (ids.has(promotion.id)) {
+      return { valid: false, reason: `${label} is listed twice` };
+    }
+    ids.add(promotion.id);
+
+    if (typeof promotion.name !== 'string' || promotion.name === '') {
+      return { valid: false, reason: `${label} needs a "name"` };
+    }
+    if (!PROMOTION_TYPES.includes(promotion.type)) {
+      return { valid: false, reason: `${label}: "type" must be one of ${PROMOTION_TYPES.join(', ')}` };
+    }
+    if (promotion.type === 'percent' &&
+        (typeof promotion.value !== 'number' || promotion.value <= 0 || promotion.value > 100)) {
+      return { valid: false, reason: `${label}: "value" must be a percentage between 0 and 100` };
+    }
+    if (promotion.type === 'fixed' && (typeof promotion.value !== 'number' || promotion.value <= 0)) {
+      return { valid: false, reason: `${label}: "value" must be a positive USDT amount` };
+    }
+    if (promotion.type === 'buy_n_get_one' && (!Number.isInteger(promotion.buy) || promotion.buy! < 1)) {
+      return { valid: false, reason: `${label}: "buy" must be a whole number of at least 1` };
+    }
+
+    if (promotion.code !== undefined) {
+      if (typeof promotion.code !== 'string' || promotion.code.trim() === '') {
+        return { valid: false, reason: `${label}: "code" must be a non-empty string` };
+      }
+      if (codes.has(promotion.code.toLowerCase())) {
+        return { valid: false, reason: `${label}: code ${promotion.code} is used twice` };
+      }
+      codes.add(promotion.code.toLowerCase());
+    }
+
+    for (const field of ['items', 'categories'] as const) {
+      const value = promotion[field];
+      if (value !== undefined && (!Array.isArray(value) || value.some(entry => typeof entry !== 'string'))) {
+        return { valid: false, reason: `${label}: "${field}" must be an array of strings` };
+      }
+    }
+    if (promotion.minTotal !== undefined && (typeof promotion.minTotal !== 'number' || promotion.minTotal < 0)) {
+      return { valid: false, reason: `${label}: "minTotal" must be a USDT amount of at least 0` };
+    }
+    for (const field of ['validFrom', 'validUntil'] as const) {
+      const value = promotion[field];
+      if (value !== undefined && (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value))) {
+        return { valid: false, reason: `${label}: "${field}" must be a date (YYYY-MM-DD)` };
+      }
+    }
+
+    const reason = promotion.window !== undefined ? validateWindow(promotion.window, label) : undefined;
+    if (reason) return { valid: false, reason };
+  }
+
+  return { valid: true };
+}
+
+function validateWindow(window: Promotion['window'], label: string): string | undefined {
+  if (!window || typeof window !== 'object') {
+    return `${label}: "window" must be an object`;
+  }
+  if (window.days !== undefined &&
+      (!Array.isArray(window.days) || window.days.some(day => !WEEKDAYS.includes(day as Weekday)))) {
+    return `${label}: window "days" must be weekday names`;
+  }
+  for (const field of ['start', 'end'] as const) {
+    if (window[field] !== undefined && !isClockTime(window[field])) {
+      return `${label}: window "${field}" must be HH:MM`;
+    }
+  }
+  if (window.start && window.end && toMinutes(window.start) >= toMinutes(window.end)) {
+    return `${label}: window ${window.start} must be before ${window.end}`;
+  }
+  if (window.beforeClose !== undefined && (!Number.isInteger(window.beforeClose) || window.beforeClose < 1)) {
+    return `${label}: window "beforeClose" must be a whole number of minutes`;
+  }
+  return undefined;
+}
+
+/**
+ * Lines a promotion applies to
+ */
+function getEligibleLines(promotion: Promotion, lines: CartLine[]): CartLine[] {
+  return lines.filter(line =>
+    (!promotion.items || promotion.items.includes(line.itemId)) &&
+    (!promotion.categories || promotion.categories.includes(line.category))
+  );
+}
+
+/**
+ * What a promotion takes off the lines it applies to
+ */
+function computeDiscount(
+  promotion: Promotion,
+  eligible: CartLine[],
+  wholeOrder: boolean
+): { amount: number; detail: string } {
+  const target = wholeOrder ? 'the order' : describeCart(eligible);
+
+  switch (promotion.type) {
+    case 'percent':
+      return {
+        amount: subtotal(eligible) * promotion.value! / 100,
+        detail: `${promotion.value}% off ${target}`,
+      };
+    case 'fixed':
+      return {
+        amount: Math.min(promotion.value!, subtotal(eligible)),
+        detail: `${promotion.value} USDT off ${target}`,
+      };
+    case 'buy_n_get_one': {
+      // Free units are the cheapest ones
+      const unitPrices = eligible
+        .flatMap(line => Array<number>(line.quantity).fill(line.unitPrice))
+        .sort((a, b) => a - b);
+      const free = Math.floor(unitPrices.length / (promotion.buy! + 1));
+      return {
+        amount: unitPrices.slice(0, free).reduce((sum, price) => sum + price, 0),
+        detail: `Buy ${promotion.buy} get 1 free on ${target} (${free} free)`,
+      };
+    }
+  }
+}
+
+function subtotal(lines: CartLine[]): number {
+  return roundAmount(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+}
+
+function isClockTime(value: unknown): value is string {
+  return typeof value === 'string' &&
+    /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/.test(value);
+}
+
+function toMinutes(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import { config } from '../config';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { PromotionsEngine } from './PromotionsEngine';
+import { PromotionsFile } from './types';
+
+/**
+ * Create the promotions engine from PROMOTIONS_FILE
+ * A missing file means no promotions; an invalid one stops startup.
+ */
+export function createPromotionsEngine(schedule: BusinessSchedule): PromotionsEngine {
+  const { filePath } = config.promotions;
+  let promotions: PromotionsFile = { promotions: [] };
+
+  try {
+    promotions = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Could not parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    console.log(`🏷️  No promotions file at ${filePath} - no promotions`);
+  }
+
+  const engine = new PromotionsEngine(promotions, schedule);
+  const coupons = engine.getPromotions().filter(promotion => promotion.code).length;
+  console.log(`🏷️  Promotions: ${engine.getPromotions().length} (${coupons} coupon code(s))`);
+  return engine;
+}
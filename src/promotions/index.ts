@@ -0,0 +1,10 @@
+/**
+ * Promotions Exports
+ *
+ * Coupon codes, percentage and fixed discounts, happy hours and
+ * buy-N-get-one offers, applied to menu prices before the AI decides.
+ */
+
+export * from './types';
+export { PromotionsEngine, checkPriceBreakdown, validatePromotions } from './PromotionsEngine';
+export { createPromotionsEngine } from './createPromotionsEngine';
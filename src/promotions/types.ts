@@ -0,0 +1,72 @@
+/**
+ * Promotion Types
+ */
+
+import { Weekday } from '../schedule/types';
+
+/**
+ * How a promotion takes money off
+ * - percent: value% off the lines it applies to
+ * - fixed: value USDT off the lines it applies to
+ * - buy_n_get_one: for every `buy` units, one more is free (cheapest first)
+ */
+export type PromotionType = 'percent' | 'fixed' | 'buy_n_get_one';
+
+/**
+ * When a promotion runs, in the shop's timezone
+ * Every field narrows the window; leave all out for "whenever the shop is open".
+ */
+export interface PromotionWindow {
+  days?: Weekday[];
+  start?: string;               // HH:MM
+  end?: string;                 // HH:MM
+  beforeClose?: number;         // Only in the last N minutes before closing, e.g. 60 for a closing happy hour
+}
+
+/**
+ * A promotion, as written in the promotions file
+ */
+export interface Promotion {
+  id: string;
+  name: string;                 // Shown in the price breakdown, e.g. "Happy hour"
+  type: PromotionType;
+  value?: number;               // percent: 1-100; fixed: USDT
+  buy?: number;                 // buy_n_get_one: units to pay for before one is free
+  code?: string;                // Coupon code; promotions without one apply automatically
+  items?: string[];             // Menu item ids it applies to (default: every item)
+  categories?: string[];        // Menu categories it applies to (default: every category)
+  minTotal?: number;            // Lines it applies to must come to at least this (list price)
+  window?: PromotionWindow;
+  validFrom?: string;           // Shop-local date, YYYY-MM-DD
+  validUntil?: string;          // Shop-local date, YYYY-MM-DD (inclusive)
+  enabled?: boolean;            // Defaults to true
+}
+
+/**
+ * Contents of the promotions file
+ */
+export interface PromotionsFile {
+  promotions: Promotion[];
+}
+
+/**
+ * A discount taken off an order
+ */
+export interface AppliedDiscount {
+  promotionId: string;
+  name: string;
+  code?: string;                // Set when a coupon code unlocked it
+  amount: number;               // USDT off
+  detail: string;               // e.g. "20% off Latte ×2"
+}
+
+/**
+ * How an order's price was reached
+ */
+export interface PriceBreakdown {
+  listPrice: number;            // Menu price of the lines, modifiers included
+  discounts: AppliedDiscount[];
+  discountTotal: number;
+  finalPrice: number;           // What the order pays: listPrice - discountTotal
+  currency: string;
+}
@@ -0,0 +1,9 @@
+/**
+ * Repeat Order Exports
+ *
+ * REPEAT_ORDER: a user's last completed order, rebuilt at today's menu
+ * prices with a list of what changed.
+ */
+
+export * from './types';
+export { findLastCompletedOrder, planRepeatOrder, verifyRepeat } from './repeatOrder';
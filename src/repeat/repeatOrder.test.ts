@@ -0,0 +1,186 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findLastCompletedOrder, planRepeatOrder, verifyRepeat } from './repeatOrder';
+import { OrderStatus } from '../agents/types';
+import { IntentOrderRequest, UserIntent } from '../ai/types';
+import { buildCart, roundAmount } from '../cart/pricing';
+import { CartLine, CartLineRequest } from '../cart/types';
+import { Inventory } from '../inventory/Inventory';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { MenuFile, MenuItem } from '../menu/types';
+import { OrderRecord } from '../store/types';
+import { InMemoryOrderRepository } from '../store/InMemoryOrderRepository';
+
+const COMPLETED_AT = Date.parse('2026-05-04T10:05:00Z');
+
+const coffee = (id: string, item: string, price: number, changes: Partial<MenuItem> = {}): MenuItem => ({
+  id, item, price, currency: 'USDT', category: 'coffee', available: true, ...changes,
+});
+
+const modifierGroups: MenuFile['modifierGroups'] = [
+  { id: 'size', name: 'Size', max: 1, options: [{ id: 'large', name: 'Large', price: 0.01 }] },
+];
+
+// The menu the previous orders were priced from
+const lastWeek = new MenuCatalog({
+  items: [
+    coffee('latte', 'Latte', 0.025, { modifiers: ['size'] }),
+    coffee('espresso', 'Espresso', 0.02),
+    coffee('pour-over', 'Pour Over', 0.04),
+    coffee('cortado', 'Cortado', 0.03),
+    coffee('seasonal', 'Seasonal Special', 0.05),
+  ],
+  modifierGroups,
+});
+
+// Today: the latte costs more, the cortado is gone, the special is off
+const today = new MenuCatalog({
+  items: [
+    coffee('latte', 'Latte', 0.03, { modifiers: ['size'] }),
+    coffee('espresso', 'Espresso', 0.02),
+    coffee('pour-over', 'Pour Over', 0.04, { stock: 3 }),
+    coffee('seasonal', 'Seasonal Special', 0.05, { available: false }),
+  ],
+  modifierGroups,
+});
+
+function linesFrom(menu: MenuCatalog, cart: CartLineRequest[]): CartLine[] {
+  return buildCart(cart, menu).cart!.lines;
+}
+
+function completedOrder(orderId: string, lines: CartLine[], changes: Partial<OrderRecord> = {}): OrderRecord {
+  const price = roundAmount(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  return {
+    orderId,
+    request: { intent: UserIntent.BUY_COFFEE, item: 'Cart', price, cart: lines, userAddress: '0xUserA' },
+    order: {
+      id: orderId,
+      item: 'Cart',
+      price,
+      lines,
+      currency: 'USDT',
+      merchantAddress: '0xMerchant',
+      userAddress: '0xUserA',
+      timestamp: COMPLETED_AT - 5000,
+    },
+    status: OrderStatus.COMPLETED,
+    statusHistory: [
+      { status: OrderStatus.RECEIVED, timestamp: COMPLETED_AT - 5000 },
+      { status: OrderStatus.COMPLETED, timestamp: COMPLETED_AT },
+    ],
+    pipeline: {},
+    createdAt: COMPLETED_AT - 5000,
+    updatedAt: COMPLETED_AT + 1000,
+    ...changes,
+  };
+}
+
+function repeatRequest(cart: CartLine[], userAddress: string = '0xusera'): IntentOrderRequest {
+  return { intent: UserIntent.REPEAT_ORDER, item: 'Cart', price: 0, cart, userAddress };
+}
+
+describe('planRepeatOrder', () => {
+  it('rebuilds the order at today\'s prices and lists what changed', async () => {
+    const source = completedOrder('order_1', linesFrom(lastWeek, [
+      { itemId: 'latte', quantity: 2, modifiers: ['large'] },
+      { itemId: 'espresso' },
+      { itemId: 'cortado' },
+      { itemId: 'seasonal' },
+    ]));
+
+    const plan = await planRepeatOrder(source, today, new Inventory({ 'pour-over': 3 }));
+
+    assert.equal(plan.sourceOrderId, 'order_1');
+    assert.equal(plan.completedAt, COMPLETED_AT);
+    assert.equal(plan.previousPrice, 0.17);
+    assert.deepEqual(plan.cart, [
+      { itemId: 'latte', quantity: 2, modifiers: ['large'] },
+      { itemId: 'espresso', quantity: 1, modifiers: undefined },
+    ]);
+    assert.equal(plan.listPrice, 0.1);
+    assert.deepEqual(plan.changes, [
+      { type: 'price', item: 'Latte (Large)', quantity: 2, previousUnitPrice: 0.035, unitPrice: 0.04 },
+      { type: 'removed', item: 'Cortado', quantity: 1, previousUnitPrice: 0.03, reason: '"Cortado" is no longer on the menu' },
+      { type: 'removed', item: 'Seasonal Special', quantity: 1, previousUnitPrice: 0.05, reason: 'Seasonal Special is not available right now' },
+    ]);
+  });
+
+  it('leaves out lines the stock cannot cover, counting earlier lines of the same item', async () => {
+    const source = completedOrder('order_1', linesFrom(lastWeek, [
+      { itemId: 'pour-over', quantity: 2 },
+      { itemId: 'pour-over', quantity: 2 },
+    ]));
+
+    const plan = await planRepeatOrder(source, today, new Inventory({ 'pour-over': 3 }));
+    assert.deepEqual(plan.cart, [{ itemId: 'pour-over', quantity: 2, modifiers: undefined }]);
+    assert.equal(plan.changes[0].reason, 'Only 3 Pour Over left');
+
+    const soldOut = await planRepeatOrder(source, today, new Inventory({ 'pour-over': 0 }));
+    assert.deepEqual(soldOut.changes.map(change => change.reason), ['Pour Over is sold out', 'Pour Over is sold out']);
+  });
+
+  it('repeats a single-item order as one line', async () => {
+    const source = completedOrder('order_1', [], {
+      request: { intent: UserIntent.BUY_COFFEE, item: 'Espresso', price: 0.06, quantity: 3, userAddress: '0xUserA' },
+    });
+    source.order = { ...source.order, item: 'Espresso', price: 0.06, lines: undefined };
+
+    const plan = await planRepeatOrder(source, today, new Inventory());
+    assert.deepEqual(plan.cart, [{ itemId: 'espresso', quantity: 3, modifiers: undefined }]);
+    assert.deepEqual(plan.changes, []);
+  });
+});
+
+describe('verifyRepeat', () => {
+  const source = completedOrder('order_1', linesFrom(lastWeek, [
+    { itemId: 'latte', quantity: 2, modifiers: ['large'] },
+    { itemId: 'espresso' },
+  ]));
+
+  it('matches the same lines as the completed order', () => {
+    const request = repeatRequest(linesFrom(today, [
+      { itemId: 'espresso' },
+      { itemId: 'latte', quantity: 2, modifiers: ['large'] },
+    ]));
+    assert.deepEqual(verifyRepeat(source, request, today), {
+      orderId: 'order_1',
+      completedAt: COMPLETED_AT,
+      previousPrice: 0.09,
+      sameItems: true,
+    });
+  });
+
+  it('matches fewer of the same lines, but not as the same items', () => {
+    const request = repeatRequest(linesFrom(today, [{ itemId: 'latte', quantity: 1, modifiers: ['large'] }]));
+    assert.equal(verifyRepeat(source, request, today)?.sameItems, false);
+  });
+
+  it('does not match more, other items, other users or unfinished orders', () => {
+    const requests = [
+      repeatRequest(linesFrom(today, [{ itemId: 'latte', quantity: 3, modifiers: ['large'] }])),
+      repeatRequest(linesFrom(today, [{ itemId: 'latte', quantity: 2 }])),
+      repeatRequest(linesFrom(today, [{ itemId: 'espresso' }]), '0xUserB'),
+      repeatRequest([]),
+    ];
+    for (const request of requests) {
+      assert.equal(verifyRepeat(source, request, today), undefined);
+    }
+
+    const failed = { ...source, status: OrderStatus.FAILED };
+    assert.equal(verifyRepeat(failed, repeatRequest(linesFrom(today, [{ itemId: 'espresso' }])), today), undefined);
+    assert.equal(verifyRepeat(null, repeatRequest(linesFrom(today, [{ itemId: 'espresso' }])), today), undefined);
+  });
+});
+
+describe('findLastCompletedOrder', () => {
+  it('finds the user\'s most recent completed order', async () => {
+    const repository = new InMemoryOrderRepository();
+    const lines = linesFrom(today, [{ itemId: 'espresso' }]);
+    await repository.save(completedOrder('order_1', lines, { createdAt: 1000 }));
+    await repository.save(completedOrder('order_2', lines, { createdAt: 2000 }));
+    await repository.save(completedOrder('order_3', lines, { createdAt: 3000, status: OrderStatus.FAILED }));
+
+    assert.equal((await findLastCompletedOrder(repository, '0xUserA'))?.orderId, 'order_2');
+    assert.equal(await findLastCompletedOrder(repository, '0xUserB'), null);
+  });
+});
@@ -0,0 +1,182 @@
+import { OrderStatus } from '../agents/types';
+import { IntentOrderRequest } from '../ai/types';
+import { buildCart, describeLine, roundAmount } from '../cart/pricing';
+import { CartLine, CartLineRequest } from '../cart/types';
+import { Inventory, getStockRequests } from '../inventory/Inventory';
+import { MenuCatalog } from '../menu/MenuCatalog';
+import { OrderRecord, OrderRepository } from '../store/types';
+import { RepeatContext, RepeatLineChange, RepeatOrderPlan } from './types';
+
+/**
+ * A line of a previous order, as it was charged
+ */
+interface PreviousLine {
+  itemId?: string;              // Unset when the item is no longer on the menu
+  item: string;
+  quantity: number;
+  modifiers: string[];          // Modifier option ids
+  unitPrice: number;
+}
+
+/**
+ * The user's most recent completed order
+ */
+export async function findLastCompletedOrder(
+  repository: OrderRepository,
+  userAddress: string
+): Promise<OrderRecord | null> {
+  const page = await repository.query({ userAddress, status: OrderStatus.COMPLETED, limit: 1 });
+  return page.orders[0] || null;
+}
+
+/**
+ * Rebuild a completed order at today's menu prices
+ * Lines that are off the menu, unavailable or out of stock are left out;
+ * each left-out line and each price change is listed in changes.
+ */
+export async function planRepeatOrder(
+  source: OrderRecord,
+  menu: MenuCatalog,
+  inventory: Inventory
+): Promise<RepeatOrderPlan> {
+  const cart: CartLineRequest[] = [];
+  const lines: CartLine[] = [];
+  const changes: RepeatLineChange[] = [];
+
+  for (const previous of getPreviousLines(source, menu)) {
+    const removed = (reason: string) => changes.push({
+      type: 'removed',
+      item: previous.item,
+      quantity: previous.quantity,
+      previousUnitPrice: previous.unitPrice,
+      reason,
+    });
+    if (!previous.itemId) {
+      removed(`"${previous.item}" is no longer on the menu`);
+      continue;
+    }
+
+    const request: CartLineRequest = {
+      itemId: previous.itemId,
+      quantity: previous.quantity,
+      modifiers: previous.modifiers.length > 0 ? previous.modifiers : undefined,
+    };
+    const built = buildCart([request], menu);
+    if (!built.valid) {
+      removed(built.reason!.replace(/^cart\[0\]: /, ''));
+      continue;
+    }
+
+    // Earlier lines may already take the stock this one needs
+    const line = built.cart!.lines[0];
+    const shortages = await inventory.check(getStockRequests(menu, {
+      item: line.item,
+      quantity: line.quantity,
+      lines: [...lines, line],
+    }));
+    if (shortages.length > 0) {
+      const { item, available } = shortages[0];
+      removed(available === 0 ? `${item} is sold out` : `Only ${available} ${item} left`);
+      continue;
+    }
+
+    if (Math.abs(line.unitPrice - previous.unitPrice) > 1e-6) {
+      changes.push({
+        type: 'price',
+        item: describeLine(line),
+        quantity: line.quantity,
+        previousUnitPrice: previous.unitPrice,
+        unitPrice: line.unitPrice,
+      });
+    }
+    cart.push(request);
+    lines.push(line);
+  }
+
+  return {
+    sourceOrderId: source.orderId,
+    completedAt: getCompletedAt(source),
+    previousPrice: getListPrice(source),
+    cart,
+    lines,
+    listPrice: roundAmount(lines.reduce((sum, line) => sum + line.lineTotal, 0)),
+    changes,
+  };
+}
+
+/**
+ * Match a repeat order request to the completed order it repeats
+ * Verified when the source is one of the user's completed orders and
+ * every requested line was on it, in no greater quantity.
+ */
+export function verifyRepeat(
+  source: OrderRecord | null,
+  request: IntentOrderRequest,
+  menu: MenuCatalog
+): RepeatContext | undefined {
+  if (!source || source.status !== OrderStatus.COMPLETED ||
+      source.request.userAddress.toLowerCase() !== request.userAddress.toLowerCase()) {
+    return undefined;
+  }
+
+  const previous = new Map<string, number>();
+  for (const line of getPreviousLines(source, menu)) {
+    const key = lineKey(line.itemId || line.item, line.modifiers);
+    previous.set(key, (previous.get(key) || 0) + line.quantity);
+  }
+  const requested = new Map<string, number>();
+  for (const line of request.cart || []) {
+    const key = lineKey(line.itemId, (line.modifiers || []).map(modifier => modifier.id));
+    requested.set(key, (requested.get(key) || 0) + line.quantity);
+  }
+  if (requested.size === 0 || [...requested].some(([key, quantity]) => quantity > (previous.get(key) || 0))) {
+    return undefined;
+  }
+
+  return {
+    orderId: source.orderId,
+    completedAt: getCompletedAt(source),
+    previousPrice: getListPrice(source),
+    sameItems: requested.size === previous.size && [...requested].every(([key, quantity]) => previous.get(key) === quantity),
+  };
+}
+
+/**
+ * Lines of a previous order; a single-item order is one line
+ */
+function getPreviousLines(source: OrderRecord, menu: MenuCatalog): PreviousLine[] {
+  if (source.order.lines) {
+    return source.order.lines.map(line => ({
+      itemId: menu.getItem(line.itemId) ? line.itemId : undefined,
+      item: describeLine(line),
+      quantity: line.quantity,
+      modifiers: (line.modifiers || []).map(modifier => modifier.id),
+      unitPrice: line.unitPrice,
+    }));
+  }
+
+  const quantity = source.request.quantity || 1;
+  return [{
+    itemId: menu.findItem(source.order.item)?.id,
+    item: source.order.item,
+    quantity,
+    modifiers: [],
+    unitPrice: roundAmount(getListPrice(source) / quantity),
+  }];
+}
+
+/**
+ * What an order's lines cost before discounts
+ */
+function getListPrice(source: OrderRecord): number {
+  return source.order.pricing ? source.order.pricing.listPrice : source.order.price;
+}
+
+function getCompletedAt(source: OrderRecord): number {
+  return source.statusHistory.find(transition => transition.status === OrderStatus.COMPLETED)?.timestamp
+    ?? source.updatedAt;
+}
+
+function lineKey(itemId: string, modifiers: string[]): string {
+  return [itemId, ...modifiers].join('+');
+}
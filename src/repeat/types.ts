@@ -0,0 +1,42 @@
+/**
+ * Repeat Order Types
+ */
+
+import { CartLine, CartLineRequest } from '../cart/types';
+
+/**
+ * How a line of the previous order differs today
+ * - price: still on the menu, at a different unit price
+ * - removed: off the menu, unavailable or out of stock - left out of the repeat
+ */
+export interface RepeatLineChange {
+  type: 'price' | 'removed';
+  item: string;                 // e.g. "Latte (Large, Oat milk)"
+  quantity: number;
+  previousUnitPrice: number;
+  unitPrice?: number;           // price: today's unit price
+  reason?: string;              // removed: why the line can't be ordered again
+}
+
+/**
+ * A user's last completed order, rebuilt at today's menu prices
+ */
+export interface RepeatOrderPlan {
+  sourceOrderId: string;
+  completedAt: number;
+  previousPrice: number;        // List price the previous order was charged
+  cart: CartLineRequest[];      // Lines that can be ordered again, as POST /order takes them
+  lines: CartLine[];            // The same lines, priced from today's menu
+  listPrice: number;            // Today's list price of the lines
+  changes: RepeatLineChange[];  // Empty when the order can be repeated exactly
+}
+
+/**
+ * A repeat order the AI engine has matched to the user's completed order
+ */
+export interface RepeatContext {
+  orderId: string;
+  completedAt: number;
+  previousPrice: number;        // List price the previous order was charged
+  sameItems: boolean;           // Exactly the same lines and quantities as before
+}
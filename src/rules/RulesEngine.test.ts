@@ -0,0 +1,161 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RulesEngine, validateRuleSet } from './RulesEngine';
+import { buildCartRuleFacts } from './facts';
+import { PolicyRule, RuleFacts, RuleSet } from './types';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { CartLine } from '../cart/types';
+
+const facts: RuleFacts = {
+  amount: 0.6,
+  item: 'Premium Gold Coffee',
+  category: 'premium',
+  userAddress: '0xUserA',
+  hour: 22,
+  dayOfWeek: 1,
+};
+
+function rule(id: string, changes: Partial<PolicyRule> = {}): PolicyRule {
+  return {
+    id,
+    when: { amount: { gte: 0.5 } },
+    outcome: { result: 'warn', weight: 0.5, message: '{item} costs {amount} USDT' },
+    ...changes,
+  };
+}
+
+const ids = (engine: RulesEngine, input: RuleFacts | RuleFacts[], target: 'ai' | 'approval' = 'ai') =>
+  engine.evaluate(input, target).map(match => match.rule.id);
+
+describe('validateRuleSet', () => {
+  it('accepts a well-formed rule set', () => {
+    assert.deepEqual(validateRuleSet({ version: 1, rules: [rule('big')] }), { valid: true });
+  });
+
+  it('explains what is wrong with a bad rule set', () => {
+    const cases: Array<[unknown, string]> = [
+      [[], 'Rules file needs a numeric "version"'],
+      [{ version: 1 }, 'Rules file needs a "rules" array'],
+      [{ version: 1, rules: [rule('a'), rule('a')] }, 'Duplicate rule id "a"'],
+      [{ version: 1, rules: [rule('a', { when: { colour: { eq: 'red' } } as PolicyRule['when'] })] }, 'Rule "a": unknown field "colour"'],
+      [{ version: 1, rules: [rule('a', { when: { amount: { about: 1 } } as PolicyRule['when'] })] }, 'Rule "a": unknown operator "about" on "amount"'],
+      [{ version: 1, rules: [rule('a', { when: { category: { in: 'premium' } } as unknown as PolicyRule['when'] })] }, 'Rule "a": "in" on "category" needs an array'],
+      [{ version: 1, rules: [rule('a', { outcome: { result: 'warn', weight: 2, message: '' } })] }, 'Rule "a": outcome.weight must be between 0 and 1'],
+      [{ version: 1, rules: [rule('a', { appliesTo: ['payment'] as unknown as PolicyRule['appliesTo'] })] }, 'Rule "a": appliesTo must list ai and/or approval'],
+    ];
+    for (const [raw, reason] of cases) {
+      assert.deepEqual(validateRuleSet(raw), { valid: false, reason });
+    }
+  });
+});
+
+describe('RulesEngine.evaluate', () => {
+  it('matches when every condition holds and fills the message', () => {
+    const engine = new RulesEngine(null, { version: 1, rules: [rule('big')] });
+    assert.deepEqual(engine.evaluate(facts, 'ai'), [{
+      rule: engine.getRules()[0],
+      result: 'warn',
+      weight: 0.5,
+      message: 'Premium Gold Coffee costs 0.6 USDT',
+    }]);
+    assert.deepEqual(ids(engine, { ...facts, amount: 0.4 }), []);
+  });
+
+  it('compares strings case-insensitively and never matches an unset fact', () => {
+    const engine = new RulesEngine(null, { version: 1, rules: [
+      rule('blocked', { when: { userAddress: { in: ['0xusera'] } } }),
+      rule('velocity', { when: { recentOrderCount: { gt: 3 } } }),
+      rule('late', { when: { hour: { gte: 21 }, category: { neq: 'Coffee' } } }),
+    ] });
+    assert.deepEqual(ids(engine, facts), ['blocked', 'late']);
+  });
+
+  it('skips disabled rules and rules for the other stage', () => {
+    const engine = new RulesEngine(null, { version: 1, rules: [
+      rule('off', { enabled: false }),
+      rule('approval-only', { appliesTo: ['approval'] }),
+      rule('both'),
+    ] });
+    assert.deepEqual(ids(engine, facts, 'ai'), ['both']);
+    assert.deepEqual(ids(engine, facts, 'approval'), ['approval-only', 'both']);
+  });
+
+  it('matches a rule once if any item of a cart matches it', () => {
+    const engine = new RulesEngine(null, { version: 1, rules: [
+      rule('premium', { when: { category: { eq: 'premium' } }, outcome: { result: 'fail', weight: 1, message: 'No {item}' } }),
+    ] });
+    const schedule = new BusinessSchedule({ timezone: 'UTC', weekly: {} });
+    const line = (item: string, category: string): CartLine =>
+      ({ itemId: item, item, category, quantity: 1, basePrice: 0.3, unitPrice: 0.3, lineTotal: 0.3 });
+    const cartFacts = buildCartRuleFacts(
+      { amount: 0.9, item: 'cart', category: 'mixed', userAddress: '0xUserA' },
+      [line('Latte', 'coffee'), line('Premium Gold Coffee', 'premium'), line('Premium Gold Coffee', 'premium')],
+      Date.parse('2026-05-04T22:00:00Z'),
+      schedule
+    );
+
+    assert.equal(cartFacts.length, 2);
+    assert.equal(cartFacts[0].hour, 22);
+    assert.deepEqual(engine.evaluate(cartFacts, 'ai').map(match => match.message), ['No Premium Gold Coffee']);
+  });
+});
+
+describe('RulesEngine file loading', () => {
+  let dir: string;
+  let filePath: string;
+  const write = (ruleSet: unknown) => fs.writeFileSync(filePath, JSON.stringify(ruleSet));
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+    filePath = path.join(dir, 'rules.json');
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('runs without rules when the file is missing', () => {
+    const engine = new RulesEngine(path.join(dir, 'missing.json'));
+    assert.deepEqual(engine.load(), { valid: true });
+    assert.equal(engine.getStatus().ruleCount, 0);
+  });
+
+  it('keeps the previous rules when an edit is invalid', () => {
+    write({ version: 1, rules: [rule('big')] });
+    const engine = new RulesEngine(filePath);
+    assert.equal(engine.load().valid, true);
+
+    write({ version: 2, rules: [rule('big'), rule('big')] });
+    assert.deepEqual(engine.load(), { valid: false, reason: 'Duplicate rule id "big"' });
+    assert.equal(engine.getStatus().version, 1);
+    assert.equal(engine.getStatus().lastError, 'Duplicate rule id "big"');
+
+    fs.writeFileSync(filePath, '{ not json');
+    assert.equal(engine.load().valid, false);
+    assert.deepEqual(ids(engine, facts), ['big']);
+  });
+
+  it('reloads the file when it changes while watching', async () => {
+    const ruleSet: RuleSet = { version: 1, rules: [rule('big')] };
+    write(ruleSet);
+    const engine = new RulesEngine(filePath);
+    engine.load();
+    engine.watch(10);
+
+    try {
+      write({ version: 2, rules: [rule('big'), rule('late', { when: { hour: { gte: 21 } } })] });
+      const future = new Date(Date.now() + 60_000);
+      fs.utimesSync(filePath, future, future);
+
+      for (let waited = 0; engine.getStatus().version !== 2 && waited < 2000; waited += 20) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      assert.equal(engine.getStatus().version, 2);
+      assert.equal(engine.getStatus().lastError, undefined);
+      assert.deepEqual(ids(engine, facts), ['big', 'late']);
+    } finally {
+      engine.stop();
+    }
+  });
+});
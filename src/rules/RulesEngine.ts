@@ -0,0 +1,272 @@
+import fs from 'fs';
+import {
+  PolicyRule,
+  RuleFacts,
+  RuleField,
+  RuleMatch,
+  RuleOperators,
+  RuleSet,
+  RuleTarget,
+  RulesStatus,
+} from './types';
+
+const RULE_FIELDS: RuleField[] = [
+  'amount', 'quantity', 'intent', 'item', 'category', 'userAddress', 'merchantAddress',
+  'hour', 'dayOfWeek', 'recentOrderCount', 'dailySpending', 'userDailySpending', 'agentBalance',
+];
+const OPERATORS: Array<keyof RuleOperators> = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn'];
+const RESULTS = ['pass', 'warn', 'fail'];
+const TARGETS: RuleTarget[] = ['ai', 'approval'];
+
+/**
+ * Rules Engine - Evaluates the declarative policy rules file
+ *
+ * The rules file is JSON ({ version, rules: [...] }). When watching, the
+ * file is re-read whenever it changes; a file that fails validation is
+ * rejected and the previous rules stay active, so a bad edit never
+ * leaves the shop without a policy.
+ */
+export class RulesEngine {
+  private filePath: string | null;
+  private ruleSet: RuleSet = { version: 0, rules: [] };
+  private loadedAt: number | null = null;
+  private lastError?: string;
+  private watching: boolean = false;
+
+  constructor(filePath: string | null = null, ruleSet?: RuleSet) {
+    this.filePath = filePath;
+    if (ruleSet) {
+      this.setRuleSet(ruleSet);
+    }
+  }
+
+  /**
+   * Read and apply the rules file
+   * A missing file means no rules; an invalid one keeps the current rules.
+   */
+  load(): { valid: boolean; reason?: string } {
+    if (!this.filePath) {
+      return { valid: true };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.log(`📜 No rules file at ${this.filePath} - running without policy rules`);
+        this.ruleSet = { version: 0, rules: [] };
+        this.loadedAt = Date.now();
+        this.lastError = undefined;
+        return { valid: true };
+      }
+      return this.reject(`Could not parse ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const validation = validateRuleSet(raw);
+    if (!validation.valid) {
+      return this.reject(validation.reason!);
+    }
+
+    this.setRuleSet(raw as RuleSet);
+    console.log(`📜 Loaded ${this.ruleSet.rules.length} policy rule(s) (v${this.ruleSet.version}) from ${this.filePath}`);
+    return { valid: true };
+  }
+
+  /**
+   * Re-read the rules file whenever it changes
+   */
+  watch(intervalMs: number = 2000): void {
+    if (!this.filePath || this.watching) return;
+    this.watching = true;
+
+    const watcher = fs.watchFile(this.filePath, { interval: intervalMs }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        console.log('📜 Rules file changed - reloading');
+        this.load();
+      }
+    });
+    // Don't keep the process alive just for the watcher
+    watcher.unref();
+  }
+
+  /**
+   * Stop watching the rules file
+   */
+  stop(): void {
+    if (this.filePath && this.watching) {
+      fs.unwatchFile(this.filePath);
+      this.watching = false;
+    }
+  }
+
+  /**
+   * Evaluate the rules for a pipeline stage
+   * Returns every enabled rule whose conditions all match, in file order.
+   * Given several fact sets (one per cart item), a rule matches if any
+   * set matches it, and is reported once.
+   */
+  evaluate(facts: RuleFacts | RuleFacts[], target: RuleTarget): RuleMatch[] {
+    const factSets = Array.isArray(facts) ? facts : [facts];
+    const matches: RuleMatch[] = [];
+
+    for (const rule of this.ruleSet.rules) {
+      if (rule.enabled === false) continue;
+      if (rule.appliesTo && !rule.appliesTo.includes(target)) continue;
+      const matched = factSets.find(set => matchesConditions(rule, set));
+      if (!matched) continue;
+
+      matches.push({
+        rule,
+        result: rule.outcome.result,
+        weight: rule.outcome.weight,
+        message: fillTemplate(rule.outcome.message, matched),
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Get the active rules
+   */
+  getRules(): PolicyRule[] {
+    return this.ruleSet.rules.map(rule => ({ ...rule }));
+  }
+
+  /**
+   * Get load status for ops
+   */
+  getStatus(): RulesStatus {
+    return {
+      filePath: this.filePath,
+      version: this.ruleSet.version,
+      ruleCount: this.ruleSet.rules.length,
+      loadedAt: this.loadedAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private setRuleSet(ruleSet: RuleSet): void {
+    this.ruleSet = ruleSet;
+    this.loadedAt = Date.now();
+    this.lastError = undefined;
+  }
+
+  private reject(reason: string): { valid: boolean; reason: string } {
+    this.lastError = reason;
+    console.log(`❌ Rules file rejected, keeping previous rules: ${reason}`);
+    return { valid: false, reason };
+  }
+}
+
+/**
+ * Validate the structure of a rules file
+ */
+export function validateRuleSet(raw: unknown): { valid: boolean; reason?: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { valid: false, reason: 'Rules file must be a JSON object' };
+  }
+
+  const { version, rules } = raw as Partial<RuleSet>;
+  if (typeof version !== 'number') {
+    return { valid: false, reason: 'Rules file needs a numeric "version"' };
+  }
+  if (!Array.isArray(rules)) {
+    return { valid: false, reason: 'Rules file needs a "rules" array' };
+  }
+
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (!rule || typeof rule.id !== 'string' || rule.id === '') {
+      return { valid: false, reason: 'Every rule needs a string "id"' };
+    }
+    if (ids.has(rule.id)) {
+      return { valid: false, reason: `Duplicate rule id "${rule.id}"` };
+    }
+    ids.add(rule.id);
+
+    if (rule.appliesTo && (!Array.isArray(rule.appliesTo) || rule.appliesTo.some(t => !TARGETS.includes(t)))) {
+      return { valid: false, reason: `Rule "${rule.id}": appliesTo must list ${TARGETS.join(' and/or ')}` };
+    }
+
+    if (!rule.when || typeof rule.when !== 'object') {
+      return { valid: false, reason: `Rule "${rule.id}" needs a "when" object` };
+    }
+    for (const [field, operators] of Object.entries(rule.when)) {
+      if (!RULE_FIELDS.includes(field as RuleField)) {
+        return { valid: false, reason: `Rule "${rule.id}": unknown field "${field}"` };
+      }
+      if (!operators || typeof operators !== 'object' || Object.keys(operators).length === 0) {
+        return { valid: false, reason: `Rule "${rule.id}": "${field}" needs at least one operator` };
+      }
+      for (const [op, value] of Object.entries(operators)) {
+        if (!OPERATORS.includes(op as keyof RuleOperators)) {
+          return { valid: false, reason: `Rule "${rule.id}": unknown operator "${op}" on "${field}"` };
+        }
+        if ((op === 'in' || op === 'notIn') && !Array.isArray(value)) {
+          return { valid: false, reason: `Rule "${rule.id}": "${op}" on "${field}" needs an array` };
+        }
+        if (['gt', 'gte', 'lt', 'lte'].includes(op) && typeof value !== 'number') {
+          return { valid: false, reason: `Rule "${rule.id}": "${op}" on "${field}" needs a number` };
+        }
+      }
+    }
+
+    const { outcome } = rule;
+    if (!outcome || !RESULTS.includes(outcome.result)) {
+      return { valid: false, reason: `Rule "${rule.id}": outcome.result must be pass, warn or fail` };
+    }
+    if (typeof outcome.weight !== 'number' || outcome.weight < 0 || outcome.weight > 1) {
+      return { valid: false, reason: `Rule "${rule.id}": outcome.weight must be between 0 and 1` };
+    }
+    if (typeof outcome.message !== 'string') {
+      return { valid: false, reason: `Rule "${rule.id}": outcome.message must be a string` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check every condition of a rule against the facts
+ */
+function matchesConditions(rule: PolicyRule, facts: RuleFacts): boolean {
+  return Object.entries(rule.when).every(([field, operators]) => {
+    const value = facts[field as RuleField];
+    if (value === undefined || !operators) {
+      return false;
+    }
+    return matchesOperators(normalize(value), operators);
+  });
+}
+
+function matchesOperators(value: string | number, operators: RuleOperators): boolean {
+  const { eq, neq, gt, gte, lt, lte } = operators;
+  if (eq !== undefined && value !== normalize(eq)) return false;
+  if (neq !== undefined && value === normalize(neq)) return false;
+  if (gt !== undefined && !(typeof value === 'number' && value > gt)) return false;
+  if (gte !== undefined && !(typeof value === 'number' && value >= gte)) return false;
+  if (lt !== undefined && !(typeof value === 'number' && value < lt)) return false;
+  if (lte !== undefined && !(typeof value === 'number' && value <= lte)) return false;
+  if (operators.in && !operators.in.map(normalize).includes(value)) return false;
+  if (operators.notIn && operators.notIn.map(normalize).includes(value)) return false;
+  return true;
+}
+
+/**
+ * Strings compare case-insensitively (addresses, item names)
+ */
+function normalize(value: string | number): string | number {
+  return typeof value === 'string' ? value.toLowerCase() : value;
+}
+
+/**
+ * Fill {field} placeholders in a rule message
+ */
+function fillTemplate(message: string, facts: RuleFacts): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, field: string) => {
+    const value = facts[field as RuleField];
+    return value === undefined ? placeholder : String(value);
+  });
+}
@@ -0,0 +1,12 @@
+import { config } from '../config';
+import { RulesEngine } from './RulesEngine';
+
+/**
+ * Create the rules engine from POLICY_RULES_FILE and watch it for changes
+ */
+export function createRulesEngine(): RulesEngine {
+  const engine = new RulesEngine(config.rules.filePath);
+  engine.load();
+  engine.watch(config.rules.reloadIntervalMs);
+  return engine;
+}
@@ -0,0 +1,39 @@
+import { RuleFacts } from './types';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { CartLine } from '../cart/types';
+
+/**
+ * Build rule facts for an order
+ * Time-of-day facts are derived from `time` in the shop's timezone;
+ * everything else is copied from what the caller knows.
+ */
+export function buildRuleFacts(
+  facts: Omit<RuleFacts, 'hour' | 'dayOfWeek'>,
+  time: number,
+  schedule: BusinessSchedule
+): RuleFacts {
+  const local = schedule.getLocalTime(time);
+  return {
+    ...facts,
+    hour: local.hour,
+    dayOfWeek: local.dayOfWeek,
+  };
+}
+
+/**
+ * Build rule facts for each distinct item in a cart
+ * Order-level facts (amount, quantity, ...) are shared; item and category
+ * vary. Without cart lines, this is just the order's own facts.
+ */
+export function buildCartRuleFacts(
+  facts: Omit<RuleFacts, 'hour' | 'dayOfWeek'>,
+  lines: CartLine[] | undefined,
+  time: number,
+  schedule: BusinessSchedule
+): RuleFacts[] {
+  if (!lines || lines.length === 0) {
+    return [buildRuleFacts(facts, time, schedule)];
+  }
+  const items = new Map(lines.map(line => [line.item, line.category]));
+  return [...items].map(([item, category]) => buildRuleFacts({ ...facts, item, category }, time, schedule));
+}
@@ -0,0 +1,11 @@
+/**
+ * Policy Rules Exports
+ *
+ * Declarative shop policy, evaluated by both the AI decision layer
+ * and the approval agent.
+ */
+
+export * from './types';
+export { RulesEngine, validateRuleSet } from './RulesEngine';
+export { createRulesEngine } from './createRulesEngine';
+export { buildRuleFacts, buildCartRuleFacts } from './facts';
@@ -0,0 +1,90 @@
+import { ReasoningStep } from '../ai/types';
+
+/**
+ * Facts a rule condition can test
+ * Facts a pipeline stage cannot provide are left unset, and a
+ * condition on an unset fact never matches.
+ */
+export interface RuleFacts {
+  amount: number;               // Order total (USDT)
+  quantity?: number;
+  intent?: string;
+  item: string;
+  category: string;             // Item category, e.g. "coffee", "premium"
+  userAddress: string;
+  merchantAddress?: string;
+  hour: number;                 // Local hour of day, 0-23
+  dayOfWeek: number;            // 0 = Sunday
+  recentOrderCount?: number;    // User's orders in the last hour (velocity)
+  dailySpending?: number;       // Shop-wide spending in the daily window
+  userDailySpending?: number;   // This user's spending in the daily window
+  agentBalance?: number;
+}
+
+export type RuleField = keyof RuleFacts;
+
+/**
+ * Comparison operators, e.g. { "gte": 0.5 } or { "in": ["premium"] }
+ */
+export interface RuleOperators {
+  eq?: string | number;
+  neq?: string | number;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  in?: Array<string | number>;
+  notIn?: Array<string | number>;
+}
+
+/**
+ * Pipeline stage a rule is evaluated in
+ */
+export type RuleTarget = 'ai' | 'approval';
+
+/**
+ * A declarative policy rule
+ * Every field in `when` must match for the outcome to apply.
+ */
+export interface PolicyRule {
+  id: string;
+  name?: string;                                   // Shown as the reasoning check (defaults to id)
+  description?: string;
+  enabled?: boolean;                               // Defaults to true
+  appliesTo?: RuleTarget[];                        // Defaults to both stages
+  when: Partial<Record<RuleField, RuleOperators>>;
+  outcome: {
+    result: ReasoningStep['result'];
+    weight: number;                                // 0-1, like built-in checks
+    message: string;                               // {field} placeholders are filled from facts
+  };
+}
+
+/**
+ * Contents of a rules file
+ */
+export interface RuleSet {
+  version: number;
+  rules: PolicyRule[];
+}
+
+/**
+ * A rule whose conditions matched
+ */
+export interface RuleMatch {
+  rule: PolicyRule;
+  result: ReasoningStep['result'];
+  weight: number;
+  message: string;
+}
+
+/**
+ * Rules engine status, for ops
+ */
+export interface RulesStatus {
+  filePath: string | null;
+  version: number;
+  ruleCount: number;
+  loadedAt: number | null;
+  lastError?: string;           // Set when the latest reload was rejected
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BusinessSchedule } from './BusinessSchedule';
+import { WEEKDAYS } from './types';
+
+function everyDay(open: string, close: string, timezone: string): BusinessSchedule {
+  return new BusinessSchedule({
+    timezone,
+    weekly: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open, close }]])),
+  });
+}
+
+const iso = (time: number | undefined) => time === undefined ? undefined : new Date(time).toISOString();
+
+describe('BusinessSchedule', () => {
+  it('reads opening hours in the shop timezone', () => {
+    const schedule = everyDay('08:00', '20:00', 'Asia/Shanghai');
+    assert.equal(schedule.isOpen(Date.parse('2026-05-04T01:00:00Z')), true);   // 09:00 local
+    assert.equal(schedule.isOpen(Date.parse('2026-05-04T13:00:00Z')), false);  // 21:00 local
+    assert.equal(iso(schedule.getNextOpening(Date.parse('2026-05-04T13:00:00Z'))), '2026-05-05T00:00:00.000Z');
+  });
+
+  describe('daylight saving', () => {
+    const newYork = everyDay('02:30', '23:00', 'America/New_York');
+
+    it('moves an opening time the clocks skip forward by the gap', () => {
+      // 2026-03-08: 02:00 EST jumps to 03:00 EDT
+      const status = newYork.getStatus(Date.parse('2026-03-08T05:00:00Z'));
+      assert.equal(status.message, 'Closed, opens at 03:30');
+      assert.equal(iso(status.opensAt), '2026-03-08T07:30:00.000Z');
+    });
+
+    it('moves forward in zones east of UTC too', () => {
+      // 2026-03-29: 02:00 CET jumps to 03:00 CEST
+      const berlin = everyDay('02:30', '23:00', 'Europe/Berlin');
+      assert.equal(iso(berlin.getNextOpening(Date.parse('2026-03-29T00:00:00Z'))), '2026-03-29T01:30:00.000Z');
+    });
+
+    it('uses the offset in force on either side of the change', () => {
+      assert.equal(iso(newYork.getNextOpening(Date.parse('2026-03-07T05:00:00Z'))), '2026-03-07T07:30:00.000Z');
+      assert.equal(iso(newYork.getNextOpening(Date.parse('2026-03-10T05:00:00Z'))), '2026-03-10T06:30:00.000Z');
+    });
+
+    it('picks the first of a repeated hour', () => {
+      // 2026-11-01: 02:00 EDT falls back to 01:00 EST
+      const repeated = everyDay('01:30', '23:00', 'America/New_York');
+      assert.equal(iso(repeated.getNextOpening(Date.parse('2026-11-01T04:00:00Z'))), '2026-11-01T05:30:00.000Z');
+    });
+  });
+
+  it('starts the day at the shop\'s midnight', () => {
+    const schedule = everyDay('08:00', '20:00', 'Asia/Shanghai');
+    // 01:00 on 2 May local is still 1 May in UTC
+    assert.equal(iso(schedule.getStartOfDay(Date.parse('2026-05-01T17:00:00Z'))), '2026-05-01T16:00:00.000Z');
+  });
+});
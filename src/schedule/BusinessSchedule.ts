@@ -0,0 +1,287 @@
+import {
+  OpeningHours,
+  ScheduleException,
+  ScheduleStatus,
+  ShopSchedule,
+  WEEKDAYS,
+  Weekday,
+  ZonedTime,
+} from './types';
+
+// How far ahead to look for the next opening
+const MAX_LOOKAHEAD_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every day 06:00-23:00 in the server's timezone
+ */
+export const DEFAULT_SCHEDULE: ShopSchedule = {
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  weekly: Object.fromEntries(WEEKDAYS.map(day => [day, [{ open: '06:00', close: '23:00' }]])),
+};
+
+/**
+ * Business Schedule - When the shop is open, in the shop's own timezone
+ *
+ * Shared by the AI engine (business-hours check and DELAY scheduling),
+ * the approval step's policy rules and /menu, so they all agree on
+ * whether the shop is open regardless of the server host's timezone.
+ */
+export class BusinessSchedule {
+  private schedule: ShopSchedule;
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(schedule: ShopSchedule = DEFAULT_SCHEDULE) {
+    const validation = validateSchedule(schedule);
+    if (!validation.valid) {
+      throw new Error(`Invalid shop schedule: ${validation.reason}`);
+    }
+    this.schedule = schedule;
+    this.formatter = createFormatter(schedule.timezone);
+  }
+
+  /**
+   * Is the shop open at this time, and if not, when does it open?
+   */
+  getStatus(time: number = Date.now()): ScheduleStatus {
+    const local = this.getLocalTime(time);
+    const minutes = local.hour * 60 + local.minute;
+    const exception = this.getException(local.date);
+    const hoursToday = this.getHours(local.date, local.weekday);
+    const current = hoursToday.find(hours => toMinutes(hours.open) <= minutes && minutes < toMinutes(hours.close));
+
+    const base = {
+      timezone: this.schedule.timezone,
+      localTime: `${local.date} ${pad(local.hour)}:${pad(local.minute)}`,
+      hoursToday,
+      closedFor: exception?.closed ? exception.name || 'Holiday' : undefined,
+      event: exception && !exception.closed ? exception.name : undefined,
+    };
+
+    if (current) {
+      return {
+        ...base,
+        open: true,
+        closesAt: this.toTime(local.date, toMinutes(current.close)),
+        message: `Open until ${current.close}`,
+      };
+    }
+
+    const opensAt = this.getNextOpening(time);
+    let message = base.closedFor ? `Closed (${base.closedFor})` : 'Closed';
+    if (opensAt !== undefined) {
+      const opening = this.getLocalTime(opensAt);
+      const day = opening.date === local.date
+        ? ''
+        : opensAt - time < DAY_MS * 2 && this.getLocalTime(time + DAY_MS).date === opening.date
+          ? ' tomorrow'
+          : ` on ${capitalize(opening.weekday)} ${opening.date}`;
+      message += `, opens at ${pad(opening.hour)}:${pad(opening.minute)}${day}`;
+    }
+
+    return { ...base, open: false, opensAt, message };
+  }
+
+  /**
+   * Is the shop open at this time?
+   */
+  isOpen(time: number = Date.now()): boolean {
+    return this.getStatus(time).open;
+  }
+
+  /**
+   * Start of the next opening period after `time`
+   * Returns undefined if the shop stays closed for the next two weeks.
+   */
+  getNextOpening(time: number = Date.now()): number | undefined {
+    const local = this.getLocalTime(time);
+    const minutes = local.hour * 60 + local.minute;
+    const [year, month, day] = local.date.split('-').map(Number);
+
+    for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+      const date = new Date(Date.UTC(year, month - 1, day + offset));
+      const dateString = date.toISOString().slice(0, 10);
+      const opens = this.getHours(dateString, WEEKDAYS[date.getUTCDay()])
+        .map(hours => toMinutes(hours.open))
+        .filter(open => offset > 0 || open > minutes)
+        .sort((a, b) => a - b);
+
+      if (opens.length > 0) {
+        return this.toTime(dateString, opens[0]);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Start of the shop-local day that `time` falls on
+   */
+  getStartOfDay(time: number = Date.now()): number {
+    return this.toTime(this.getLocalTime(time).date, 0);
+  }
+
+  /**
+   * Wall-clock time in the shop's timezone
+   */
+  getLocalTime(time: number = Date.now()): ZonedTime {
+    const parts = Object.fromEntries(
+      this.formatter.formatToParts(new Date(time)).map(part => [part.type, part.value])
+    );
+    const date = `${parts.year}-${parts.month}-${parts.day}`;
+    const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return {
+      date,
+      weekday: WEEKDAYS[dayOfWeek],
+      dayOfWeek,
+      hour: Number(parts.hour) % 24,
+      minute: Number(parts.minute),
+    };
+  }
+
+  /**
+   * Get the schedule
+   */
+  getSchedule(): ShopSchedule {
+    return this.schedule;
+  }
+
+  /**
+   * Get the shop's IANA timezone
+   */
+  getTimeZone(): string {
+    return this.schedule.timezone;
+  }
+
+  private getException(date: string): ScheduleException | undefined {
+    return this.schedule.exceptions?.find(exception => exception.date === date);
+  }
+
+  private getHours(date: string, weekday: Weekday): OpeningHours[] {
+    const exception = this.getException(date);
+    if (exception?.closed) return [];
+    if (exception?.hours) return exception.hours;
+    return this.schedule.weekly[weekday] || [];
+  }
+
+  /**
+   * Epoch time of a shop-local date and minute of day
+   * Corrects for the timezone offset at that moment (DST-safe). A time
+   * the clocks skip over moves forward by the gap (02:30 → 03:30).
+   */
+  private toTime(date: string, minuteOfDay: number): number {
+    const [year, month, day] = date.split('-').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, 0, minuteOfDay);
+    const guess = wallClock - this.getOffset(wallClock);
+    const corrected = wallClock - this.getOffset(guess);
+    // In a gap neither guess reads back as the requested wall clock; the later one is after the jump
+    if (wallClock - this.getOffset(corrected) !== corrected) {
+      return Math.max(guess, corrected);
+    }
+    return corrected;
+  }
+
+  /**
+   * Offset of the shop's timezone from UTC at a moment, in ms
+   */
+  private getOffset(time: number): number {
+    const local = this.getLocalTime(time);
+    const [year, month, day] = local.date.split('-').map(Number);
+    const wholeMinute = Math.floor(time / 60000) * 60000;
+    return Date.UTC(year, month - 1, day, local.hour, local.minute) - wholeMinute;
+  }
+}
+
+/**
+ * Validate a schedule (e.g. one read from the schedule file)
+ */
+export function validateSchedule(raw: unknown): { valid: boolean; reason?: string } {
+  if (!raw || typeof raw !== 'object') {
+    return { valid: false, reason: 'Schedule must be a JSON object' };
+  }
+
+  const { timezone, weekly, exceptions } = raw as Partial<ShopSchedule>;
+  if (typeof timezone !== 'string') {
+    return { valid: false, reason: 'Schedule needs a "timezone"' };
+  }
+  try {
+    createFormatter(timezone);
+  } catch {
+    return { valid: false, reason: `Unknown timezone "${timezone}" (use an IANA name like "Asia/Shanghai")` };
+  }
+
+  if (!weekly || typeof weekly !== 'object') {
+    return { valid: false, reason: 'Schedule needs a "weekly" object' };
+  }
+  for (const [day, hours] of Object.entries(weekly)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      return { valid: false, reason: `Unknown weekday "${day}"` };
+    }
+    const reason = validateHours(hours, day);
+    if (reason) return { valid: false, reason };
+  }
+
+  if (exceptions !== undefined) {
+    if (!Array.isArray(exceptions)) {
+      return { valid: false, reason: '"exceptions" must be an array' };
+    }
+    for (const exception of exceptions) {
+      if (!exception || typeof exception.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(exception.date)) {
+        return { valid: false, reason: 'Every exception needs a "date" (YYYY-MM-DD)' };
+      }
+      if (!exception.closed && exception.hours === undefined) {
+        return { valid: false, reason: `Exception ${exception.date} needs "closed": true or "hours"` };
+      }
+      if (exception.hours !== undefined) {
+        const reason = validateHours(exception.hours, exception.date);
+        if (reason) return { valid: false, reason };
+      }
+    }
+  }
+
+  return { valid: true };
+}
+
+function validateHours(hours: unknown, label: string): string | undefined {
+  if (!Array.isArray(hours)) {
+    return `Hours for ${label} must be an array of { open, close }`;
+  }
+  for (const period of hours) {
+    if (!period || !isClockTime(period.open) || !isClockTime(period.close)) {
+      return `Hours for ${label} need "open" and "close" as HH:MM`;
+    }
+    if (toMinutes(period.open) >= toMinutes(period.close)) {
+      return `Hours for ${label}: ${period.open} must be before ${period.close}`;
+    }
+  }
+  return undefined;
+}
+
+function isClockTime(value: unknown): value is string {
+  return typeof value === 'string' &&
+    /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/.test(value);
+}
+
+function toMinutes(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function createFormatter(timeZone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
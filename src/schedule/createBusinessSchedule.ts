@@ -0,0 +1,28 @@
+import fs from 'fs';
+import { config } from '../config';
+import { BusinessSchedule, DEFAULT_SCHEDULE } from './BusinessSchedule';
+import { ShopSchedule } from './types';
+
+/**
+ * Create the shop schedule from SHOP_SCHEDULE_FILE and SHOP_TIMEZONE
+ * A missing file means the default hours; an invalid one stops startup.
+ * Without a timezone in either place, the server's timezone is used.
+ */
+export function createBusinessSchedule(): BusinessSchedule {
+  const { filePath, timezone } = config.schedule;
+  let schedule: ShopSchedule = DEFAULT_SCHEDULE;
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    schedule = { ...raw, timezone: raw?.timezone || DEFAULT_SCHEDULE.timezone };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Could not parse ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    console.log(`🕒 No schedule file at ${filePath} - using default hours`);
+  }
+
+  const businessSchedule = new BusinessSchedule(timezone ? { ...schedule, timezone } : schedule);
+  console.log(`🕒 Shop timezone: ${businessSchedule.getTimeZone()}`);
+  return businessSchedule;
+}
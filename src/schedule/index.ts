@@ -0,0 +1,10 @@
+/**
+ * Shop Schedule Exports
+ *
+ * Opening hours in the shop's timezone, shared by the AI engine,
+ * the approval agent and /menu.
+ */
+
+export * from './types';
+export { BusinessSchedule, DEFAULT_SCHEDULE, validateSchedule } from './BusinessSchedule';
+export { createBusinessSchedule } from './createBusinessSchedule';
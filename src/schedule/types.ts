@@ -0,0 +1,61 @@
+/**
+ * Shop Schedule Types
+ */
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+/**
+ * One opening period in shop-local time, e.g. { open: "07:00", close: "19:30" }
+ * close may be "24:00" for midnight.
+ */
+export interface OpeningHours {
+  open: string;
+  close: string;
+}
+
+/**
+ * A date with different hours - a holiday closure or a special event
+ */
+export interface ScheduleException {
+  date: string;                 // Shop-local date, YYYY-MM-DD
+  name?: string;                // e.g. "Christmas Day"
+  closed?: boolean;             // Closed all day
+  hours?: OpeningHours[];       // Replaces the weekday's hours
+}
+
+/**
+ * The shop's opening hours
+ */
+export interface ShopSchedule {
+  timezone: string;             // IANA timezone, e.g. "Asia/Shanghai"
+  weekly: Partial<Record<Weekday, OpeningHours[]>>;   // Missing weekday → closed
+  exceptions?: ScheduleException[];
+}
+
+/**
+ * Wall-clock time in the shop's timezone
+ */
+export interface ZonedTime {
+  date: string;                 // YYYY-MM-DD
+  weekday: Weekday;
+  dayOfWeek: number;            // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Whether the shop is open at a point in time
+ */
+export interface ScheduleStatus {
+  open: boolean;
+  timezone: string;
+  localTime: string;            // YYYY-MM-DD HH:MM in the shop's timezone
+  hoursToday: OpeningHours[];
+  closedFor?: string;           // Name of the holiday closing the shop today
+  event?: string;               // Name of today's special event
+  closesAt?: number;            // When open: end of the current period
+  opensAt?: number;             // When closed: start of the next period
+  message: string;              // e.g. "Closed, opens at 07:00"
+}
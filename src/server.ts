@@ -5,12 +5,45 @@ import {
   AgentOrchestrator, 
   createOrchestrator,
   OrderStatus,
+  OrderEvent,
+  generateOrderId,
 } from './agents';
 import {
+  AIDecision,
+  RiskLevel,
   UserIntent,
   IntentOrderRequest,
   AIEnhancedOrderResponse,
+  createReasoningProvider,
 } from './ai';
+import { buildCart, createCartLine, describeCart, Cart, CartLineRequest } from './cart';
+import {
+  createOrderRepository,
+  createSpendingLedger,
+  createAuditLog,
+  createResponseFromRecord,
+  toPublicRecord,
+  toPublicResponse,
+  AuditChange,
+  IdempotencyStore,
+  OrderQuery,
+} from './store';
+import { createRulesEngine } from './rules';
+import { createBusinessSchedule } from './schedule';
+import { createMenuCatalog } from './menu';
+import { createInventory } from './inventory';
+import { createPromotionsEngine, PriceBreakdown } from './promotions';
+import { resolveTip, describeTip, OrderTip, TipRequest } from './tips';
+import { findLastCompletedOrder, planRepeatOrder, RepeatOrderPlan } from './repeat';
+import { createOrderParser, OrderTextParse } from './nl';
+import { Backtester, EngineSetup, loadCasesFromRepository } from './backtest';
+import {
+  parseAdminTokens,
+  requireAdmin,
+  validatePolicyUpdate,
+  validateAIConfigUpdate,
+  validateSettingsUpdate,
+} from './admin';
 
 /**
  * HTTP Server for AI-Enhanced Multi-Agent Coffee Shop
@@ -31,6 +64,44 @@ app.use(express.json());
 // Global Orchestrator instance
 let orchestrator: AgentOrchestrator | null = null;
 
+// Order store - available even if the agents fail to initialize
+const orderRepository = createOrderRepository();
+
+// Opening hours in the shop's timezone - shared by the AI engine, approval and /menu
+const businessSchedule = createBusinessSchedule();
+
+// Completed payments - shared by the AI engine and the approval step; days follow the shop's timezone
+const spendingLedger = createSpendingLedger(businessSchedule);
+
+// Declarative policy rules - reloaded when the rules file changes
+const rulesEngine = createRulesEngine();
+
+// Item ids, prices and availability - clients never set prices
+const menuCatalog = createMenuCatalog();
+
+// Stock of tracked menu items - held while an order is in the pipeline
+const inventory = createInventory(menuCatalog);
+
+// Coupon codes, discounts and happy hours - applied before the AI sees the price
+const promotionsEngine = createPromotionsEngine(businessSchedule);
+
+// Admin API - bearer tokens from ADMIN_TOKENS, changes recorded in the audit log
+const adminAuth = requireAdmin(parseAdminTokens(config.admin.tokens));
+const auditLog = createAuditLog();
+
+// Deduplicates POST /order retries that carry an Idempotency-Key
+const idempotencyStore = new IdempotencyStore(
+  orderRepository,
+  config.storage.idempotencyTtlSeconds * 1000
+);
+
+// Turns order sentences into orders (POST /order/nl)
+const orderParser = createOrderParser();
+const MAX_ORDER_TEXT_LENGTH = 500;
+
+// Furthest ahead an order may be scheduled
+const MAX_SCHEDULE_AHEAD_MS = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Order request with intent from frontend
  */
@@ -39,8 +110,14 @@ interface OrderRequest {
   item: string;
   price: number;
   quantity?: number;
+  cart?: CartLineRequest[];  // Multi-item order, priced from the menu (replaces item/price/quantity)
+  couponCode?: string;
+  tip?: TipRequest;     // { amount } or { percent } of the discounted price; required for custom_tip
+  repeatOf?: string;    // repeat_order: the order being repeated, accepting any changes to it
   userAddress: string;
-  confirmed?: boolean;  // User confirmed after AI asked
+  async?: boolean;      // Respond 202 immediately; follow progress via /orders/:id/events
+  dryRun?: boolean;     // Return the AI decision only - nothing is placed or recorded
+  scheduledFor?: number | string;  // Run later (epoch ms or ISO date), e.g. "order for 7am"
   metadata?: {
     simulateHighPrice?: boolean;
     simulateLowBalance?: boolean;
@@ -58,7 +135,8 @@ async function initializeAgents(): Promise<void> {
   try {
     validateMultiAgentConfig();
     const multiAgentConfig = getMultiAgentConfig();
-    orchestrator = await createOrchestrator(multiAgentConfig);
+    orchestrator = await createOrchestrator(multiAgentConfig, orderRepository, spendingLedger, rulesEngine, businessSchedule, menuCatalog, inventory);
+    orchestrator.getAIEngine().setReasoningProvider(createReasoningProvider(businessSchedule));
     console.log('\n✅ Multi-Agent system initialized and ready');
     console.log('🧠 AI Decision Engine: ACTIVE');
   } catch (error) {
@@ -105,6 +183,17 @@ app.get('/agent', async (_req: Request, res: Response) => {
   }
 
   const systemInfo = orchestrator.getSystemInfo();
+  let dailySpending: number;
+  try {
+    dailySpending = await orchestrator.getDailySpending();
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load daily spending',
+    });
+    return;
+  }
+
   let paymentBalance = '0';
   
   try {
@@ -122,10 +211,15 @@ app.get('/agent', async (_req: Request, res: Response) => {
         approvalThreshold: systemInfo.policy.approvalThreshold,
         maxSinglePayment: systemInfo.policy.maxSinglePayment,
         maxDailySpending: systemInfo.policy.maxDailySpending,
+        maxTipAmount: systemInfo.policy.maxTipAmount,
+        maxTipPercent: systemInfo.policy.maxTipPercent,
+        userLimit: systemInfo.policy.userLimit,
+        merchantLimits: systemInfo.policy.merchantLimits,
+        categoryLimits: systemInfo.policy.categoryLimits,
         allowedCurrencies: ['USDT'],
       },
       aiConfig: systemInfo.aiConfig,
-      dailySpending: systemInfo.dailySpending,
+      dailySpending,
       paymentAgentBalance: paymentBalance,
     },
   });
@@ -194,76 +288,187 @@ app.get('/intents', (_req: Request, res: Response) => {
 /**
  * Get menu endpoint with AI decision hints
  */
-app.get('/menu', (_req: Request, res: Response) => {
+app.get('/menu', async (_req: Request, res: Response) => {
   const systemInfo = orchestrator?.getSystemInfo();
   const threshold = systemInfo?.policy.approvalThreshold || 0.5;
   const maxPayment = systemInfo?.policy.maxSinglePayment || 1.0;
   const aiThreshold = systemInfo?.aiConfig?.autoApproveThreshold || 0.8;
+  const shopStatus = businessSchedule.getStatus();
 
-  const menu = [
-    { 
-      item: 'Espresso', 
-      price: 0.02, 
-      currency: 'USDT',
-      aiHint: '✅ Auto-approved (high confidence)',
-      expectedDecision: 'approve',
-    },
-    { 
-      item: 'Latte', 
-      price: 0.03, 
-      currency: 'USDT',
-      aiHint: '✅ Auto-approved (high confidence)',
-      expectedDecision: 'approve',
-    },
-    { 
-      item: 'Cappuccino', 
-      price: 0.04, 
-      currency: 'USDT',
-      aiHint: '✅ Auto-approved (high confidence)',
-      expectedDecision: 'approve',
-    },
-    { 
-      item: 'Americano', 
-      price: 0.025, 
-      currency: 'USDT',
-      aiHint: '✅ Auto-approved (high confidence)',
-      expectedDecision: 'approve',
-    },
-    { 
-      item: 'Special Blend', 
-      price: 0.6, 
-      currency: 'USDT',
-      aiHint: `⚠️ May need confirmation (>${threshold} USDT)`,
-      expectedDecision: 'confirm',
-    },
-    { 
-      item: 'Premium Gold Coffee', 
-      price: 1.5, 
-      currency: 'USDT',
-      aiHint: `❌ Will be rejected (>${maxPayment} USDT limit)`,
-      expectedDecision: 'reject',
-    },
-  ];
+  try {
+    const levels = new Map((await inventory.getLevels()).map(level => [level.itemId, level.available]));
+
+    const menu = menuCatalog.getItems().map(({ stock: _openingStock, ...item }) => {
+      const stock = levels.get(item.id);
+      const soldOut = stock === 0;
+      const entry = { ...item, available: item.available && !soldOut, stock, soldOut };
+      if (soldOut) {
+        return { ...entry, aiHint: '⛔ Sold out', expectedDecision: 'unavailable' };
+      }
+      if (!entry.available) {
+        return { ...entry, aiHint: '⛔ Not available right now', expectedDecision: 'unavailable' };
+      }
+      if (entry.price > maxPayment) {
+        return { ...entry, aiHint: `❌ Will be rejected (>${maxPayment} USDT limit)`, expectedDecision: 'reject' };
+      }
+      if (entry.price > threshold) {
+        return { ...entry, aiHint: `⚠️ May need confirmation (>${threshold} USDT)`, expectedDecision: 'confirm' };
+      }
+      return { ...entry, aiHint: '✅ Auto-approved (high confidence)', expectedDecision: 'approve' };
+    });
   
-  res.json({
-    success: true,
-    data: menu,
-    policy: {
-      approvalThreshold: threshold,
-      maxSinglePayment: maxPayment,
-    },
-    aiInfo: {
-      autoApproveThreshold: aiThreshold,
-      message: 'AI evaluates each order based on amount, frequency, balance, and time',
-    },
-  });
+    res.json({
+      success: true,
+      data: menu,
+      modifierGroups: menuCatalog.getModifierGroups(),
+      promotions: promotionsEngine.getActive(),
+      policy: {
+        approvalThreshold: threshold,
+        maxSinglePayment: maxPayment,
+      },
+      shopStatus: {
+        open: shopStatus.open,
+        message: shopStatus.message,
+        timezone: shopStatus.timezone,
+        localTime: shopStatus.localTime,
+        hoursToday: shopStatus.hoursToday,
+        closesAt: shopStatus.closesAt,
+        opensAt: shopStatus.opensAt,
+        event: shopStatus.event,
+      },
+      aiInfo: {
+        autoApproveThreshold: aiThreshold,
+        message: 'AI evaluates each order based on amount, frequency, balance, and time',
+      },
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load menu',
+    });
+  }
 });
 
+/**
+ * Build the rejection response for an invalid order request
+ */
+function createInputErrorResponse(error: string): AIEnhancedOrderResponse {
+  return {
+    success: false,
+    orderId: '',
+    aiDecision: {
+      decision: AIDecision.REJECT,
+      confidence: 1,
+      riskLevel: RiskLevel.HIGH,
+      reasoning: [{ 
+        check: 'Input Validation', 
+        result: 'fail', 
+        detail: error, 
+        weight: 1 
+      }],
+      summary: `❌ ${error}`,
+      processingTime: 0,
+      timestamp: Date.now(),
+    },
+    error,
+  };
+}
+
+/**
+ * Take promotions off an order priced from the menu
+ * A single-item order is priced as a one-line cart. Time-window
+ * promotions are matched at the time the order will run.
+ */
+function applyPromotions(
+  cart: Cart | undefined,
+  item: string,
+  quantity: number,
+  couponCode: unknown,
+  time: number
+): { valid: boolean; reason?: string; pricing?: PriceBreakdown } {
+  if (couponCode !== undefined && (typeof couponCode !== 'string' || couponCode.trim() === '')) {
+    return { valid: false, reason: 'couponCode must be a non-empty string' };
+  }
+  const lines = cart ? cart.lines : [createCartLine(menuCatalog.findItem(item)!, quantity)];
+  return promotionsEngine.apply(lines, couponCode, time);
+}
+
+/**
+ * Work out the tip on an order from its discounted price
+ * The tip goes to the tip jar when one is configured, else to the merchant;
+ * a custom_tip order must carry one.
+ */
+function applyTip(
+  tipRequest: unknown,
+  intent: UserIntent,
+  price: number
+): { valid: boolean; reason?: string; tip?: OrderTip } {
+  if (tipRequest === undefined || tipRequest === null) {
+    return intent === UserIntent.CUSTOM_TIP
+      ? { valid: false, reason: 'custom_tip orders need a tip: { amount } or { percent }' }
+      : { valid: true };
+  }
+  const recipient = config.payment.tipRecipientAddress || config.payment.defaultMerchantAddress;
+  return resolveTip(tipRequest, price, recipient);
+}
+
+/**
+ * Rebuild a user's last completed order for REPEAT_ORDER
+ * If prices or availability changed since, the order only goes ahead once
+ * resubmitted with repeatOf naming the order being repeated. A dry run
+ * always previews the rebuilt order. Store errors come back as a 500.
+ */
+async function resolveRepeat(
+  userAddress: string,
+  repeatOf: unknown,
+  dryRun: boolean
+): Promise<{ valid: boolean; status?: number; reason?: string; plan?: RepeatOrderPlan }> {
+  let plan: RepeatOrderPlan;
+  try {
+    const source = await findLastCompletedOrder(orderRepository, userAddress);
+    if (!source) {
+      return { valid: false, status: 404, reason: 'No completed order to repeat' };
+    }
+    plan = await planRepeatOrder(source, menuCatalog, inventory);
+  } catch (error) {
+    return { valid: false, status: 500, reason: error instanceof Error ? error.message : 'Failed to load your last order' };
+  }
+
+  if (plan.lines.length === 0) {
+    return { valid: false, status: 409, reason: 'Nothing from your last order can be ordered right now', plan };
+  }
+  if (repeatOf !== undefined && repeatOf !== plan.sourceOrderId) {
+    return {
+      valid: false,
+      status: 409,
+      reason: `Your last completed order is ${plan.sourceOrderId}, not ${repeatOf} - review it and resubmit`,
+      plan,
+    };
+  }
+  if (plan.changes.length > 0 && repeatOf === undefined && !dryRun) {
+    return {
+      valid: false,
+      status: 409,
+      reason: 'Your last order has changed since you placed it - review the changes and resubmit with repeatOf',
+      plan,
+    };
+  }
+  return { valid: true, plan };
+}
+
 /**
  * Process order with AI decision layer
  * POST /order
  * 
  * This is the main endpoint that demonstrates AI decision-making
+ *
+ * Send an Idempotency-Key header to make retries safe: repeats within the
+ * window return the original order instead of paying again.
+ *
+ * With dryRun: true only the AI decision is returned; nothing is placed.
+ *
+ * intent: repeat_order ignores item/price/cart and repeats the user's last
+ * completed order at today's prices (409 with the changes if any).
  */
 app.post('/order', async (req: Request, res: Response) => {
   console.log('\n📥 Received AI-enhanced order request');
@@ -273,9 +478,9 @@ app.post('/order', async (req: Request, res: Response) => {
       success: false,
       orderId: '',
       aiDecision: {
-        decision: 'reject' as any,
+        decision: AIDecision.REJECT,
         confidence: 0,
-        riskLevel: 'critical' as any,
+        riskLevel: RiskLevel.CRITICAL,
         reasoning: [{ check: 'System', result: 'fail', detail: 'System not ready', weight: 1 }],
         summary: '❌ System not initialized',
         processingTime: 0,
@@ -294,60 +499,196 @@ app.post('/order', async (req: Request, res: Response) => {
     price, 
     quantity = 1,
     userAddress,
-    confirmed = false,
+    async: respondAsync = false,
+    dryRun = false,
+    scheduledFor: requestedTime,
     metadata,
+    cart: cartRequest,
+    couponCode,
+    tip: tipRequest,
+    repeatOf,
   } = req.body as OrderRequest;
+  const isRepeat = intent === UserIntent.REPEAT_ORDER;
   
-  if (!item || price === undefined || !userAddress) {
+  if ((!isRepeat && cartRequest === undefined && (!item || price === undefined)) || !userAddress) {
     const response: AIEnhancedOrderResponse = {
       success: false,
       orderId: '',
       aiDecision: {
-        decision: 'reject' as any,
+        decision: AIDecision.REJECT,
         confidence: 1,
-        riskLevel: 'high' as any,
+        riskLevel: RiskLevel.HIGH,
         reasoning: [{ 
           check: 'Input Validation', 
           result: 'fail', 
           detail: 'Missing required fields', 
           weight: 1 
         }],
-        summary: '❌ Missing required fields: item, price, userAddress',
+        summary: '❌ Missing required fields: item, price (or cart), userAddress',
         processingTime: 0,
         timestamp: Date.now(),
       },
-      error: 'Missing required fields: item, price, userAddress',
+      error: 'Missing required fields: item, price (or cart), userAddress',
     };
     res.status(400).json(response);
     return;
   }
 
+  // A repeat is rebuilt from the user's last completed order - whatever items were sent are ignored
+  let repeatPlan: RepeatOrderPlan | undefined;
+  if (isRepeat) {
+    const repeat = await resolveRepeat(userAddress, repeatOf, dryRun);
+    if (!repeat.valid) {
+      res.status(repeat.status!).json({ ...createInputErrorResponse(repeat.reason!), repeat: repeat.plan });
+      return;
+    }
+    repeatPlan = repeat.plan!;
+  }
+
+  // A cart is priced here from the menu - the client never sets its total
+  let cart: Cart | undefined;
+  if (repeatPlan || cartRequest !== undefined) {
+    const built = buildCart(repeatPlan ? repeatPlan.cart : cartRequest, menuCatalog);
+    if (!built.valid) {
+      res.status(400).json(createInputErrorResponse(`Invalid cart: ${built.reason}`));
+      return;
+    }
+    cart = built.cart;
+  } else {
+    // A single item must be on the menu at the menu's price
+    const menuCheck = menuCatalog.checkItem(item, price, quantity);
+    if (!menuCheck.valid) {
+      res.status(400).json(createInputErrorResponse(`Invalid order: ${menuCheck.reason}`));
+      return;
+    }
+  }
+
+  const idempotencyKey = req.header('Idempotency-Key') || undefined;
+  if (idempotencyKey && idempotencyKey.length > 255) {
+    res.status(400).json(createInputErrorResponse('Idempotency-Key must be at most 255 characters'));
+    return;
+  }
+
+  const scheduledFor = parseTimeParam(requestedTime);
+  if (scheduledFor !== undefined &&
+      (Number.isNaN(scheduledFor) || scheduledFor <= Date.now() || scheduledFor > Date.now() + MAX_SCHEDULE_AHEAD_MS)) {
+    res.status(400).json(createInputErrorResponse(
+      'Invalid scheduledFor. Must be a future time within 7 days (epoch ms or ISO date)'
+    ));
+    return;
+  }
+
+  const priced = applyPromotions(cart, item, quantity, couponCode, scheduledFor || Date.now());
+  if (!priced.valid) {
+    res.status(400).json(createInputErrorResponse(`Invalid order: ${priced.reason}`));
+    return;
+  }
+  const pricing = priced.pricing!;
+
+  const tipped = applyTip(tipRequest, intent, pricing.finalPrice);
+  if (!tipped.valid) {
+    res.status(400).json(createInputErrorResponse(`Invalid tip: ${tipped.reason}`));
+    return;
+  }
+  const { tip } = tipped;
+
   console.log(`   Intent: ${intent}`);
-  console.log(`   Item: ${item}`);
-  console.log(`   Price: ${price} USDT`);
-  console.log(`   Quantity: ${quantity}`);
+  console.log(`   Item: ${cart ? describeCart(cart.lines) : item}`);
+  console.log(`   Price: ${pricing.finalPrice} USDT` +
+    (pricing.discountTotal > 0 ? ` (list ${pricing.listPrice}, ${pricing.discountTotal} off)` : ''));
+  if (tip) {
+    console.log(`   Tip: ${describeTip(tip, config.payment.defaultMerchantAddress)}`);
+  }
+  console.log(`   Quantity: ${cart ? cart.itemCount : quantity}`);
   console.log(`   User: ${userAddress}`);
-  console.log(`   Confirmed: ${confirmed}`);
+  if (scheduledFor) {
+    console.log(`   Scheduled for: ${new Date(scheduledFor).toISOString()}`);
+  }
+  if (repeatPlan) {
+    console.log(`   Repeats: ${repeatPlan.sourceOrderId} (${repeatPlan.changes.length} change(s))`);
+  }
 
   try {
     // Build intent order request
     const intentRequest: IntentOrderRequest = {
       intent: intent as UserIntent,
-      item,
-      price,
-      quantity,
+      item: cart ? describeCart(cart.lines) : item,
+      price: pricing.finalPrice,
+      quantity: cart ? cart.itemCount : quantity,
+      cart: cart?.lines,
+      couponCode,
+      pricing,
+      tip,
+      repeatOf: repeatPlan?.sourceOrderId,
       userAddress,
-      metadata: {
-        ...metadata,
-        userConfirmed: confirmed,
-      },
+      scheduledFor,
+      idempotencyKey,
+      metadata,
+    };
+
+    // Dry run: the AI decision only - no order, no payment, no rate-limit usage
+    if (dryRun) {
+      const response: AIEnhancedOrderResponse = {
+        success: true,
+        orderId: '',
+        dryRun: true,
+        aiDecision: await orchestrator.previewOrder(intentRequest),
+        pricing,
+        tip,
+        repeat: repeatPlan,
+      };
+      res.json(response);
+      return;
+    }
+
+    const startOrder = () => {
+      const orderId = generateOrderId();
+      return {
+        orderId,
+        response: orchestrator!.processOrderWithAI(
+          intentRequest,
+          config.payment.defaultMerchantAddress,
+          orderId
+        ),
+      };
     };
 
+    // Repeats of an Idempotency-Key share the first submission's order
+    const submission = idempotencyKey
+      ? await idempotencyStore.submit(idempotencyKey, intentRequest, startOrder)
+      : { ...startOrder(), replayed: false, conflict: false };
+
+    if (submission.conflict) {
+      res.status(422).json({
+        success: false,
+        orderId: submission.orderId,
+        error: 'Idempotency-Key was already used for a different order request',
+      });
+      return;
+    }
+
+    if (submission.replayed) {
+      console.log(`   ↩️  Replaying order ${submission.orderId} for Idempotency-Key ${idempotencyKey}`);
+      res.setHeader('Idempotent-Replayed', 'true');
+    }
+
+    // Async mode: hand back the order id so the client can subscribe to progress
+    // The events key lets the submitter - and only them - receive a confirmation token there
+    if (respondAsync) {
+      submission.response.catch(error => console.error(`❌ Error processing order ${submission.orderId}:`, error));
+
+      const eventsKey = orchestrator.getEventsKey(submission.orderId);
+      res.status(202).json({
+        success: true,
+        orderId: submission.orderId,
+        status: OrderStatus.RECEIVED,
+        eventsUrl: `/orders/${submission.orderId}/events?key=${eventsKey}`,
+      });
+      return;
+    }
+
     // Process through AI-enhanced pipeline
-    const result = await orchestrator.processOrderWithAI(
-      intentRequest,
-      config.payment.defaultMerchantAddress
-    );
+    const result = await submission.response;
 
     // Return full AI decision with reasoning
     res.json(result);
@@ -358,9 +699,9 @@ app.post('/order', async (req: Request, res: Response) => {
       success: false,
       orderId: '',
       aiDecision: {
-        decision: 'reject' as any,
+        decision: AIDecision.REJECT,
         confidence: 0,
-        riskLevel: 'critical' as any,
+        riskLevel: RiskLevel.CRITICAL,
         reasoning: [{ 
           check: 'System', 
           result: 'fail', 
@@ -378,12 +719,176 @@ app.post('/order', async (req: Request, res: Response) => {
 });
 
 /**
- * Get AI decision explanation for a hypothetical order
- * POST /ai/evaluate
- * 
- * Useful for previewing what the AI would decide without executing
+ * Parse a time query parameter (epoch ms or ISO date)
+ * Returns NaN for unparseable values
  */
-app.post('/ai/evaluate', async (req: Request, res: Response) => {
+function parseTimeParam(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value);
+  return /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+}
+
+/**
+ * Parse a free-text order for confirmation
+ * POST /order/nl  { text, userAddress? }
+ *
+ * Nothing is executed: the response lists the lines the text resolved
+ * to (priced from the menu), the tip and anything not understood. Submit
+ * data.order to POST /order once the user confirms.
+ */
+app.post('/order/nl', async (req: Request, res: Response) => {
+  const { text, userAddress } = req.body as { text?: unknown; userAddress?: unknown };
+
+  if (typeof text !== 'string' || text.trim() === '') {
+    res.status(400).json({
+      success: false,
+      error: 'Missing required field: text',
+    });
+    return;
+  }
+  if (text.length > MAX_ORDER_TEXT_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `text must be at most ${MAX_ORDER_TEXT_LENGTH} characters`,
+    });
+    return;
+  }
+
+  let parse: OrderTextParse;
+  try {
+    parse = await orderParser.parse(text, menuCatalog.getItems());
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to parse order text',
+    });
+    return;
+  }
+
+  if (parse.orders.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'No menu items found in the text',
+      data: { parse },
+    });
+    return;
+  }
+
+  // One cart order with every parsed line, ready to submit to POST /order
+  const order: Pick<OrderRequest, 'intent' | 'cart' | 'tip' | 'userAddress'> = {
+    intent: parse.intent,
+    cart: parse.orders.map(line => ({ itemId: line.itemId, quantity: line.quantity })),
+    tip: parse.tip ? (parse.tip.percent !== undefined ? { percent: parse.tip.percent } : { amount: parse.tip.amount }) : undefined,
+    userAddress: typeof userAddress === 'string' ? userAddress : '',
+  };
+
+  res.json({
+    success: true,
+    data: { parse, order },
+  });
+});
+
+/**
+ * List order history
+ * GET /orders?userAddress=&status=&from=&to=&limit=&cursor=
+ *
+ * Newest first; pass pagination.nextCursor back as ?cursor= for the next page
+ */
+app.get('/orders', async (req: Request, res: Response) => {
+  const { userAddress, status, limit, cursor } = req.query;
+
+  if (status !== undefined && !Object.values(OrderStatus).includes(status as OrderStatus)) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid status. Expected one of: ${Object.values(OrderStatus).join(', ')}`,
+    });
+    return;
+  }
+
+  const from = parseTimeParam(req.query.from);
+  const to = parseTimeParam(req.query.to);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid from/to. Use epoch milliseconds or an ISO date',
+    });
+    return;
+  }
+
+  const parsedLimit = limit !== undefined ? parseInt(String(limit), 10) : undefined;
+  if (parsedLimit !== undefined && (Number.isNaN(parsedLimit) || parsedLimit < 1)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid limit. Must be a positive integer',
+    });
+    return;
+  }
+
+  const query: OrderQuery = {
+    userAddress: userAddress ? String(userAddress) : undefined,
+    status: status as OrderStatus | undefined,
+    from,
+    to,
+    limit: parsedLimit,
+    cursor: cursor ? String(cursor) : undefined,
+  };
+
+  try {
+    const page = await orderRepository.query(query);
+    res.json({
+      success: true,
+      data: page.orders.map(toPublicRecord),
+      pagination: {
+        nextCursor: page.nextCursor || null,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list orders';
+    res.status(message === 'Invalid cursor' ? 400 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+/**
+ * Look up a single order
+ * GET /orders/:id
+ *
+ * Returns the order, current status, status history, pipeline records and AI decision
+ */
+app.get('/orders/:id', async (req: Request, res: Response) => {
+  try {
+    const record = await orderRepository.findById(req.params.id);
+
+    if (!record) {
+      res.status(404).json({
+        success: false,
+        error: `Order ${req.params.id} not found`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: toPublicRecord(record),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load order',
+    });
+  }
+});
+
+/**
+ * Confirm an order the AI held for review
+ * POST /orders/:id/confirm
+ *
+ * Body: { token, async? } - token comes from the CONFIRM response.
+ * Resumes the same order into the agent pipeline.
+ */
+app.post('/orders/:id/confirm', async (req: Request, res: Response) => {
   if (!orchestrator) {
     res.status(503).json({
       success: false,
@@ -392,54 +897,803 @@ app.post('/ai/evaluate', async (req: Request, res: Response) => {
     return;
   }
 
-  const { intent, item, price, quantity = 1, userAddress } = req.body;
+  const orderId = req.params.id;
+  const { token, async: respondAsync = false } = req.body as { token?: string; async?: boolean };
 
-  if (!item || price === undefined || !userAddress) {
+  if (!token) {
     res.status(400).json({
       success: false,
-      error: 'Missing required fields',
+      error: 'Missing required field: token',
     });
     return;
   }
 
-  const aiEngine = orchestrator.getAIEngine();
-  let agentBalance = 0;
-  
   try {
-    agentBalance = parseFloat(await orchestrator.getPaymentAgentBalance());
-  } catch {
-    // Use 0 if balance fetch fails
+    const result = await orchestrator.confirmOrder(orderId, token);
+
+    if (!result.accepted) {
+      const statusCodes = {
+        unavailable: 503,
+        not_found: 404,
+        invalid_state: 409,
+        invalid_token: 403,
+      };
+      res.status(statusCodes[result.code]).json({
+        success: false,
+        orderId,
+        error: result.reason,
+      });
+      return;
+    }
+
+    if (respondAsync) {
+      result.completion.catch(error => console.error(`❌ Error processing order ${orderId}:`, error));
+      const eventsKey = orchestrator.getEventsKey(orderId);
+      res.status(202).json({
+        success: true,
+        orderId,
+        status: OrderStatus.RECEIVED,
+        eventsUrl: `/orders/${orderId}/events?key=${eventsKey}`,
+      });
+      return;
+    }
+
+    res.json(await result.completion);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      orderId,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
   }
+});
 
-  const systemInfo = orchestrator.getSystemInfo();
+/**
+ * Export an order's signed AI decision
+ * GET /decisions/:id
+ *
+ * Returns the decision receipt: the canonical decision record (context,
+ * checks, engine config and rules version, outcome), its digest and the
+ * approval agent's signature over it.
+ */
+app.get('/decisions/:id', async (req: Request, res: Response) => {
+  try {
+    const record = await orderRepository.findById(req.params.id);
 
-  const context = {
-    userAddress,
-    intent: intent || UserIntent.BUY_COFFEE,
-    item,
-    price,
-    quantity,
-    recentOrderCount: aiEngine.getRecentOrderCount(userAddress),
-    totalDailySpending: systemInfo.dailySpending,
-    agentBalance,
-    currentTime: Date.now(),
-  };
+    if (!record || !record.decisionReceipt) {
+      res.status(404).json({
+        success: false,
+        error: record
+          ? `Order ${req.params.id} has no signed AI decision`
+          : `Order ${req.params.id} not found`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: record.decisionReceipt,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load decision',
+    });
+  }
+});
+
+/**
+ * Verify an order's signed AI decision
+ * GET /decisions/:id/verify
+ *
+ * Checks the receipt's digest, its signature, that the signer is the
+ * approval agent and that it matches the decision stored on the order.
+ */
+app.get('/decisions/:id/verify', async (req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
 
   try {
-    const decision = await aiEngine.evaluate(context);
+    const result = await orchestrator.verifyDecision(req.params.id);
+
+    if (!result.found) {
+      const statusCodes = {
+        unavailable: 503,
+        not_found: 404,
+        no_receipt: 404,
+      };
+      res.status(statusCodes[result.code]).json({
+        success: false,
+        error: result.reason,
+      });
+      return;
+    }
+
+    const { found, ...verification } = result;
     res.json({
       success: true,
-      preview: true,
-      aiDecision: decision,
+      data: verification,
     });
   } catch (error) {
     res.status(500).json({
       success: false,
-      error: error instanceof Error ? error.message : 'Evaluation failed',
+      error: error instanceof Error ? error.message : 'Failed to verify decision',
     });
   }
 });
 
+/**
+ * Statuses at which an order's event stream ends
+ * COMPLETED, REJECTED and FAILED are final. SCHEDULED and
+ * AWAITING_CONFIRMATION are pauses: the order waits for its time or
+ * for the user, and its "complete" event carries the response for that
+ * pause. Follow a confirmed order on the eventsUrl from the confirm
+ * response; a scheduled order shows up in GET /orders/:id when it runs.
+ */
+const STREAM_END_STATUSES: OrderStatus[] = [
+  OrderStatus.SCHEDULED,
+  OrderStatus.AWAITING_CONFIRMATION,
+  OrderStatus.COMPLETED,
+  OrderStatus.REJECTED,
+  OrderStatus.FAILED,
+];
+
+/**
+ * Stream live pipeline progress (Server-Sent Events)
+ * GET /orders/:id/events?key=
+ *
+ * Sends a "snapshot" of the stored order first, then "status", "decision"
+ * and "step" events as they happen, and a final "complete" event carrying
+ * the full order response before the stream closes. The stream ends when
+ * the order finishes or pauses (see STREAM_END_STATUSES). The
+ * confirmation token is only included for the key from the async
+ * POST /order response.
+ */
+app.get('/orders/:id/events', async (req: Request, res: Response) => {
+  const orderId = req.params.id;
+  const { key } = req.query;
+
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  try {
+    if (!await orderRepository.findById(orderId)) {
+      res.status(404).json({
+        success: false,
+        error: `Order ${orderId} not found`,
+      });
+      return;
+    }
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load order',
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let closed = false;
+  let unsubscribe: () => void = () => undefined;
+
+  // Comment lines keep idle proxies from dropping long on-chain waits
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const isSubmitter = typeof key === 'string' && orchestrator.isEventsKey(orderId, key);
+  const publish = (event: OrderEvent) => {
+    send(event.type, event.type === 'complete' && !isSubmitter
+      ? { ...event, response: toPublicResponse(event.response) }
+      : event);
+  };
+
+  // Subscribe before reading the snapshot so nothing is missed in between
+  unsubscribe = orchestrator.getEventBus().subscribe(orderId, (event: OrderEvent) => {
+    publish(event);
+    if (event.type === 'complete') {
+      close();
+    }
+  });
+
+  req.on('close', close);
+
+  try {
+    const record = await orderRepository.findById(orderId);
+    if (closed) return;
+
+    if (!record) {
+      close();
+      return;
+    }
+
+    send('snapshot', toPublicRecord(record));
+    if (STREAM_END_STATUSES.includes(record.status) && record.aiDecision) {
+      publish({
+        type: 'complete',
+        orderId,
+        response: createResponseFromRecord(record),
+        timestamp: Date.now(),
+      });
+      close();
+    }
+  } catch (error) {
+    send('error', { error: error instanceof Error ? error.message : 'Failed to load order' });
+    close();
+  }
+});
+
+/**
+ * Get the active policy rules
+ * GET /rules
+ *
+ * Edit the rules file to change them; it is reloaded automatically.
+ * status.lastError is set if the latest edit was rejected.
+ */
+app.get('/rules', (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      status: rulesEngine.getStatus(),
+      rules: rulesEngine.getRules(),
+    },
+  });
+});
+
+/**
+ * Get a user's spending against their per-user limit
+ * GET /users/:address/spending
+ *
+ * Returns spending in the current daily window, the limit that applies
+ * to the user, what is left of it, and a breakdown by item category
+ */
+app.get('/users/:address/spending', async (req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  if (!req.params.address.startsWith('0x')) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid user address',
+    });
+    return;
+  }
+
+  try {
+    const usage = await orchestrator.getUserSpending(req.params.address);
+    res.json({
+      success: true,
+      data: usage,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load spending',
+    });
+  }
+});
+
+/**
+ * Preview repeating a user's last completed order
+ * GET /users/:address/repeat-order
+ *
+ * The order rebuilt at today's menu prices, with the lines whose price
+ * changed or that can't be ordered now. Submit it to POST /order with
+ * intent repeat_order and repeatOf: sourceOrderId.
+ */
+app.get('/users/:address/repeat-order', async (req: Request, res: Response) => {
+  if (!req.params.address.startsWith('0x')) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid user address',
+    });
+    return;
+  }
+
+  try {
+    const source = await findLastCompletedOrder(orderRepository, req.params.address);
+    if (!source) {
+      res.status(404).json({
+        success: false,
+        error: 'No completed order to repeat',
+      });
+      return;
+    }
+    res.json({
+      success: true,
+      data: await planRepeatOrder(source, menuCatalog, inventory),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load last order',
+    });
+  }
+});
+
+/**
+ * Get the ordering profile the AI's anomaly check compares against
+ * GET /users/:address/profile
+ *
+ * Learned from the user's completed orders: usual amounts, items,
+ * hours of day and time between orders
+ */
+app.get('/users/:address/profile', async (req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  if (!req.params.address.startsWith('0x')) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid user address',
+    });
+    return;
+  }
+
+  try {
+    const profile = await orchestrator.getAIEngine().getUserProfile(req.params.address);
+    res.json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load profile',
+    });
+  }
+});
+
+/**
+ * Get AI decision explanation for a hypothetical order
+ * POST /ai/evaluate
+ * 
+ * Useful for previewing what the AI would decide without executing.
+ * A dry run: the preview doesn't count toward the user's rate limit.
+ */
+app.post('/ai/evaluate', async (req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  const {
+    intent = UserIntent.BUY_COFFEE, item, price, quantity = 1, userAddress, cart: cartRequest, couponCode, tip: tipRequest,
+  } = req.body;
+  const isRepeat = intent === UserIntent.REPEAT_ORDER;
+
+  if ((!isRepeat && cartRequest === undefined && (!item || price === undefined)) || !userAddress) {
+    res.status(400).json({
+      success: false,
+      error: 'Missing required fields',
+    });
+    return;
+  }
+
+  let repeatPlan: RepeatOrderPlan | undefined;
+  if (isRepeat) {
+    const repeat = await resolveRepeat(userAddress, undefined, true);
+    if (!repeat.valid) {
+      res.status(repeat.status!).json({
+        success: false,
+        error: repeat.reason,
+        repeat: repeat.plan,
+      });
+      return;
+    }
+    repeatPlan = repeat.plan!;
+  }
+
+  let cart: Cart | undefined;
+  if (repeatPlan || cartRequest !== undefined) {
+    const built = buildCart(repeatPlan ? repeatPlan.cart : cartRequest, menuCatalog);
+    if (!built.valid) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid cart: ${built.reason}`,
+      });
+      return;
+    }
+    cart = built.cart;
+  } else {
+    const menuCheck = menuCatalog.checkItem(item, price, quantity);
+    if (!menuCheck.valid) {
+      res.status(400).json({
+        success: false,
+        error: `Invalid order: ${menuCheck.reason}`,
+      });
+      return;
+    }
+  }
+
+  const priced = applyPromotions(cart, item, quantity, couponCode, Date.now());
+  if (!priced.valid) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid order: ${priced.reason}`,
+    });
+    return;
+  }
+  const pricing = priced.pricing!;
+
+  const tipped = applyTip(tipRequest, intent, pricing.finalPrice);
+  if (!tipped.valid) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid tip: ${tipped.reason}`,
+    });
+    return;
+  }
+  const { tip } = tipped;
+
+  try {
+    const decision = await orchestrator.previewOrder({
+      intent,
+      item: cart ? describeCart(cart.lines) : item,
+      price: pricing.finalPrice,
+      quantity: cart ? cart.itemCount : quantity,
+      cart: cart?.lines,
+      couponCode,
+      pricing,
+      tip,
+      repeatOf: repeatPlan?.sourceOrderId,
+      userAddress,
+    });
+    res.json({
+      success: true,
+      preview: true,
+      dryRun: true,
+      aiDecision: decision,
+      pricing,
+      tip,
+      repeat: repeatPlan,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Evaluation failed',
+    });
+  }
+});
+
+/**
+ * Get the current approval policy
+ * GET /admin/policy
+ */
+app.get('/admin/policy', adminAuth, (_req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: orchestrator.getSystemInfo().policy,
+  });
+});
+
+/**
+ * Update the approval policy
+ * PUT /admin/policy
+ *
+ * Body: any of approvalThreshold, maxSinglePayment, maxDailySpending,
+ * maxTipAmount, maxTipPercent, userLimit, userLimitOverrides, merchantLimits, categoryLimits.
+ * Shared limits are applied to the AI engine too.
+ */
+app.put('/admin/policy', adminAuth, async (req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  const validation = validatePolicyUpdate(req.body, orchestrator.getSystemInfo().policy);
+  if (!validation.valid) {
+    res.status(400).json({
+      success: false,
+      error: validation.reason,
+    });
+    return;
+  }
+
+  const update = { policy: validation.changes };
+  const settingsValidation = validateSettingsUpdate(update);
+  if (!settingsValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: settingsValidation.reason,
+    });
+    return;
+  }
+
+  const changes = orchestrator.updateSettings(update);
+  await recordAdminChange(res.locals.admin, 'policy.update', changes);
+
+  res.json({
+    success: true,
+    data: {
+      policy: orchestrator.getSystemInfo().policy,
+      changes,
+    },
+  });
+});
+
+/**
+ * Get the current AI engine config
+ * GET /admin/ai-config
+ */
+app.get('/admin/ai-config', adminAuth, (_req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: orchestrator.getAIEngine().getConfig(),
+  });
+});
+
+/**
+ * Update the AI engine config
+ * PUT /admin/ai-config
+ *
+ * Body: any AI config field (thresholds, rate limit, business hours,
+ * deferral flags). Shared limits are applied to the approval policy too.
+ */
+app.put('/admin/ai-config', adminAuth, async (req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  const validation = validateAIConfigUpdate(req.body, orchestrator.getAIEngine().getConfig());
+  if (!validation.valid) {
+    res.status(400).json({
+      success: false,
+      error: validation.reason,
+    });
+    return;
+  }
+
+  const update = { aiConfig: validation.changes };
+  const settingsValidation = validateSettingsUpdate(update);
+  if (!settingsValidation.valid) {
+    res.status(400).json({
+      success: false,
+      error: settingsValidation.reason,
+    });
+    return;
+  }
+
+  const changes = orchestrator.updateSettings(update);
+  await recordAdminChange(res.locals.admin, 'ai-config.update', changes);
+
+  res.json({
+    success: true,
+    data: {
+      aiConfig: orchestrator.getAIEngine().getConfig(),
+      changes,
+    },
+  });
+});
+
+/**
+ * Get stock levels of tracked menu items
+ * GET /admin/inventory
+ */
+app.get('/admin/inventory', adminAuth, async (_req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await inventory.getLevels(),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load inventory',
+    });
+  }
+});
+
+/**
+ * Set an item's stock on hand (after a delivery or a count)
+ * PUT /admin/inventory/:itemId  { stock }
+ *
+ * Setting stock on an untracked item starts tracking it.
+ */
+app.put('/admin/inventory/:itemId', adminAuth, async (req: Request, res: Response) => {
+  const entry = menuCatalog.getItem(req.params.itemId);
+  if (!entry) {
+    res.status(404).json({
+      success: false,
+      error: `"${req.params.itemId}" is not on the menu`,
+    });
+    return;
+  }
+
+  const stock = req.body?.stock;
+  if (!Number.isInteger(stock) || stock < 0) {
+    res.status(400).json({
+      success: false,
+      error: 'stock must be a whole number of at least 0',
+    });
+    return;
+  }
+
+  try {
+    const { from, to } = await inventory.setStock(entry.id, stock);
+    const changes = { [`inventory.${entry.id}`]: { from: from ?? null, to } };
+    await recordAdminChange(res.locals.admin, 'inventory.update', changes);
+
+    res.json({
+      success: true,
+      data: {
+        level: await inventory.getLevel(entry.id),
+        changes,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update inventory',
+    });
+  }
+});
+
+/**
+ * Get the admin audit trail, newest first
+ * GET /admin/audit?limit=50
+ */
+app.get('/admin/audit', adminAuth, async (req: Request, res: Response) => {
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 50;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    res.status(400).json({
+      success: false,
+      error: 'limit must be an integer between 1 and 500',
+    });
+    return;
+  }
+
+  try {
+    res.json({
+      success: true,
+      data: await auditLog.list(limit),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load audit log',
+    });
+  }
+});
+
+/**
+ * Backtest a candidate AI config against recorded orders
+ * POST /admin/backtest  { config?, checks?, from?, to? }
+ *
+ * Replays the AI context of every stored order (optionally within
+ * from/to) through the live config and the candidate, and reports the
+ * decisions that would change. Nothing is applied.
+ */
+app.post('/admin/backtest', adminAuth, async (req: Request, res: Response) => {
+  if (!orchestrator) {
+    res.status(503).json({
+      success: false,
+      error: 'System not initialized',
+    });
+    return;
+  }
+
+  const { config: candidateConfig = {}, checks, from: fromParam, to: toParam } = req.body || {};
+  const from = parseTimeParam(fromParam);
+  const to = parseTimeParam(toParam);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid from/to. Use epoch milliseconds or an ISO date',
+    });
+    return;
+  }
+
+  const aiEngine = orchestrator.getAIEngine();
+  const baseline: EngineSetup = {
+    config: aiEngine.getConfig(),
+    checks: aiEngine.getCheckRegistry().getSettings(),
+  };
+
+  const backtester = new Backtester(spendingLedger, rulesEngine, businessSchedule, menuCatalog);
+  const validation = backtester.validate({ config: candidateConfig, checks }, baseline);
+  if (!validation.valid || !validation.setup) {
+    res.status(400).json({
+      success: false,
+      error: validation.reason,
+    });
+    return;
+  }
+  const candidate = validation.setup;
+
+  try {
+    const cases = await loadCasesFromRepository(orderRepository, { from, to });
+    res.json({
+      success: true,
+      data: await backtester.run(cases, baseline, candidate),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Backtest failed',
+    });
+  }
+});
+
+/**
+ * Record an admin change in the audit trail
+ * The change has already been applied, so a storage error is logged
+ * rather than reported as a failed update.
+ */
+async function recordAdminChange(
+  actor: string,
+  action: string,
+  changes: Record<string, AuditChange>
+): Promise<void> {
+  if (Object.keys(changes).length === 0) return;
+  try {
+    await auditLog.record(actor, action, changes);
+  } catch (error) {
+    console.error(`⚠️  Failed to write audit entry for ${action}:`, error);
+  }
+}
+
 /**
  * Start the server
  */
@@ -458,7 +1712,19 @@ async function startServer(): Promise<void> {
       console.log(`   GET  /intents    - Get available user intents`);
       console.log(`   GET  /menu       - Get menu with AI hints`);
       console.log(`   POST /order      - Submit order (AI-enhanced)`);
+      console.log(`   GET  /orders     - List order history`);
+      console.log(`   GET  /orders/:id - Get order status + pipeline`);
+      console.log(`   GET  /orders/:id/events - Live pipeline progress (SSE)`);
+      console.log(`   POST /orders/:id/confirm - Confirm an order held by the AI`);
+      console.log(`   GET  /decisions/:id/verify - Verify a signed AI decision`);
+      console.log(`   GET  /rules      - Active policy rules`);
+      console.log(`   GET  /users/:address/spending - Per-user spending + limits`);
+      console.log(`   GET  /users/:address/repeat-order - Last order at today's prices`);
       console.log(`   POST /ai/evaluate - Preview AI decision`);
+      console.log(`   GET|PUT /admin/policy    - Approval policy (admin)`);
+      console.log(`   GET|PUT /admin/ai-config - AI thresholds (admin)`);
+      console.log(`   GET|PUT /admin/inventory - Stock levels (admin)`);
+      console.log(`   GET  /admin/audit - Admin change history (admin)`);
       console.log('\n🧠 AI Pipeline: Evaluate → Reception → Approval → Payment');
       console.log('\n⏳ Waiting for requests...\n');
     });
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { appendJsonl, readJsonl } from './jsonl';
+
+/**
+ * Before/after value of one changed setting
+ */
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * One administrative change
+ */
+export interface AuditEntry {
+  id: string;
+  actor: string;                          // Admin who made the change
+  action: string;                         // e.g. "policy.update"
+  changes: Record<string, AuditChange>;   // Setting → before/after
+  timestamp: number;
+}
+
+/**
+ * Audit Log - Append-only record of who changed what
+ *
+ * With a file path, entries are appended to a JSONL log and survive
+ * restarts; without one the log is in-memory.
+ */
+export class AuditLog {
+  private filePath: string | null;
+  private entries: AuditEntry[] = [];
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string | null = null) {
+    this.filePath = filePath;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        if (!this.filePath) return;
+        this.entries = await readJsonl<AuditEntry>(this.filePath);
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Record a change
+   */
+  async record(
+    actor: string,
+    action: string,
+    changes: Record<string, AuditChange>
+  ): Promise<AuditEntry> {
+    await this.load();
+    const entry: AuditEntry = {
+      id: crypto.randomUUID(),
+      actor,
+      action,
+      changes,
+      timestamp: Date.now(),
+    };
+    this.entries.push(entry);
+
+    if (this.filePath) {
+      const filePath = this.filePath;
+      const write = this.writeQueue.then(() => appendJsonl(filePath, entry));
+      this.writeQueue = write.catch(() => undefined);
+      await write;
+    }
+
+    console.log(`📝 [audit] ${actor} ${action}: ${Object.keys(changes).join(', ')}`);
+    return entry;
+  }
+
+  /**
+   * Most recent entries first
+   */
+  async list(limit: number = 50): Promise<AuditEntry[]> {
+    await this.load();
+    return this.entries.slice(-limit).reverse();
+  }
+}
@@ -0,0 +1,73 @@
+import { OrderRecord, OrderRepository } from './types';
+import { OrderQuery, OrderPage, queryOrders } from './query';
+import { appendJsonl, readJsonl, writeJsonl } from './jsonl';
+
+/**
+ * File-backed order repository
+ *
+ * Every save appends the full record as a line to a JSONL file, so each
+ * step change is on disk before the pipeline moves on. On startup the
+ * log is replayed (last line per order wins) and compacted.
+ */
+export class FileOrderRepository implements OrderRepository {
+  private filePath: string;
+  private records: Map<string, OrderRecord> = new Map();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Replay the log into memory (once)
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const lines = await readJsonl<OrderRecord>(this.filePath);
+        for (const record of lines) {
+          this.records.set(record.orderId, record);
+        }
+
+        // Drop superseded lines so the log doesn't grow without bound
+        if (lines.length > this.records.size) {
+          await writeJsonl(this.filePath, Array.from(this.records.values()));
+        }
+
+        console.log(`📂 Loaded ${this.records.size} order(s) from ${this.filePath}`);
+      })();
+    }
+    return this.loading;
+  }
+
+  async save(record: OrderRecord): Promise<void> {
+    await this.load();
+    const snapshot = structuredClone(record);
+    this.records.set(snapshot.orderId, snapshot);
+
+    // Serialize appends so concurrent orders never interleave lines
+    const write = this.writeQueue.then(() => appendJsonl(this.filePath, snapshot));
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+  }
+
+  async findById(orderId: string): Promise<OrderRecord | null> {
+    await this.load();
+    const record = this.records.get(orderId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async findAll(): Promise<OrderRecord[]> {
+    await this.load();
+    return Array.from(this.records.values())
+      .map(record => structuredClone(record))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async query(query: OrderQuery): Promise<OrderPage> {
+    await this.load();
+    const page = queryOrders(Array.from(this.records.values()), query);
+    return { ...page, orders: page.orders.map(record => structuredClone(record)) };
+  }
+}
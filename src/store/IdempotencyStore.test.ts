@@ -0,0 +1,158 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IdempotencyStore } from './IdempotencyStore';
+import { InMemoryOrderRepository } from './InMemoryOrderRepository';
+import { OrderRecord } from './types';
+import { OrderStatus } from '../agents/types';
+import { AIEnhancedOrderResponse, IntentOrderRequest, UserIntent } from '../ai/types';
+
+const TTL_MS = 60 * 60 * 1000;
+
+const request: IntentOrderRequest = {
+  intent: UserIntent.BUY_COFFEE,
+  item: 'Latte',
+  price: 0.03,
+  userAddress: '0xUserA',
+  idempotencyKey: 'key-1',
+};
+
+/**
+ * start() for IdempotencyStore.submit that counts its calls
+ */
+function createStarter(response: Promise<AIEnhancedOrderResponse> = Promise.resolve({} as AIEnhancedOrderResponse)) {
+  const starter = {
+    calls: 0,
+    start: () => {
+      starter.calls++;
+      return { orderId: `order_${starter.calls}`, response };
+    },
+  };
+  return starter;
+}
+
+function storedRecord(status: OrderStatus): OrderRecord {
+  const now = Date.now();
+  return {
+    orderId: 'order_stored',
+    request,
+    order: {
+      id: 'order_stored',
+      item: 'Latte',
+      price: 0.03,
+      currency: 'USDT',
+      merchantAddress: '0xMerchant',
+      userAddress: request.userAddress,
+      timestamp: now,
+    },
+    status,
+    statusHistory: [],
+    pipeline: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe('IdempotencyStore', () => {
+  it('starts one order for repeats of a key', async () => {
+    const store = new IdempotencyStore(new InMemoryOrderRepository(), TTL_MS);
+    const starter = createStarter();
+
+    const first = await store.submit('key-1', request, starter.start);
+    const second = await store.submit('key-1', request, starter.start);
+
+    assert.equal(starter.calls, 1);
+    assert.equal(first.replayed, false);
+    assert.equal(second.replayed, true);
+    assert.equal(second.orderId, first.orderId);
+    assert.equal(second.conflict, false);
+  });
+
+  it('shares an order between concurrent repeats', async () => {
+    const store = new IdempotencyStore(new InMemoryOrderRepository(), TTL_MS);
+    const starter = createStarter();
+
+    const [first, second] = await Promise.all([
+      store.submit('key-1', request, starter.start),
+      store.submit('key-1', request, starter.start),
+    ]);
+
+    assert.equal(starter.calls, 1);
+    assert.equal(second.orderId, first.orderId);
+  });
+
+  it('flags a key reused for a different order', async () => {
+    const store = new IdempotencyStore(new InMemoryOrderRepository(), TTL_MS);
+    const starter = createStarter();
+
+    await store.submit('key-1', request, starter.start);
+    const reused = await store.submit('key-1', { ...request, item: 'Espresso', price: 0.02 }, starter.start);
+
+    assert.equal(starter.calls, 1);
+    assert.equal(reused.conflict, true);
+  });
+
+  it('keeps keys apart between users', async () => {
+    const store = new IdempotencyStore(new InMemoryOrderRepository(), TTL_MS);
+    const starter = createStarter();
+
+    const first = await store.submit('key-1', request, starter.start);
+    const other = await store.submit('key-1', { ...request, userAddress: '0xUserB' }, starter.start);
+
+    assert.equal(starter.calls, 2);
+    assert.equal(other.replayed, false);
+    assert.equal(other.conflict, false);
+    assert.notEqual(other.orderId, first.orderId);
+  });
+
+  it('matches user addresses regardless of case', async () => {
+    const store = new IdempotencyStore(new InMemoryOrderRepository(), TTL_MS);
+    const starter = createStarter();
+
+    await store.submit('key-1', request, starter.start);
+    const repeat = await store.submit('key-1', { ...request, userAddress: '0xusera' }, starter.start);
+
+    assert.equal(starter.calls, 1);
+    assert.equal(repeat.replayed, true);
+  });
+
+  it('answers from the order store after a restart, whatever the order state', async () => {
+    for (const status of [OrderStatus.RECEIVED, OrderStatus.SCHEDULED, OrderStatus.COMPLETED]) {
+      const repository = new InMemoryOrderRepository();
+      await repository.save(storedRecord(status));
+      const store = new IdempotencyStore(repository, TTL_MS);
+      const starter = createStarter();
+
+      const submission = await store.submit('key-1', request, starter.start);
+
+      assert.equal(starter.calls, 0, `order in status ${status} was started again`);
+      assert.equal(submission.replayed, true);
+      assert.equal(submission.orderId, 'order_stored');
+    }
+  });
+
+  it('does not answer another user from the order store', async () => {
+    const repository = new InMemoryOrderRepository();
+    await repository.save(storedRecord(OrderStatus.COMPLETED));
+    const store = new IdempotencyStore(repository, TTL_MS);
+    const starter = createStarter();
+
+    const submission = await store.submit('key-1', { ...request, userAddress: '0xUserB' }, starter.start);
+
+    assert.equal(starter.calls, 1);
+    assert.equal(submission.replayed, false);
+    assert.notEqual(submission.orderId, 'order_stored');
+  });
+
+  it('frees the key when the order errors', async () => {
+    const store = new IdempotencyStore(new InMemoryOrderRepository(), TTL_MS);
+    const failing = createStarter(Promise.reject(new Error('RPC down')));
+
+    const first = await store.submit('key-1', request, failing.start);
+    await assert.rejects(first.response, /RPC down/);
+
+    const starter = createStarter();
+    const retry = await store.submit('key-1', request, starter.start);
+    assert.equal(starter.calls, 1);
+    assert.equal(retry.replayed, false);
+  });
+});
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { AIEnhancedOrderResponse, IntentOrderRequest } from '../ai/types';
+import { OrderRepository } from './types';
+import { createResponseFromRecord } from './orderResponse';
+
+/**
+ * Outcome of submitting a request under an idempotency key
+ */
+export interface IdempotentSubmission {
+  orderId: string;
+  response: Promise<AIEnhancedOrderResponse>;
+  replayed: boolean;          // true if this key was seen before
+  conflict: boolean;          // true if the key was used with a different request
+}
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  createdAt: number;
+  submission: Promise<{ orderId: string; response: Promise<AIEnhancedOrderResponse> }>;
+}
+
+/**
+ * Idempotency Store - Deduplicates order submissions by client key
+ *
+ * The first request with a key starts the order; any repeat within the
+ * window gets the same order id and response, including while the first
+ * is still in flight. Keys are also persisted on the order record, so a
+ * repeat after a restart is answered from the order store. Keys belong
+ * to the user that sent them: the same key from another user is a
+ * different key.
+ */
+export class IdempotencyStore {
+  private entries: Map<string, IdempotencyEntry> = new Map();
+  private repository: OrderRepository;
+  private ttlMs: number;
+
+  constructor(repository: OrderRepository, ttlMs: number) {
+    this.repository = repository;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Fingerprint of the fields that define an order request
+   */
+  static fingerprint(request: IntentOrderRequest): string {
+    const canonical = JSON.stringify([
+      request.intent,
+      request.item,
+      request.price,
+      request.quantity || 1,
+      request.userAddress.toLowerCase(),
+      request.scheduledFor || null,
+      // Only cart orders carry lines, so single-item fingerprints are unchanged
+      ...(request.cart ? [request.cart.map(line => [line.itemId, line.quantity, (line.modifiers || []).map(modifier => modifier.id)])] : []),
+      ...(request.couponCode ? [request.couponCode.trim().toLowerCase()] : []),
+      ...(request.tip ? [['tip', request.tip.amount, request.tip.percent ?? null]] : []),
+      ...(request.repeatOf ? [['repeat', request.repeatOf]] : []),
+    ]);
+    return crypto.createHash('sha256').update(canonical).digest('hex');
+  }
+
+  /**
+   * Submit a request under a key
+   * start() is only called for the first request with this key.
+   */
+  async submit(
+    key: string,
+    request: IntentOrderRequest,
+    start: () => { orderId: string; response: Promise<AIEnhancedOrderResponse> }
+  ): Promise<IdempotentSubmission> {
+    this.prune();
+
+    const fingerprint = IdempotencyStore.fingerprint(request);
+    const entryKey = `${request.userAddress.toLowerCase()}:${key}`;
+    const existing = this.entries.get(entryKey);
+    if (existing) {
+      const { orderId, response } = await existing.submission;
+      return { orderId, response, replayed: true, conflict: existing.fingerprint !== fingerprint };
+    }
+
+    // Registered synchronously so concurrent repeats share this submission
+    let replayed = false;
+    const submission = (async () => {
+      const stored = await this.findStored(key, request.userAddress);
+      if (stored) {
+        replayed = true;
+        return {
+          orderId: stored.orderId,
+          response: Promise.resolve(createResponseFromRecord(stored)),
+          fingerprint: IdempotencyStore.fingerprint(stored.request),
+        };
+      }
+      return { ...start(), fingerprint };
+    })();
+
+    const entry: IdempotencyEntry = { fingerprint, createdAt: Date.now(), submission };
+    this.entries.set(entryKey, entry);
+
+    let result: Awaited<typeof submission>;
+    try {
+      result = await submission;
+    } catch (error) {
+      this.entries.delete(entryKey);
+      throw error;
+    }
+
+    // An order that errored (rather than being declined) may be retried with the same key
+    result.response.catch(() => this.entries.delete(entryKey));
+
+    entry.fingerprint = result.fingerprint;
+    return {
+      orderId: result.orderId,
+      response: result.response,
+      replayed,
+      conflict: result.fingerprint !== fingerprint,
+    };
+  }
+
+  /**
+   * Find an order this user created under this key within the window
+   * Whatever state it is in - a scheduled or unfinished order still owns the key.
+   */
+  private async findStored(key: string, userAddress: string) {
+    const page = await this.repository.query({
+      idempotencyKey: key,
+      userAddress,
+      from: Date.now() - this.ttlMs,
+      limit: 1,
+    });
+    return page.orders[0] || null;
+  }
+
+  /**
+   * Drop keys older than the window
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [key, entry] of this.entries) {
+      if (entry.createdAt < cutoff) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
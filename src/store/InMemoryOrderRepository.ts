@@ -0,0 +1,30 @@
+import { OrderRecord, OrderRepository } from './types';
+import { OrderQuery, OrderPage, queryOrders } from './query';
+
+/**
+ * In-memory order repository
+ * Orders are lost on restart - intended for tests and quick demos
+ */
+export class InMemoryOrderRepository implements OrderRepository {
+  private records: Map<string, OrderRecord> = new Map();
+
+  async save(record: OrderRecord): Promise<void> {
+    this.records.set(record.orderId, structuredClone(record));
+  }
+
+  async findById(orderId: string): Promise<OrderRecord | null> {
+    const record = this.records.get(orderId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async findAll(): Promise<OrderRecord[]> {
+    return Array.from(this.records.values())
+      .map(record => structuredClone(record))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async query(query: OrderQuery): Promise<OrderPage> {
+    const page = queryOrders(Array.from(this.records.values()), query);
+    return { ...page, orders: page.orders.map(record => structuredClone(record)) };
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpendingLedger } from './SpendingLedger';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+
+const HOUR = 60 * 60 * 1000;
+const shanghai = new BusinessSchedule({ timezone: 'Asia/Shanghai', weekly: {} });
+
+// 10:00 on 2 May in Shanghai
+const NOW = Date.parse('2026-05-02T02:00:00Z');
+
+async function ledgerWith(window: ConstructorParameters<typeof SpendingLedger>[1], schedule: BusinessSchedule | null = null) {
+  const ledger = new SpendingLedger(null, window, schedule);
+  await ledger.record({ orderId: 'yesterday', amount: 0.25, userAddress: '0xUserA', timestamp: Date.parse('2026-05-01T15:30:00Z') }); // 23:30 local
+  await ledger.record({ orderId: 'midnight', amount: 0.25, userAddress: '0xUserA', timestamp: Date.parse('2026-05-01T16:00:00Z') });  // 00:00 local
+  await ledger.record({ orderId: 'morning', amount: 0.5, userAddress: '0xUserB', timestamp: Date.parse('2026-05-02T01:00:00Z') });   // 09:00 local
+  return ledger;
+}
+
+describe('SpendingLedger windows', () => {
+  it('sums the last 24 hours in a rolling window', async () => {
+    const ledger = await ledgerWith({ type: 'rolling', durationMs: 24 * HOUR });
+    assert.equal(await ledger.getTotal({ now: NOW }), 1);
+    assert.equal(await ledger.getTotal({ now: NOW + 20 * HOUR }), 0.5);
+  });
+
+  it('starts a calendar day at the shop\'s midnight', async () => {
+    const ledger = await ledgerWith({ type: 'calendar_day' }, shanghai);
+    assert.deepEqual((await ledger.getEntries({ now: NOW })).map(entry => entry.orderId), ['midnight', 'morning']);
+    assert.equal(await ledger.getTotal({ now: NOW }), 0.75);
+  });
+
+  it('filters by user within the window', async () => {
+    const ledger = await ledgerWith({ type: 'calendar_day' }, shanghai);
+    assert.equal(await ledger.getTotal({ now: NOW, userAddress: '0xusera' }), 0.25);
+  });
+
+  it('counts a payment toward its category without the tip', async () => {
+    const ledger = new SpendingLedger();
+    await ledger.record({ orderId: 'tipped', amount: 0.75, tip: 0.25, userAddress: '0xUserA', category: 'coffee', timestamp: NOW - HOUR });
+    assert.equal(await ledger.getTotal({ now: NOW }), 0.75);
+    assert.equal(await ledger.getTotal({ now: NOW, category: 'coffee' }), 0.5);
+  });
+
+  it('records each order once', async () => {
+    const ledger = await ledgerWith({ type: 'rolling', durationMs: 24 * HOUR });
+    await ledger.record({ orderId: 'morning', amount: 0.5, userAddress: '0xUserB', timestamp: NOW - HOUR });
+    assert.equal((await ledger.getEntries({ now: NOW })).length, 3);
+  });
+});
@@ -0,0 +1,195 @@
+import { appendJsonl, readJsonl } from './jsonl';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+import { roundAmount } from '../cart/pricing';
+
+/**
+ * One item line of a cart payment
+ */
+export interface SpendingLine {
+  item: string;
+  category: string;
+  quantity: number;
+  amount: number;
+}
+
+/**
+ * A completed payment
+ */
+export interface SpendingEntry {
+  orderId: string;
+  amount: number;             // Everything paid out, tip included
+  tip?: number;               // Part of amount paid as a tip
+  userAddress: string;
+  merchantAddress?: string;
+  item?: string;
+  category?: string;
+  lines?: SpendingLine[];     // Cart payments: the amount split by item
+  timestamp: number;
+}
+
+/**
+ * Time window a spending total is taken over
+ * - rolling: the last durationMs milliseconds
+ * - calendar_day: since midnight in the shop's timezone
+ */
+export type SpendingWindow =
+  | { type: 'rolling'; durationMs: number }
+  | { type: 'calendar_day' };
+
+export const DEFAULT_SPENDING_WINDOW: SpendingWindow = {
+  type: 'rolling',
+  durationMs: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Filter for a spending total
+ */
+export interface SpendingQuery {
+  window?: SpendingWindow;    // Defaults to the ledger's window
+  userAddress?: string;       // Only this user's payments
+  merchantAddress?: string;   // Only payments to this merchant
+  category?: string;          // Only payments for this item category
+  now?: number;               // End of the window (defaults to now)
+}
+
+/**
+ * Spending Ledger - The single record of completed payments
+ *
+ * Every limit check (AI preview, approval step, single-agent policy)
+ * reads its totals from here, so they agree with each other and
+ * survive restarts. With a file path, entries are appended to a JSONL
+ * log and replayed on first use; without one the ledger is in-memory.
+ */
+export class SpendingLedger {
+  private filePath: string | null;
+  private window: SpendingWindow;
+  private entries: SpendingEntry[] = [];
+  private orderIds: Set<string> = new Set();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private schedule: BusinessSchedule | null;
+
+  /**
+   * @param schedule - Where calendar days start; without one, the server's local midnight
+   */
+  constructor(
+    filePath: string | null = null,
+    window: SpendingWindow = DEFAULT_SPENDING_WINDOW,
+    schedule: BusinessSchedule | null = null
+  ) {
+    this.filePath = filePath;
+    this.window = window;
+    this.schedule = schedule;
+  }
+
+  /**
+   * Replay the log into memory (once)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        if (!this.filePath) return;
+        const lines = await readJsonl<SpendingEntry>(this.filePath);
+        for (const entry of lines) {
+          this.add(entry);
+        }
+        console.log(`📂 Loaded ${this.entries.length} payment(s) from ${this.filePath}`);
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Record a completed payment
+   * Recording the same order twice has no effect.
+   */
+  async record(entry: SpendingEntry): Promise<void> {
+    await this.load();
+    if (!this.add(entry)) return;
+
+    if (this.filePath) {
+      const filePath = this.filePath;
+      const write = this.writeQueue.then(() => appendJsonl(filePath, entry));
+      this.writeQueue = write.catch(() => undefined);
+      await write;
+    }
+  }
+
+  /**
+   * Total spent within a window
+   * With a category, only that category's share of cart payments counts.
+   */
+  async getTotal(query: SpendingQuery = {}): Promise<number> {
+    const entries = await this.getEntries(query);
+    return entries.reduce((sum, entry) =>
+      sum + (query.category ? getCategoryAmounts(entry)[query.category] || 0 : entry.amount), 0);
+  }
+
+  /**
+   * Payments within a window, oldest first
+   */
+  async getEntries(query: SpendingQuery = {}): Promise<SpendingEntry[]> {
+    await this.load();
+    const now = query.now ?? Date.now();
+    const start = this.getWindowStart(query.window || this.window, now);
+    const userAddress = query.userAddress?.toLowerCase();
+    const merchantAddress = query.merchantAddress?.toLowerCase();
+
+    return this.entries.filter(entry =>
+      entry.timestamp > start &&
+      entry.timestamp <= now &&
+      (!userAddress || entry.userAddress.toLowerCase() === userAddress) &&
+      (!merchantAddress || entry.merchantAddress?.toLowerCase() === merchantAddress) &&
+      (!query.category || getCategoryAmounts(entry)[query.category] !== undefined)
+    );
+  }
+
+  /**
+   * Get the default window
+   */
+  getWindow(): SpendingWindow {
+    return this.window;
+  }
+
+  private add(entry: SpendingEntry): boolean {
+    if (this.orderIds.has(entry.orderId)) {
+      return false;
+    }
+    this.orderIds.add(entry.orderId);
+    this.entries.push({ ...entry });
+    return true;
+  }
+
+  private getWindowStart(window: SpendingWindow, now: number): number {
+    if (window.type === 'rolling') {
+      return now - window.durationMs;
+    }
+    let midnight: number;
+    if (this.schedule) {
+      midnight = this.schedule.getStartOfDay(now);
+    } else {
+      const local = new Date(now);
+      local.setHours(0, 0, 0, 0);
+      midnight = local.getTime();
+    }
+    // Entries exactly at midnight belong to the new day
+    return midnight - 1;
+  }
+}
+
+/**
+ * How much of a payment went to each item category
+ * Tips are not spent on an item, so they count toward no category -
+ * matching the approval check, which compares category limits with the
+ * order price alone.
+ */
+export function getCategoryAmounts(entry: SpendingEntry): Record<string, number> {
+  if (!entry.lines || entry.lines.length === 0) {
+    return { [entry.category || 'other']: roundAmount(entry.amount - (entry.tip || 0)) };
+  }
+  const amounts: Record<string, number> = {};
+  for (const line of entry.lines) {
+    amounts[line.category] = (amounts[line.category] || 0) + line.amount;
+  }
+  return amounts;
+}
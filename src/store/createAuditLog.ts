@@ -0,0 +1,14 @@
+import path from 'path';
+import { config } from '../config';
+import { AuditLog } from './AuditLog';
+
+/**
+ * Create the admin audit log, stored alongside the orders
+ * (in-memory when ORDER_STORE=memory)
+ */
+export function createAuditLog(): AuditLog {
+  if (config.storage.driver === 'memory') {
+    return new AuditLog(null);
+  }
+  return new AuditLog(path.join(config.storage.dataDir, 'audit.jsonl'));
+}
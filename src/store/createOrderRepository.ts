@@ -0,0 +1,21 @@
+import path from 'path';
+import { config } from '../config';
+import { OrderRepository } from './types';
+import { InMemoryOrderRepository } from './InMemoryOrderRepository';
+import { FileOrderRepository } from './FileOrderRepository';
+
+/**
+ * Create the order repository selected by ORDER_STORE
+ * - "file" (default): JSONL log under DATA_DIR
+ * - "memory": non-persistent, for tests and demos
+ */
+export function createOrderRepository(): OrderRepository {
+  if (config.storage.driver === 'memory') {
+    console.log('🗄️  Order store: in-memory (orders are lost on restart)');
+    return new InMemoryOrderRepository();
+  }
+
+  const filePath = path.join(config.storage.dataDir, 'orders.jsonl');
+  console.log(`🗄️  Order store: ${filePath}`);
+  return new FileOrderRepository(filePath);
+}
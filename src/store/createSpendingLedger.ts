@@ -0,0 +1,26 @@
+import path from 'path';
+import { config } from '../config';
+import { SpendingLedger, SpendingWindow, DEFAULT_SPENDING_WINDOW } from './SpendingLedger';
+import { BusinessSchedule } from '../schedule/BusinessSchedule';
+
+/**
+ * Create the spending ledger, stored alongside the orders
+ * - ORDER_STORE=file (default): JSONL log under DATA_DIR
+ * - ORDER_STORE=memory: non-persistent
+ * SPENDING_WINDOW picks "rolling" (last 24h, default) or "calendar_day",
+ * whose days start at midnight in the schedule's timezone.
+ */
+export function createSpendingLedger(schedule: BusinessSchedule | null = null): SpendingLedger {
+  const window: SpendingWindow = config.multiAgent.spendingWindow === 'calendar_day'
+    ? { type: 'calendar_day' }
+    : DEFAULT_SPENDING_WINDOW;
+
+  if (config.storage.driver === 'memory') {
+    console.log('🗄️  Spending ledger: in-memory (limits reset on restart)');
+    return new SpendingLedger(null, window, schedule);
+  }
+
+  const filePath = path.join(config.storage.dataDir, 'spending.jsonl');
+  console.log(`🗄️  Spending ledger: ${filePath}`);
+  return new SpendingLedger(filePath, window, schedule);
+}
@@ -0,0 +1,27 @@
+/**
+ * Order Store Exports
+ *
+ * Persistence for orders, their status transitions, pipeline records
+ * and AI decisions, plus the ledger of completed payments and the
+ * admin audit log.
+ */
+
+export * from './types';
+export * from './query';
+export { createResponseFromRecord, toPublicRecord, toPublicResponse } from './orderResponse';
+export { InMemoryOrderRepository } from './InMemoryOrderRepository';
+export { FileOrderRepository } from './FileOrderRepository';
+export { createOrderRepository } from './createOrderRepository';
+export { IdempotencyStore, IdempotentSubmission } from './IdempotencyStore';
+export {
+  SpendingLedger,
+  SpendingEntry,
+  SpendingLine,
+  SpendingWindow,
+  SpendingQuery,
+  DEFAULT_SPENDING_WINDOW,
+  getCategoryAmounts,
+} from './SpendingLedger';
+export { createSpendingLedger } from './createSpendingLedger';
+export { AuditLog, AuditEntry, AuditChange } from './AuditLog';
+export { createAuditLog } from './createAuditLog';
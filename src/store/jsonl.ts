@@ -0,0 +1,54 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * JSON Lines helpers shared by the file-backed stores
+ *
+ * Each entry is one line of JSON. Appending a line is cheap and a crash
+ * can at worst leave a truncated last line, which is skipped on read.
+ */
+
+/**
+ * Read all entries from a JSONL file (missing file → empty list)
+ */
+export async function readJsonl<T>(filePath: string): Promise<T[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries: T[] = [];
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') continue;
+    try {
+      entries.push(JSON.parse(line) as T);
+    } catch {
+      console.log(`⚠️  Skipping corrupt line in ${filePath}`);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Append a single entry to a JSONL file
+ */
+export async function appendJsonl(filePath: string, entry: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, JSON.stringify(entry) + '\n', 'utf8');
+}
+
+/**
+ * Replace the contents of a JSONL file atomically (write temp file, then rename)
+ */
+export async function writeJsonl(filePath: string, entries: unknown[]): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  const content = entries.map(entry => JSON.stringify(entry) + '\n').join('');
+  await fs.writeFile(tempPath, content, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createResponseFromRecord, toPublicRecord, toPublicResponse } from './orderResponse';
+import { OrderRecord } from './types';
+import { OrderStatus } from '../agents/types';
+import { AIDecision, RiskLevel, UserIntent } from '../ai/types';
+
+const record: OrderRecord = {
+  orderId: 'order_1',
+  request: {
+    intent: UserIntent.BUY_COFFEE,
+    item: 'Latte',
+    price: 0.03,
+    userAddress: '0xUser',
+    idempotencyKey: 'key-1',
+  },
+  order: {
+    id: 'order_1',
+    item: 'Latte',
+    price: 0.03,
+    currency: 'USDT',
+    merchantAddress: '0xMerchant',
+    userAddress: '0xUser',
+    timestamp: 0,
+  },
+  status: OrderStatus.AWAITING_CONFIRMATION,
+  statusHistory: [],
+  pipeline: {},
+  aiDecision: {
+    decision: AIDecision.CONFIRM,
+    confidence: 0.6,
+    riskLevel: RiskLevel.MEDIUM,
+    reasoning: [{ check: 'Amount Check', result: 'warn', detail: 'Unusually large', weight: 1 }],
+    summary: 'Please confirm',
+    processingTime: 0,
+    timestamp: 0,
+  },
+  confirmation: { token: 'secret-token', expiresAt: 1000 },
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('public order records', () => {
+  it('drops the confirmation token and idempotency key', () => {
+    const published = toPublicRecord(record);
+    assert.deepEqual(published.confirmation, { expiresAt: 1000 });
+    assert.equal('idempotencyKey' in published.request, false);
+    assert.equal(JSON.stringify(published).includes('secret-token'), false);
+    assert.equal(JSON.stringify(published).includes('key-1'), false);
+  });
+
+  it('leaves the stored record untouched', () => {
+    toPublicRecord(record);
+    assert.equal(record.confirmation?.token, 'secret-token');
+    assert.equal(record.request.idempotencyKey, 'key-1');
+  });
+
+  it('drops the token from a CONFIRM response but keeps the warnings', () => {
+    const response = createResponseFromRecord(record);
+    assert.equal(response.confirmation?.token, 'secret-token');
+
+    const published = toPublicResponse(response);
+    assert.deepEqual(published.confirmation, { expiresAt: 1000, warnings: ['Unusually large'] });
+  });
+
+  it('reports an order without a decision as still processing', () => {
+    const response = createResponseFromRecord({ ...record, status: OrderStatus.RECEIVED, aiDecision: undefined });
+    assert.equal(response.success, false);
+    assert.equal(response.error, 'Order is still being processed (status: received)');
+  });
+});
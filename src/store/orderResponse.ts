@@ -0,0 +1,59 @@
+import { OrderStatus } from '../agents/types';
+import { getConfirmationWarnings } from '../agents/confirmationToken';
+import { AIEnhancedOrderResponse } from '../ai/types';
+import { OrderRecord, PublicOrderRecord } from './types';
+
+/**
+ * A stored record as anyone may see it
+ *
+ * The confirmation token and the idempotency key are secrets of the
+ * submitter: either one is enough to act on the order.
+ */
+export function toPublicRecord(record: OrderRecord): PublicOrderRecord {
+  const { idempotencyKey: _idempotencyKey, ...request } = record.request;
+  const { confirmation, ...rest } = record;
+  if (!confirmation) return { ...rest, request };
+
+  const { token: _token, ...publicConfirmation } = confirmation;
+  return { ...rest, request, confirmation: publicConfirmation };
+}
+
+/**
+ * An order response without the confirmation token
+ */
+export function toPublicResponse(response: AIEnhancedOrderResponse): AIEnhancedOrderResponse {
+  if (!response.confirmation) return response;
+  const { token: _token, ...confirmation } = response.confirmation;
+  return { ...response, confirmation };
+}
+
+/**
+ * Rebuild the order response from a stored record
+ * A record without a decision is an order that has not been evaluated yet.
+ */
+export function createResponseFromRecord(record: OrderRecord): AIEnhancedOrderResponse {
+  const payment = record.pipeline.payment;
+  return {
+    success: record.status === OrderStatus.COMPLETED,
+    orderId: record.orderId,
+    aiDecision: record.aiDecision!,
+    pricing: record.order.pricing,
+    tip: record.order.tip,
+    transaction: payment?.txHash ? {
+      hash: payment.txHash,
+      explorerUrl: payment.explorerUrl || '',
+      status: record.status === OrderStatus.COMPLETED ? 'confirmed' : 'failed',
+    } : undefined,
+    schedule: record.status === OrderStatus.SCHEDULED && record.schedule ? {
+      scheduledFor: record.schedule.scheduledFor,
+      reason: record.schedule.reason,
+    } : undefined,
+    confirmation: record.status === OrderStatus.AWAITING_CONFIRMATION && record.confirmation ? {
+      token: record.confirmation.token,
+      expiresAt: record.confirmation.expiresAt,
+      warnings: getConfirmationWarnings(record.aiDecision!),
+    } : undefined,
+    pipeline: { ...record.pipeline },
+    error: record.error || (record.aiDecision ? undefined : `Order is still being processed (status: ${record.status})`),
+  };
+}
@@ -0,0 +1,87 @@
+import { OrderStatus } from '../agents/types';
+import { OrderRecord } from './types';
+
+/**
+ * Filters for listing order history
+ */
+export interface OrderQuery {
+  userAddress?: string;
+  status?: OrderStatus;
+  from?: number;        // createdAt lower bound (inclusive, ms)
+  to?: number;          // createdAt upper bound (inclusive, ms)
+  idempotencyKey?: string;
+  limit?: number;
+  cursor?: string;      // nextCursor from a previous page
+}
+
+/**
+ * One page of order history, newest first
+ */
+export interface OrderPage {
+  orders: OrderRecord[];
+  nextCursor?: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Encode the position after a record as an opaque cursor
+ */
+function encodeCursor(record: OrderRecord): string {
+  return Buffer.from(`${record.createdAt}:${record.orderId}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor back into its sort key
+ */
+function decodeCursor(cursor: string): { createdAt: number; orderId: string } {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(':');
+  const createdAt = Number(decoded.slice(0, separator));
+  if (separator <= 0 || !Number.isFinite(createdAt)) {
+    throw new Error('Invalid cursor');
+  }
+  return { createdAt, orderId: decoded.slice(separator + 1) };
+}
+
+/**
+ * Newest first; order id breaks ties so pages are stable
+ */
+function compareNewestFirst(a: OrderRecord, b: OrderRecord): number {
+  if (a.createdAt !== b.createdAt) return b.createdAt - a.createdAt;
+  return a.orderId < b.orderId ? 1 : a.orderId > b.orderId ? -1 : 0;
+}
+
+/**
+ * Apply filters and cursor pagination to a set of records
+ * Shared by repositories that hold their records in memory.
+ */
+export function queryOrders(records: OrderRecord[], query: OrderQuery): OrderPage {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const userAddress = query.userAddress?.toLowerCase();
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+
+  const matches = records
+    .filter(record => {
+      if (userAddress && record.request.userAddress.toLowerCase() !== userAddress) return false;
+      if (query.status && record.status !== query.status) return false;
+      if (query.idempotencyKey && record.request.idempotencyKey !== query.idempotencyKey) return false;
+      if (query.from !== undefined && record.createdAt < query.from) return false;
+      if (query.to !== undefined && record.createdAt > query.to) return false;
+      if (after) {
+        if (record.createdAt > after.createdAt) return false;
+        if (record.createdAt === after.createdAt && record.orderId >= after.orderId) return false;
+      }
+      return true;
+    })
+    .sort(compareNewestFirst);
+
+  const orders = matches.slice(0, limit);
+  const hasMore = matches.length > limit;
+
+  return {
+    orders,
+    nextCursor: hasMore ? encodeCursor(orders[orders.length - 1]) : undefined,
+  };
+}
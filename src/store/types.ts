@@ -0,0 +1,89 @@
+/**
+ * Order Store Types
+ *
+ * Persistent records of every order that enters the orchestrator,
+ * so orders can be reconciled after a crash or restart.
+ */
+
+import {
+  CoffeeOrder,
+  OrderStatus,
+  ProcessingPipeline,
+} from '../agents/types';
+import {
+  AIContext,
+  AIDecisionResult,
+  IntentOrderRequest,
+} from '../ai/types';
+import { DecisionReceipt } from '../agents/decisionReceipt';
+import { OrderQuery, OrderPage } from './query';
+
+/**
+ * A single status change of an order
+ */
+export interface OrderStatusTransition {
+  status: OrderStatus;
+  timestamp: number;
+}
+
+/**
+ * Everything known about an order at a point in time
+ */
+export interface OrderRecord {
+  orderId: string;
+  request: IntentOrderRequest;
+  order: CoffeeOrder;
+  status: OrderStatus;
+  statusHistory: OrderStatusTransition[];
+  pipeline: ProcessingPipeline;
+  aiContext?: AIContext;
+  aiDecision?: AIDecisionResult;
+  decisionReceipt?: DecisionReceipt;  // aiDecision, signed by the approval agent
+  schedule?: {
+    scheduledFor: number;
+    reason: string;
+    attempts: number;                 // Times the order has been deferred
+  };
+  confirmation?: {
+    token: string;
+    expiresAt: number;
+    confirmedAt?: number;
+  };
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * An order record without the submitter's secrets
+ * (confirmation token and idempotency key)
+ */
+export type PublicOrderRecord = Omit<OrderRecord, 'request' | 'confirmation'> & {
+  request: Omit<IntentOrderRequest, 'idempotencyKey'>;
+  confirmation?: Omit<NonNullable<OrderRecord['confirmation']>, 'token'>;
+};
+
+/**
+ * Storage backend for order records
+ */
+export interface OrderRepository {
+  /**
+   * Insert or replace the record for record.orderId
+   */
+  save(record: OrderRecord): Promise<void>;
+
+  /**
+   * Look up a single order
+   */
+  findById(orderId: string): Promise<OrderRecord | null>;
+
+  /**
+   * All stored orders, oldest first
+   */
+  findAll(): Promise<OrderRecord[]>;
+
+  /**
+   * Filtered, paginated history, newest first
+   */
+  query(query: OrderQuery): Promise<OrderPage>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Tips Exports
+ *
+ * Tips on top of an order: a fixed amount or a percentage, capped by
+ * policy and optionally paid to a separate tip jar address.
+ */
+
+export * from './types';
+export {
+  resolveTip,
+  checkTip,
+  checkTipLimits,
+  getTipPercent,
+  getOrderTotal,
+  isSplitTip,
+  describeTip,
+} from './tips';
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  resolveTip,
+  checkTip,
+  checkTipLimits,
+  getTipPercent,
+  getOrderTotal,
+  isSplitTip,
+  describeTip,
+} from './tips';
+
+const TIP_JAR = '0x1234567890abcdef1234567890abcdef12345678';
+const MERCHANT = '0xfedcba0987654321fedcba0987654321fedcba09';
+const limits = { maxTipAmount: 0.1, maxTipPercent: 30 };
+
+describe('resolveTip', () => {
+  it('takes a percentage of the discounted price', () => {
+    assert.deepEqual(resolveTip({ percent: 15 }, 0.2, TIP_JAR), {
+      valid: true,
+      tip: { amount: 0.03, percent: 15, recipient: TIP_JAR },
+    });
+  });
+
+  it('rounds amounts to 6 decimals', () => {
+    assert.equal(resolveTip({ amount: 0.0050000001 }, 0.2, TIP_JAR).tip?.amount, 0.005);
+    assert.equal(resolveTip({ percent: 10 }, 0.03, TIP_JAR).tip?.amount, 0.003);
+  });
+
+  it('needs exactly one of amount and percent', () => {
+    assert.equal(resolveTip({}, 0.2, TIP_JAR).valid, false);
+    assert.deepEqual(resolveTip({ amount: 0.01, percent: 10 }, 0.2, TIP_JAR), {
+      valid: false,
+      reason: 'tip needs exactly one of "amount" or "percent"',
+    });
+  });
+
+  it('rejects tips that are not positive numbers', () => {
+    for (const request of [{ amount: 0 }, { amount: -0.01 }, { amount: '0.01' }, { percent: 0 }, { percent: Infinity }, 'tip', [0.01], null]) {
+      assert.equal(resolveTip(request, 0.2, TIP_JAR).valid, false, JSON.stringify(request));
+    }
+  });
+
+  it('rejects a percentage that rounds to nothing', () => {
+    assert.equal(resolveTip({ percent: 0.0001 }, 0.001, TIP_JAR).valid, false);
+  });
+});
+
+describe('checkTip', () => {
+  it('accepts a tip whose percentage matches its amount', () => {
+    assert.equal(checkTip({ amount: 0.03, percent: 15, recipient: TIP_JAR }, 0.2).valid, true);
+  });
+
+  it('rejects a tip whose amount was changed after pricing', () => {
+    assert.deepEqual(checkTip({ amount: 0.05, percent: 15, recipient: TIP_JAR }, 0.2), {
+      valid: false,
+      reason: '15% of 0.2 USDT is not 0.05 USDT',
+    });
+  });
+
+  it('rejects a missing or malformed recipient', () => {
+    assert.equal(checkTip({ amount: 0.01, recipient: '' }, 0.2).valid, false);
+    assert.equal(checkTip({ amount: 0.01, recipient: 'tip-jar' }, 0.2).valid, false);
+  });
+});
+
+describe('checkTipLimits', () => {
+  it('accepts a tip within both caps', () => {
+    assert.equal(checkTipLimits({ amount: 0.03, recipient: TIP_JAR }, 0.2, limits).valid, true);
+  });
+
+  it('accepts a tip exactly at the caps', () => {
+    assert.equal(checkTipLimits({ amount: 0.1, recipient: TIP_JAR }, 1, limits).valid, true);
+    assert.equal(checkTipLimits({ amount: 0.06, recipient: TIP_JAR }, 0.2, limits).valid, true);
+  });
+
+  it('rejects a tip over the amount cap', () => {
+    assert.deepEqual(checkTipLimits({ amount: 0.2, recipient: TIP_JAR }, 1, limits), {
+      valid: false,
+      reason: 'Tip 0.2 USDT exceeds the 0.1 USDT tip cap',
+    });
+  });
+
+  it('rejects a fixed tip over the percentage cap', () => {
+    assert.deepEqual(checkTipLimits({ amount: 0.01, recipient: TIP_JAR }, 0.03, limits), {
+      valid: false,
+      reason: 'Tip is 33.3% of the order, over the 30% tip cap',
+    });
+  });
+
+  it('uses the requested percentage for percentage tips', () => {
+    assert.equal(checkTipLimits({ amount: 0.07, percent: 35, recipient: TIP_JAR }, 0.2, limits).valid, false);
+    assert.equal(getTipPercent({ amount: 0.07, percent: 35, recipient: TIP_JAR }, 0.2), 35);
+  });
+
+  it('treats any tip on a free order as over the percentage cap', () => {
+    assert.equal(getTipPercent({ amount: 0.01, recipient: TIP_JAR }, 0), Infinity);
+    assert.equal(checkTipLimits({ amount: 0.01, recipient: TIP_JAR }, 0, limits).valid, false);
+  });
+});
+
+describe('splitting the payment', () => {
+  it('adds the tip to the order total', () => {
+    assert.equal(getOrderTotal(0.1, { amount: 0.02, recipient: TIP_JAR }), 0.12);
+    assert.equal(getOrderTotal(0.1), 0.1);
+  });
+
+  it('splits a tip paid to its own address', () => {
+    assert.equal(isSplitTip({ amount: 0.01, recipient: TIP_JAR }, MERCHANT), true);
+    assert.equal(isSplitTip({ amount: 0.01, recipient: MERCHANT.toUpperCase().replace('0X', '0x') }, MERCHANT), false);
+  });
+
+  it('says where the tip goes', () => {
+    assert.equal(describeTip({ amount: 0.01, percent: 20, recipient: TIP_JAR }, MERCHANT), '0.01 USDT (20%) to tip jar 0x1234…5678');
+    assert.equal(describeTip({ amount: 0.01, recipient: MERCHANT }, MERCHANT), '0.01 USDT to the merchant');
+  });
+});
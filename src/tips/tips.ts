@@ -0,0 +1,99 @@
+import { roundAmount } from '../cart/pricing';
+import { OrderTip, TipLimits, TipRequest } from './types';
+
+/**
+ * Turn a tip request into the tip paid on an order
+ * A percentage is taken of the order price after discounts.
+ */
+export function resolveTip(
+  request: unknown,
+  price: number,
+  recipient: string
+): { valid: boolean; reason?: string; tip?: OrderTip } {
+  if (!request || typeof request !== 'object' || Array.isArray(request)) {
+    return { valid: false, reason: 'tip must be an object with "amount" or "percent"' };
+  }
+  const { amount, percent } = request as TipRequest;
+  if ((amount === undefined) === (percent === undefined)) {
+    return { valid: false, reason: 'tip needs exactly one of "amount" or "percent"' };
+  }
+
+  if (percent !== undefined) {
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0) {
+      return { valid: false, reason: 'tip.percent must be a positive number' };
+    }
+    const tipAmount = roundAmount(price * percent / 100);
+    if (tipAmount <= 0) {
+      return { valid: false, reason: `${percent}% of ${price} USDT rounds to nothing` };
+    }
+    return { valid: true, tip: { amount: tipAmount, percent, recipient } };
+  }
+
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return { valid: false, reason: 'tip.amount must be a positive number' };
+  }
+  return { valid: true, tip: { amount: roundAmount(amount), recipient } };
+}
+
+/**
+ * Check a tip carried on an order (Reception Agent)
+ */
+export function checkTip(tip: OrderTip, price: number): { valid: boolean; reason?: string } {
+  if (typeof tip.amount !== 'number' || !(tip.amount > 0)) {
+    return { valid: false, reason: 'Tip must be a positive amount' };
+  }
+  if (!tip.recipient || !tip.recipient.startsWith('0x')) {
+    return { valid: false, reason: `Invalid tip recipient: ${tip.recipient}` };
+  }
+  if (tip.percent !== undefined && Math.abs(roundAmount(price * tip.percent / 100) - tip.amount) > 1e-6) {
+    return { valid: false, reason: `${tip.percent}% of ${price} USDT is not ${tip.amount} USDT` };
+  }
+  return { valid: true };
+}
+
+/**
+ * The tip as a percentage of the order price
+ */
+export function getTipPercent(tip: OrderTip, price: number): number {
+  if (tip.percent !== undefined) return tip.percent;
+  return price > 0 ? Math.round(tip.amount / price * 1000) / 10 : Infinity;
+}
+
+/**
+ * Check a tip against the tip caps
+ */
+export function checkTipLimits(tip: OrderTip, price: number, limits: TipLimits): { valid: boolean; reason?: string } {
+  if (tip.amount > limits.maxTipAmount) {
+    return { valid: false, reason: `Tip ${tip.amount} USDT exceeds the ${limits.maxTipAmount} USDT tip cap` };
+  }
+  const percent = getTipPercent(tip, price);
+  if (percent > limits.maxTipPercent) {
+    return { valid: false, reason: `Tip is ${percent}% of the order, over the ${limits.maxTipPercent}% tip cap` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Everything an order sends out: its price plus any tip
+ */
+export function getOrderTotal(price: number, tip?: OrderTip): number {
+  return tip ? roundAmount(price + tip.amount) : price;
+}
+
+/**
+ * Whether a tip is paid to its own address instead of with the order payment
+ */
+export function isSplitTip(tip: OrderTip, merchantAddress: string): boolean {
+  return tip.recipient.toLowerCase() !== merchantAddress.toLowerCase();
+}
+
+/**
+ * A tip for receipts, e.g. "0.01 USDT (20%) to tip jar 0x12ab…cdef"
+ */
+export function describeTip(tip: OrderTip, merchantAddress: string): string {
+  const percent = tip.percent !== undefined ? ` (${tip.percent}%)` : '';
+  const to = isSplitTip(tip, merchantAddress)
+    ? `to tip jar ${tip.recipient.slice(0, 6)}…${tip.recipient.slice(-4)}`
+    : 'to the merchant';
+  return `${tip.amount} USDT${percent} ${to}`;
+}
@@ -0,0 +1,28 @@
+/**
+ * Tip Types
+ */
+
+/**
+ * A tip as asked for by the customer: a fixed amount or a percentage of the order
+ */
+export interface TipRequest {
+  amount?: number;              // USDT
+  percent?: number;             // Of the order price, after discounts
+}
+
+/**
+ * A tip on an order, paid on top of the order price
+ */
+export interface OrderTip {
+  amount: number;               // USDT, on top of CoffeeOrder.price
+  percent?: number;             // Set when the tip was asked for as a percentage
+  recipient: string;            // Tip jar address (the merchant's when no tip jar is configured)
+}
+
+/**
+ * Limits on tips, enforced by the AI tip check and the Approval Agent
+ */
+export interface TipLimits {
+  maxTipAmount: number;         // USDT
+  maxTipPercent: number;        // Of the order price
+}